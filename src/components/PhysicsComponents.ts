@@ -7,9 +7,12 @@ import {
 } from '../interfaces/IPhysicsEngine';
 import {
   RigidBodyType,
+  PhysicsInterpolationMode,
+  ColliderType,
   ColliderConfig,
   PhysicsMaterial,
-  CollisionFilter
+  CollisionFilter,
+  OneWayPlatformConfig
 } from '../types/PhysicsTypes';
 
 /**
@@ -41,6 +44,9 @@ export class RigidBodyComponent extends Component {
   /** Whether the body is a bullet | 物体是否为子弹 */
   public bullet: boolean;
 
+  /** Moved by a teleport; the transform snaps instead of interpolating | 已被瞬移；变换直接对齐而不插值 */
+  public teleported: boolean = false;
+
   constructor(
     type: RigidBodyType = RigidBodyType.Dynamic,
     linearDamping: Fixed | number = 0,
@@ -69,11 +75,12 @@ export class RigidBodyComponent extends Component {
   }
 
   /**
-   * Set position to physics body
-   * 设置物理刚体位置
+   * Set position to physics body; a teleport skips render interpolation
+   * 设置物理刚体位置；瞬移会跳过渲染插值
    */
-  setPosition(position: FixedVector2): void {
+  setPosition(position: FixedVector2, teleport: boolean = false): void {
     this.body?.setPosition(position);
+    this.teleported = this.teleported || teleport;
   }
 
   /**
@@ -85,11 +92,12 @@ export class RigidBodyComponent extends Component {
   }
 
   /**
-   * Set rotation to physics body
-   * 设置物理刚体旋转
+   * Set rotation to physics body; a teleport skips render interpolation
+   * 设置物理刚体旋转；瞬移会跳过渲染插值
    */
-  setRotation(rotation: Fixed): void {
+  setRotation(rotation: Fixed, teleport: boolean = false): void {
     this.body?.setRotation(rotation);
+    this.teleported = this.teleported || teleport;
   }
 
   /**
@@ -132,6 +140,13 @@ export class RigidBodyComponent extends Component {
 export class ColliderComponent extends Component {
   /** The physics engine collider | 物理引擎碰撞器 */
   public collider: ICollider | null = null;
+
+  /**
+   * Extra colliders created when the engine approximates the shape with several parts,
+   * e.g. the end circles of a capsule on an engine without native capsules
+   * 引擎用多个部分近似形状时创建的额外碰撞器，例如在不支持原生胶囊的引擎上胶囊两端的圆
+   */
+  public fallbackColliders: ICollider[] = [];
   
   /** Collider configuration | 碰撞器配置 */
   public config: ColliderConfig;
@@ -145,6 +160,15 @@ export class ColliderComponent extends Component {
   /** Whether this is a sensor | 是否为传感器 */
   public isSensor: boolean;
 
+  /**
+   * Heightfield samples changed since the collider system last synced, end exclusive
+   * 自碰撞器系统上次同步以来发生变化的高度场采样范围，不含结束位置
+   */
+  public dirtyHeights: { start: number; end: number } | null = null;
+
+  /** One-way platform setting, null for a collider that blocks from every side | 单向平台设置，为null时从所有方向阻挡 */
+  public oneWay: OneWayPlatformConfig | null = null;
+
   constructor(
     config: ColliderConfig,
     material: PhysicsMaterial = {
@@ -173,6 +197,17 @@ export class ColliderComponent extends Component {
   setMaterial(material: PhysicsMaterial): void {
     this.material = material;
     this.collider?.setMaterial(material);
+    for (const fallback of this.fallbackColliders) {
+      fallback.setMaterial(material);
+    }
+  }
+
+  /**
+   * Set the conveyor-belt surface speed, keeping the rest of the material
+   * 设置传送带表面速度，材质的其他属性保持不变
+   */
+  setSurfaceSpeed(speed: Fixed): void {
+    this.setMaterial({ ...this.material, tangentSpeed: speed });
   }
 
   /**
@@ -182,6 +217,9 @@ export class ColliderComponent extends Component {
   setFilter(filter: CollisionFilter): void {
     this.filter = filter;
     this.collider?.setFilter(filter);
+    for (const fallback of this.fallbackColliders) {
+      fallback.setFilter(filter);
+    }
   }
 
   /**
@@ -191,7 +229,312 @@ export class ColliderComponent extends Component {
   setSensor(isSensor: boolean): void {
     this.isSensor = isSensor;
     this.collider?.setSensor(isSensor);
+    for (const fallback of this.fallbackColliders) {
+      fallback.setSensor(isSensor);
+    }
+  }
+
+  /**
+   * Make the collider a one-way platform, or pass null to block from every side again
+   * 将碰撞器设为单向平台，传入null则恢复为从所有方向阻挡
+   */
+  setOneWay(oneWay: OneWayPlatformConfig | null): void {
+    this.oneWay = oneWay;
+  }
+
+  /**
+   * Replace heightfield samples from `start` on. The collider system applies the change on its next
+   * update, in place when the engine collider supports it and by rebuilding the collider otherwise.
+   * 从 `start` 开始替换高度场采样。碰撞器系统会在下一次更新时应用修改，
+   * 引擎碰撞器支持时原地更新，否则重建碰撞器。
+   */
+  setHeights(start: number, heights: Fixed[]): void {
+    if (this.config.type !== ColliderType.Heightfield) {
+      throw new Error(`setHeights requires a heightfield collider, got '${this.config.type}'`);
+    }
+    const end = start + heights.length;
+    if (!Number.isInteger(start) || start < 0 || end > this.config.heights.length) {
+      throw new Error(`Samples ${start}..${end} are outside the heightfield's ${this.config.heights.length} samples`);
+    }
+
+    const updated = this.config.heights.slice();
+    updated.splice(start, heights.length, ...heights);
+    this.config = { ...this.config, heights: updated };
+    this.dirtyHeights = this.dirtyHeights
+      ? { start: Math.min(this.dirtyHeights.start, start), end: Math.max(this.dirtyHeights.end, end) }
+      : { start, end };
+  }
+}
+
+/**
+ * One shape of a CompoundColliderComponent; unset material, filter and sensor flag fall back to the component's
+ * CompoundColliderComponent 的单个形状；未设置的材质、过滤器和传感器标志使用组件的默认值
+ */
+export interface CompoundColliderShape {
+  /** Identifier reported back by collision callbacks | 碰撞回调返回的标识符 */
+  id: string;
+  /** Collider configuration | 碰撞器配置 */
+  config: ColliderConfig;
+  /** Physics material override | 物理材质覆盖 */
+  material?: PhysicsMaterial;
+  /** Collision filter override | 碰撞过滤器覆盖 */
+  filter?: CollisionFilter;
+  /** Sensor flag override | 传感器标志覆盖 */
+  isSensor?: boolean;
+}
+
+/**
+ * Several colliders on one rigid body, each with its own id and optional material, filter and sensor flag.
+ * Plain configs are given their index as id.
+ * 同一刚体上的多个碰撞器，每个都有自己的ID以及可选的材质、过滤器和传感器标志。普通配置以其索引作为ID。
+ */
+export class CompoundColliderComponent extends Component {
+  /** The physics engine colliders by shape id | 按形状ID索引的物理引擎碰撞器 */
+  public colliders = new Map<string, ICollider>();
+
+  /**
+   * Extra colliders by shape id, created when the engine approximates a shape with several parts
+   * 按形状ID索引的额外碰撞器，在引擎用多个部分近似形状时创建
+   */
+  public fallbackColliders = new Map<string, ICollider[]>();
+
+  /** Shapes in creation order | 按创建顺序排列的形状 */
+  public readonly shapes: CompoundColliderShape[];
+
+  /**
+   * Ids of shapes added after the colliders were created, picked up by the compound collider system
+   * 碰撞器创建之后添加的形状ID，由复合碰撞器系统处理
+   */
+  public readonly pendingShapeIds = new Set<string>();
+
+  /**
+   * Colliders destroyed by removeShape, handed to the world system on the compound collider system's next update
+   * 被 removeShape 销毁的碰撞器，会在复合碰撞器系统下一次更新时交给世界系统
+   */
+  public readonly removedColliders: ICollider[] = [];
+
+  /** Default physics material | 默认物理材质 */
+  public material: PhysicsMaterial;
+
+  /** Default collision filter | 默认碰撞过滤器 */
+  public filter: CollisionFilter;
+
+  /** Default sensor flag | 默认传感器标志 */
+  public isSensor: boolean;
+
+  constructor(
+    shapes: Array<ColliderConfig | CompoundColliderShape>,
+    material: PhysicsMaterial = {
+      friction: new Fixed(0.3),
+      restitution: new Fixed(0.1),
+      density: new Fixed(1.0)
+    },
+    filter: CollisionFilter = {
+      categoryBits: 0x0001,
+      maskBits: 0xFFFF,
+      groupIndex: 0
+    },
+    isSensor: boolean = false
+  ) {
+    super();
+    this.shapes = shapes.map((shape, index) => 'config' in shape ? shape : { id: String(index), config: shape });
+    this.material = material;
+    this.filter = filter;
+    this.isSensor = isSensor;
+
+    const ids = new Set<string>();
+    for (const shape of this.shapes) {
+      if (ids.has(shape.id)) {
+        throw new Error(`Duplicate compound collider shape id '${shape.id}'`);
+      }
+      ids.add(shape.id);
+    }
+  }
+
+  /**
+   * Add a shape; its collider is created on the compound collider system's next update
+   * 添加形状；其碰撞器会在复合碰撞器系统下一次更新时创建
+   */
+  addShape(shape: CompoundColliderShape): void {
+    if (this.getShape(shape.id)) {
+      throw new Error(`Duplicate compound collider shape id '${shape.id}'`);
+    }
+    this.shapes.push(shape);
+    this.pendingShapeIds.add(shape.id);
+  }
+
+  /**
+   * Remove a shape and destroy its collider
+   * 移除形状并销毁其碰撞器
+   */
+  removeShape(id: string): boolean {
+    const index = this.shapes.findIndex(shape => shape.id === id);
+    if (index < 0) return false;
+
+    this.shapes.splice(index, 1);
+    this.pendingShapeIds.delete(id);
+    for (const collider of this.getShapeColliders(id)) {
+      collider.destroy();
+      this.removedColliders.push(collider);
+    }
+    this.colliders.delete(id);
+    this.fallbackColliders.delete(id);
+    return true;
+  }
+
+  /**
+   * Get the shape with the given id
+   * 获取指定ID的形状
+   */
+  getShape(id: string): CompoundColliderShape | undefined {
+    return this.shapes.find(shape => shape.id === id);
+  }
+
+  /**
+   * Get the engine collider of a shape
+   * 获取某个形状的引擎碰撞器
+   */
+  getCollider(id: string): ICollider | undefined {
+    return this.colliders.get(id);
   }
+
+  /**
+   * Get the engine collider of a shape followed by its fallback colliders
+   * 获取某个形状的引擎碰撞器及其替代碰撞器
+   */
+  getShapeColliders(id: string): ICollider[] {
+    const collider = this.colliders.get(id);
+    return collider ? [collider, ...(this.fallbackColliders.get(id) ?? [])] : [];
+  }
+
+  /**
+   * Get the shape id of an engine collider, fallback colliders included
+   * 获取引擎碰撞器（包括替代碰撞器）对应的形状ID
+   */
+  getColliderId(collider: ICollider): string | undefined {
+    for (const [id, candidate] of this.colliders) {
+      if (candidate === collider) return id;
+    }
+    for (const [id, fallbacks] of this.fallbackColliders) {
+      if (fallbacks.includes(collider)) return id;
+    }
+    return undefined;
+  }
+
+  /**
+   * Material a shape uses
+   * 形状使用的材质
+   */
+  getShapeMaterial(shape: CompoundColliderShape): PhysicsMaterial {
+    return shape.material ?? this.material;
+  }
+
+  /**
+   * Filter a shape uses
+   * 形状使用的过滤器
+   */
+  getShapeFilter(shape: CompoundColliderShape): CollisionFilter {
+    return shape.filter ?? this.filter;
+  }
+
+  /**
+   * Sensor flag a shape uses
+   * 形状使用的传感器标志
+   */
+  isShapeSensor(shape: CompoundColliderShape): boolean {
+    return shape.isSensor ?? this.isSensor;
+  }
+
+  /**
+   * Set the default material, applied to shapes without their own
+   * 设置默认材质，应用于没有自身材质的形状
+   */
+  setMaterial(material: PhysicsMaterial): void {
+    this.material = material;
+    for (const shape of this.shapes) {
+      if (shape.material) continue;
+      for (const collider of this.getShapeColliders(shape.id)) collider.setMaterial(material);
+    }
+  }
+
+  /**
+   * Set the default filter, applied to shapes without their own
+   * 设置默认过滤器，应用于没有自身过滤器的形状
+   */
+  setFilter(filter: CollisionFilter): void {
+    this.filter = filter;
+    for (const shape of this.shapes) {
+      if (shape.filter) continue;
+      for (const collider of this.getShapeColliders(shape.id)) collider.setFilter(filter);
+    }
+  }
+
+  /**
+   * Set the default sensor flag, applied to shapes without their own
+   * 设置默认传感器标志，应用于没有自身标志的形状
+   */
+  setSensor(isSensor: boolean): void {
+    this.isSensor = isSensor;
+    for (const shape of this.shapes) {
+      if (shape.isSensor !== undefined) continue;
+      for (const collider of this.getShapeColliders(shape.id)) collider.setSensor(isSensor);
+    }
+  }
+
+  /**
+   * Override the material of one shape
+   * 覆盖单个形状的材质
+   */
+  setShapeMaterial(id: string, material: PhysicsMaterial): void {
+    const shape = this.requireShape(id);
+    shape.material = material;
+    for (const collider of this.getShapeColliders(id)) {
+      collider.setMaterial(material);
+    }
+  }
+
+  /**
+   * Override the filter of one shape
+   * 覆盖单个形状的过滤器
+   */
+  setShapeFilter(id: string, filter: CollisionFilter): void {
+    const shape = this.requireShape(id);
+    shape.filter = filter;
+    for (const collider of this.getShapeColliders(id)) {
+      collider.setFilter(filter);
+    }
+  }
+
+  /**
+   * Override the sensor flag of one shape
+   * 覆盖单个形状的传感器标志
+   */
+  setShapeSensor(id: string, isSensor: boolean): void {
+    const shape = this.requireShape(id);
+    shape.isSensor = isSensor;
+    for (const collider of this.getShapeColliders(id)) {
+      collider.setSensor(isSensor);
+    }
+  }
+
+  private requireShape(id: string): CompoundColliderShape {
+    const shape = this.getShape(id);
+    if (!shape) {
+      throw new Error(`Unknown compound collider shape id '${id}'`);
+    }
+    return shape;
+  }
+}
+
+/**
+ * Shape ids of the colliders involved in a collision callback
+ * 碰撞回调中涉及的碰撞器的形状ID
+ */
+export interface CollisionColliderIds {
+  /** Shape id of this entity's collider, null unless it is part of a compound | 本实体碰撞器的形状ID，非复合碰撞器时为null */
+  colliderId: string | null;
+  /** Shape id of the other entity's collider, null unless it is part of a compound | 另一实体碰撞器的形状ID，非复合碰撞器时为null */
+  otherColliderId: string | null;
 }
 
 /**
@@ -290,6 +633,42 @@ export class PhysicsTransformComponent extends Component {
       this.rotation.subtract(this.previousRotation).multiply(alpha)
     );
   }
+
+  /**
+   * Get position extrapolated past the latest step
+   * 获取越过最新一步推算的位置
+   */
+  getExtrapolatedPosition(alpha: Fixed): FixedVector2 {
+    return this.position.add(this.position.subtract(this.previousPosition).multiply(alpha));
+  }
+
+  /**
+   * Get rotation extrapolated past the latest step
+   * 获取越过最新一步推算的旋转
+   */
+  getExtrapolatedRotation(alpha: Fixed): Fixed {
+    return this.rotation.add(this.rotation.subtract(this.previousRotation).multiply(alpha));
+  }
+}
+
+/**
+ * Render-ready transform written by PhysicsInterpolationSystem
+ * 由 PhysicsInterpolationSystem 写入的可供渲染的变换
+ */
+export class PhysicsRenderTransformComponent extends Component {
+  /** Position to render | 渲染位置 */
+  public position: FixedVector2 = new FixedVector2();
+
+  /** Rotation to render in radians | 渲染旋转角度（弧度） */
+  public rotation: Fixed = Fixed.ZERO;
+
+  /** Interpolation mode | 插值模式 */
+  public mode: PhysicsInterpolationMode;
+
+  constructor(mode: PhysicsInterpolationMode = PhysicsInterpolationMode.Interpolate) {
+    super();
+    this.mode = mode;
+  }
 }
 
 /**
@@ -298,22 +677,22 @@ export class PhysicsTransformComponent extends Component {
  */
 export class CollisionEventComponent extends Component {
   /** Collision begin callbacks | 碰撞开始回调 */
-  public onCollisionBegin: Array<(other: unknown) => void> = [];
+  public onCollisionBegin: Array<(other: unknown, ids: CollisionColliderIds) => void> = [];
 
   /** Collision end callbacks | 碰撞结束回调 */
-  public onCollisionEnd: Array<(other: unknown) => void> = [];
+  public onCollisionEnd: Array<(other: unknown, ids: CollisionColliderIds) => void> = [];
 
   /** Sensor begin callbacks | 传感器开始回调 */
-  public onSensorBegin: Array<(other: unknown) => void> = [];
+  public onSensorBegin: Array<(other: unknown, ids: CollisionColliderIds) => void> = [];
 
   /** Sensor end callbacks | 传感器结束回调 */
-  public onSensorEnd: Array<(other: unknown) => void> = [];
+  public onSensorEnd: Array<(other: unknown, ids: CollisionColliderIds) => void> = [];
 
   /**
    * Add collision begin callback
    * 添加碰撞开始回调
    */
-  addCollisionBeginCallback(callback: (other: unknown) => void): void {
+  addCollisionBeginCallback(callback: (other: unknown, ids: CollisionColliderIds) => void): void {
     this.onCollisionBegin.push(callback);
   }
 
@@ -321,7 +700,7 @@ export class CollisionEventComponent extends Component {
    * Add collision end callback
    * 添加碰撞结束回调
    */
-  addCollisionEndCallback(callback: (other: unknown) => void): void {
+  addCollisionEndCallback(callback: (other: unknown, ids: CollisionColliderIds) => void): void {
     this.onCollisionEnd.push(callback);
   }
 
@@ -329,7 +708,7 @@ export class CollisionEventComponent extends Component {
    * Add sensor begin callback
    * 添加传感器开始回调
    */
-  addSensorBeginCallback(callback: (other: unknown) => void): void {
+  addSensorBeginCallback(callback: (other: unknown, ids: CollisionColliderIds) => void): void {
     this.onSensorBegin.push(callback);
   }
 
@@ -337,7 +716,26 @@ export class CollisionEventComponent extends Component {
    * Add sensor end callback
    * 添加传感器结束回调
    */
-  addSensorEndCallback(callback: (other: unknown) => void): void {
+  addSensorEndCallback(callback: (other: unknown, ids: CollisionColliderIds) => void): void {
     this.onSensorEnd.push(callback);
   }
 }
+
+/** Id of the physics world used when an entity has no PhysicsWorldIdComponent | 实体没有 PhysicsWorldIdComponent 时使用的物理世界ID */
+export const DEFAULT_PHYSICS_WORLD_ID = 'default';
+
+/**
+ * Selects the physics world an entity's body, colliders and joints are created in.
+ * Add it before the physics components; changing it later does not move existing bodies.
+ * 选择实体的刚体、碰撞器和关节所在的物理世界。
+ * 需在物理组件之前添加；之后修改不会移动已有的刚体。
+ */
+export class PhysicsWorldIdComponent extends Component {
+  /** Id of the physics world | 物理世界ID */
+  public worldId: string;
+
+  constructor(worldId: string = DEFAULT_PHYSICS_WORLD_ID) {
+    super();
+    this.worldId = worldId;
+  }
+}
@@ -1,6 +1,13 @@
 import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
-import { IRigidBody, ICollider, IJoint } from '../interfaces/IPhysicsEngine';
-import { ContactPoint } from '../types/PhysicsTypes';
+import { IPhysicsWorld, IRigidBody, ICollider, IJoint } from '../interfaces/IPhysicsEngine';
+import { ContactPoint, ColliderConfig, ColliderType } from '../types/PhysicsTypes';
+import {
+  computeColliderAABB,
+  computeColliderWorldVertices,
+  computeRoundedOutline
+} from '../geometry/ColliderGeometry';
+import { computeCapsuleCenters } from '../geometry/CapsuleGeometry';
+import { makeTransform, transformPoint, normalizeSafe } from '../engine/FixedMath';
 import {
   IPhysicsDebugRenderer,
   PhysicsDebugDrawConfig,
@@ -71,6 +78,26 @@ export abstract class BasePhysicsDebugRenderer implements IPhysicsDebugRenderer
 
   // High-level drawing methods | 高级绘制方法
 
+  /**
+   * Draw everything in a physics world
+   * 绘制物理世界中的所有内容
+   */
+  drawWorld(world: IPhysicsWorld): void {
+    if (!this.enabled) return;
+
+    this.drawRigidBodies(Array.from(world.getBodies()));
+    this.drawColliders(Array.from(world.getColliders()));
+    this.drawJoints(Array.from(world.getJoints()));
+
+    if (this.config.drawContactPoints) {
+      const points: ContactPoint[] = [];
+      for (const contact of world.getContacts()) {
+        points.push(...contact.points);
+      }
+      this.drawContactPoints(points);
+    }
+  }
+
   drawRigidBodies(bodies: IRigidBody[]): void {
     if (!this.enabled || !this.config.drawBodies) return;
 
@@ -141,6 +168,68 @@ export abstract class BasePhysicsDebugRenderer implements IPhysicsDebugRenderer
     this.drawPoint(position, new Fixed(0.2), color);
   }
 
+  /**
+   * Draw the outline of a collider configuration for a body at the given position and rotation
+   * 绘制物体位于给定位置和旋转时碰撞器配置的轮廓
+   */
+  drawColliderShape(config: ColliderConfig, position: FixedVector2, rotation: Fixed, color: string): void {
+    if (!this.enabled) return;
+
+    if (config.type === ColliderType.Circle) {
+      const center = transformPoint(makeTransform(position, rotation), config.offset ?? new FixedVector2());
+      this.drawCircle(center, config.radius, color, false);
+    } else if (config.type === ColliderType.Capsule) {
+      this.drawCapsule(config.radius, computeCapsuleCenters(config), position, rotation, color);
+    } else {
+      const core = computeColliderWorldVertices(config, position, rotation);
+      const radius = config.type === ColliderType.Box || config.type === ColliderType.Polygon ? config.radius : undefined;
+      const vertices = radius ? computeRoundedOutline(core, radius) : core;
+      const closed = config.type === ColliderType.Chain
+        ? config.loop ?? false
+        : config.type === ColliderType.Box || config.type === ColliderType.Polygon;
+      if (closed && vertices.length >= 3) {
+        this.drawPolygon(vertices, color, false);
+      } else {
+        for (let i = 0; i < vertices.length - 1; i++) {
+          this.drawLine(vertices[i]!, vertices[i + 1]!, color);
+        }
+      }
+    }
+
+    if (this.config.drawAABBs) {
+      const { lowerBound, upperBound } = computeColliderAABB(config, position, rotation);
+      this.drawPolygon([
+        lowerBound,
+        new FixedVector2(upperBound.x, lowerBound.y),
+        upperBound,
+        new FixedVector2(lowerBound.x, upperBound.y)
+      ], this.colors.aabb, false);
+    }
+  }
+
+  /**
+   * Draw a capsule as its two end circles joined by the side lines
+   * 将胶囊绘制为两端的圆及连接它们的侧边
+   */
+  private drawCapsule(
+    radius: Fixed,
+    [local1, local2]: [FixedVector2, FixedVector2],
+    position: FixedVector2,
+    rotation: Fixed,
+    color: string
+  ): void {
+    const xf = makeTransform(position, rotation);
+    const center1 = transformPoint(xf, local1);
+    const center2 = transformPoint(xf, local2);
+    this.drawCircle(center1, radius, color, false);
+    this.drawCircle(center2, radius, color, false);
+
+    const direction = normalizeSafe(center2.subtract(center1));
+    const side = new FixedVector2(direction.y, direction.x.negate()).multiply(radius);
+    this.drawLine(center1.add(side), center2.add(side), color);
+    this.drawLine(center1.subtract(side), center2.subtract(side), color);
+  }
+
   drawJoints(joints: IJoint[]): void {
     if (!this.enabled || !this.config.drawJoints) return;
 
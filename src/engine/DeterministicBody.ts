@@ -0,0 +1,585 @@
+import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
+import { IRigidBody, ICollider, IJoint, PhysicsContact } from '../interfaces/IPhysicsEngine';
+import {
+  RigidBodyConfig,
+  RigidBodyType,
+  ColliderConfig,
+  ColliderType,
+  PhysicsMaterial,
+  CollisionFilter,
+  MassData
+} from '../types/PhysicsTypes';
+import { Shape, AABB, createShape, computeShapeMass, computeShapeAABB } from './DeterministicShapes';
+import {
+  Rotation,
+  Transform,
+  makeRotation,
+  rotate,
+  cross,
+  crossSV,
+  lengthSquared
+} from './FixedMath';
+import { BodySnapshot } from './DeterministicSnapshot';
+import type { DeterministicPhysicsWorld } from './DeterministicPhysicsWorld';
+
+/**
+ * Default collider material
+ * 默认碰撞器材质
+ */
+const DEFAULT_MATERIAL: PhysicsMaterial = {
+  friction: new Fixed(0.3),
+  restitution: new Fixed(0.1),
+  density: Fixed.ONE
+};
+
+/**
+ * Default collision filter
+ * 默认碰撞过滤器
+ */
+const DEFAULT_FILTER: CollisionFilter = {
+  categoryBits: 0x0001,
+  maskBits: 0xFFFF,
+  groupIndex: 0
+};
+
+/**
+ * Copy a vector so callers never alias engine state
+ * 复制向量，避免调用者引用引擎内部状态
+ */
+function copy(v: FixedVector2): FixedVector2 {
+  return new FixedVector2(v.x, v.y);
+}
+
+/**
+ * Rigid body of the deterministic engine
+ * 确定性引擎的刚体
+ */
+export class DeterministicRigidBody implements IRigidBody {
+  /** Stable body id (creation order) | 稳定的物体ID（创建顺序） */
+  public readonly id: number;
+
+  /** Owning world | 所属世界 */
+  public readonly world: DeterministicPhysicsWorld;
+
+  /** Body type | 物体类型 */
+  public type: RigidBodyType;
+
+  /** Body origin | 物体原点 */
+  public position: FixedVector2;
+
+  /** Rotation angle in radians | 旋转角度（弧度） */
+  public angle: Fixed;
+
+  /** Cached rotation of `angle` | `angle` 的缓存旋转 */
+  public rotation: Rotation;
+
+  /** Center of mass in local space | 本地空间中的质心 */
+  public localCenter: FixedVector2 = new FixedVector2();
+
+  /** Center of mass in world space | 世界空间中的质心 */
+  public worldCenter: FixedVector2;
+
+  /** Linear velocity of the center of mass | 质心线速度 */
+  public linearVelocity: FixedVector2;
+
+  /** Angular velocity | 角速度 */
+  public angularVelocity: Fixed;
+
+  /** Accumulated force | 累积力 */
+  public force: FixedVector2 = new FixedVector2();
+
+  /** Accumulated torque | 累积扭矩 */
+  public torque: Fixed = Fixed.ZERO;
+
+  /** Mass | 质量 */
+  public mass: Fixed = Fixed.ZERO;
+
+  /** Inverse mass | 质量倒数 */
+  public invMass: Fixed = Fixed.ZERO;
+
+  /** Rotational inertia about the center of mass | 关于质心的转动惯量 */
+  public inertia: Fixed = Fixed.ZERO;
+
+  /** Inverse rotational inertia | 转动惯量倒数 */
+  public invInertia: Fixed = Fixed.ZERO;
+
+  /** Linear damping | 线性阻尼 */
+  public linearDamping: Fixed;
+
+  /** Angular damping | 角阻尼 */
+  public angularDamping: Fixed;
+
+  /** Gravity scale | 重力缩放 */
+  public gravityScale: Fixed;
+
+  /** Whether the body can sleep | 物体是否可以休眠 */
+  public allowSleep: boolean;
+
+  /** Whether the body has fixed rotation | 物体是否固定旋转 */
+  public fixedRotation: boolean;
+
+  /** Whether the body is a bullet | 物体是否为子弹 */
+  public bullet: boolean;
+
+  /** Time the body has been resting | 物体已静止的时间 */
+  public sleepTime: Fixed = Fixed.ZERO;
+
+  /** Attached colliders | 附加的碰撞器 */
+  public readonly colliders: DeterministicCollider[] = [];
+
+  private awake: boolean;
+  private active: boolean = true;
+  private userData: unknown;
+
+  constructor(world: DeterministicPhysicsWorld, id: number, config: RigidBodyConfig) {
+    this.world = world;
+    this.id = id;
+    this.type = config.type;
+    this.position = copy(config.position);
+    this.angle = config.rotation ?? Fixed.ZERO;
+    this.rotation = makeRotation(this.angle);
+    this.worldCenter = copy(this.position);
+    this.linearVelocity = config.linearVelocity ? copy(config.linearVelocity) : new FixedVector2();
+    this.angularVelocity = config.angularVelocity ?? Fixed.ZERO;
+    this.linearDamping = config.linearDamping ?? Fixed.ZERO;
+    this.angularDamping = config.angularDamping ?? Fixed.ZERO;
+    this.gravityScale = config.gravityScale ?? Fixed.ONE;
+    this.allowSleep = config.allowSleep ?? true;
+    this.awake = config.awake ?? true;
+    this.fixedRotation = config.fixedRotation ?? false;
+    this.bullet = config.bullet ?? false;
+    this.userData = config.userData;
+
+    if (this.type === RigidBodyType.Static) {
+      this.linearVelocity = new FixedVector2();
+      this.angularVelocity = Fixed.ZERO;
+    }
+    this.resetMassData();
+  }
+
+  /**
+   * Get the body transform
+   * 获取物体变换
+   */
+  getTransform(): Transform {
+    return { p: this.position, q: this.rotation };
+  }
+
+  /**
+   * Whether the body is dynamic
+   * 物体是否为动态
+   */
+  isDynamic(): boolean {
+    return this.type === RigidBodyType.Dynamic;
+  }
+
+  /**
+   * Recompute the origin from the center of mass after integration
+   * 积分后从质心重新计算原点
+   */
+  synchronizeTransform(): void {
+    this.rotation = makeRotation(this.angle);
+    this.position = this.worldCenter.subtract(rotate(this.rotation, this.localCenter));
+  }
+
+  /**
+   * Capture the simulation state of the body
+   * 捕获物体的模拟状态
+   */
+  saveSnapshot(): BodySnapshot {
+    return {
+      id: this.id,
+      position: this.position,
+      angle: this.angle,
+      worldCenter: this.worldCenter,
+      localCenter: this.localCenter,
+      linearVelocity: this.linearVelocity,
+      angularVelocity: this.angularVelocity,
+      force: this.force,
+      torque: this.torque,
+      mass: this.mass,
+      invMass: this.invMass,
+      inertia: this.inertia,
+      invInertia: this.invInertia,
+      sleepTime: this.sleepTime,
+      awake: this.awake,
+      active: this.active
+    };
+  }
+
+  /**
+   * Overwrite the simulation state without waking the body or touching contacts
+   * 覆盖模拟状态，不唤醒物体也不影响接触
+   */
+  restoreSnapshot(snapshot: BodySnapshot): void {
+    this.position = copy(snapshot.position);
+    this.angle = snapshot.angle;
+    this.rotation = makeRotation(snapshot.angle);
+    this.worldCenter = copy(snapshot.worldCenter);
+    this.localCenter = copy(snapshot.localCenter);
+    this.linearVelocity = copy(snapshot.linearVelocity);
+    this.angularVelocity = snapshot.angularVelocity;
+    this.force = copy(snapshot.force);
+    this.torque = snapshot.torque;
+    this.mass = snapshot.mass;
+    this.invMass = snapshot.invMass;
+    this.inertia = snapshot.inertia;
+    this.invInertia = snapshot.invInertia;
+    this.sleepTime = snapshot.sleepTime;
+    this.awake = snapshot.awake;
+    this.active = snapshot.active;
+  }
+
+  /**
+   * Recompute mass, center of mass and inertia from attached colliders
+   * 根据附加的碰撞器重新计算质量、质心和转动惯量
+   */
+  resetMassData(): void {
+    this.mass = Fixed.ZERO;
+    this.invMass = Fixed.ZERO;
+    this.inertia = Fixed.ZERO;
+    this.invInertia = Fixed.ZERO;
+    this.localCenter = new FixedVector2();
+
+    if (this.type !== RigidBodyType.Dynamic) {
+      this.worldCenter = copy(this.position);
+      return;
+    }
+
+    let center = new FixedVector2();
+    let inertia = Fixed.ZERO;
+    for (const collider of this.colliders) {
+      const massData = computeShapeMass(collider.shape, collider.getMaterial().density);
+      this.mass = this.mass.add(massData.mass);
+      center = center.add(massData.center.multiply(massData.mass));
+      inertia = inertia.add(massData.inertia);
+    }
+
+    if (this.mass.greaterThan(Fixed.ZERO)) {
+      this.localCenter = center.divide(this.mass);
+    } else {
+      // Dynamic bodies always need positive mass
+      // 动态物体始终需要正质量
+      this.mass = Fixed.ONE;
+    }
+    this.invMass = Fixed.ONE.divide(this.mass);
+
+    // Shift inertia to the center of mass
+    // 将转动惯量移动到质心
+    inertia = inertia.subtract(this.mass.multiply(lengthSquared(this.localCenter)));
+    if (inertia.greaterThan(Fixed.ZERO) && !this.fixedRotation) {
+      this.inertia = inertia;
+      this.invInertia = Fixed.ONE.divide(inertia);
+    }
+
+    this.updateWorldCenter();
+  }
+
+  /**
+   * Move the world center to the current local center, keeping the velocity of the moved center consistent
+   * 将世界质心移动到当前本地质心，并保持移动后质心的速度一致
+   */
+  private updateWorldCenter(): void {
+    const oldCenter = this.worldCenter;
+    this.worldCenter = this.position.add(rotate(this.rotation, this.localCenter));
+    this.linearVelocity = this.linearVelocity.add(
+      crossSV(this.angularVelocity, this.worldCenter.subtract(oldCenter))
+    );
+  }
+
+  getPosition(): FixedVector2 {
+    return copy(this.position);
+  }
+
+  setPosition(position: FixedVector2): void {
+    this.position = copy(position);
+    this.worldCenter = this.position.add(rotate(this.rotation, this.localCenter));
+    this.setAwake(true);
+  }
+
+  getRotation(): Fixed {
+    return this.angle;
+  }
+
+  setRotation(rotation: Fixed): void {
+    this.angle = rotation;
+    this.rotation = makeRotation(rotation);
+    this.worldCenter = this.position.add(rotate(this.rotation, this.localCenter));
+    this.setAwake(true);
+  }
+
+  getLinearVelocity(): FixedVector2 {
+    return copy(this.linearVelocity);
+  }
+
+  setLinearVelocity(velocity: FixedVector2): void {
+    if (this.type === RigidBodyType.Static) return;
+    if (lengthSquared(velocity).greaterThan(Fixed.ZERO)) {
+      this.setAwake(true);
+    }
+    this.linearVelocity = copy(velocity);
+  }
+
+  getAngularVelocity(): Fixed {
+    return this.angularVelocity;
+  }
+
+  setAngularVelocity(velocity: Fixed): void {
+    if (this.type === RigidBodyType.Static) return;
+    if (!velocity.equals(Fixed.ZERO)) {
+      this.setAwake(true);
+    }
+    this.angularVelocity = velocity;
+  }
+
+  applyForce(force: FixedVector2): void {
+    if (!this.isDynamic()) return;
+    this.setAwake(true);
+    this.force = this.force.add(force);
+  }
+
+  applyForceAtPoint(force: FixedVector2, point: FixedVector2): void {
+    if (!this.isDynamic()) return;
+    this.setAwake(true);
+    this.force = this.force.add(force);
+    this.torque = this.torque.add(cross(point.subtract(this.worldCenter), force));
+  }
+
+  applyImpulse(impulse: FixedVector2): void {
+    if (!this.isDynamic()) return;
+    this.setAwake(true);
+    this.linearVelocity = this.linearVelocity.add(impulse.multiply(this.invMass));
+  }
+
+  applyImpulseAtPoint(impulse: FixedVector2, point: FixedVector2): void {
+    if (!this.isDynamic()) return;
+    this.setAwake(true);
+    this.linearVelocity = this.linearVelocity.add(impulse.multiply(this.invMass));
+    this.angularVelocity = this.angularVelocity.add(
+      this.invInertia.multiply(cross(point.subtract(this.worldCenter), impulse))
+    );
+  }
+
+  applyTorque(torque: Fixed): void {
+    if (!this.isDynamic()) return;
+    this.setAwake(true);
+    this.torque = this.torque.add(torque);
+  }
+
+  getMass(): Fixed {
+    return this.mass;
+  }
+
+  /**
+   * Override the mass, scaling rotational inertia proportionally.
+   * Adding or removing colliders recomputes mass from density again.
+   * 覆盖质量，并按比例缩放转动惯量。添加或移除碰撞器会重新根据密度计算质量。
+   */
+  setMass(mass: Fixed): void {
+    if (!this.isDynamic() || mass.lessThanOrEqual(Fixed.ZERO)) return;
+
+    const ratio = mass.divide(this.mass);
+    this.mass = mass;
+    this.invMass = Fixed.ONE.divide(mass);
+    if (this.inertia.greaterThan(Fixed.ZERO)) {
+      this.inertia = this.inertia.multiply(ratio);
+      this.invInertia = Fixed.ONE.divide(this.inertia);
+    }
+  }
+
+  getMassData(): MassData {
+    return { mass: this.mass, center: copy(this.localCenter), inertia: this.inertia };
+  }
+
+  /**
+   * Override mass, local center of mass and inertia about that center.
+   * Non-positive mass falls back to 1; adding or removing colliders recomputes mass data again.
+   * 覆盖质量、本地质心和关于该质心的转动惯量。
+   * 非正质量回退为1；添加或移除碰撞器会重新计算质量数据。
+   */
+  setMassData(massData: MassData): void {
+    if (!this.isDynamic()) return;
+
+    this.mass = massData.mass.greaterThan(Fixed.ZERO) ? massData.mass : Fixed.ONE;
+    this.invMass = Fixed.ONE.divide(this.mass);
+
+    if (massData.inertia.greaterThan(Fixed.ZERO) && !this.fixedRotation) {
+      this.inertia = massData.inertia;
+      this.invInertia = Fixed.ONE.divide(massData.inertia);
+    } else {
+      this.inertia = Fixed.ZERO;
+      this.invInertia = Fixed.ZERO;
+    }
+
+    this.localCenter = copy(massData.center);
+    this.updateWorldCenter();
+  }
+
+  isAwake(): boolean {
+    return this.awake;
+  }
+
+  setAwake(awake: boolean): void {
+    if (this.type === RigidBodyType.Static) return;
+    this.sleepTime = Fixed.ZERO;
+    this.awake = awake;
+    if (!awake) {
+      this.linearVelocity = new FixedVector2();
+      this.angularVelocity = Fixed.ZERO;
+      this.force = new FixedVector2();
+      this.torque = Fixed.ZERO;
+    }
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  setActive(active: boolean): void {
+    if (this.active === active) return;
+    this.active = active;
+    if (!active) {
+      this.world.destroyContactsOf(this);
+    }
+  }
+
+  getUserData(): unknown {
+    return this.userData;
+  }
+
+  setUserData(data: unknown): void {
+    this.userData = data;
+  }
+
+  getColliders(): DeterministicCollider[] {
+    return this.colliders.slice();
+  }
+
+  getJoints(): IJoint[] {
+    return Array.from(this.world.getJoints())
+      .filter(joint => joint.getBodyA() === this || joint.getBodyB() === this);
+  }
+
+  getContacts(): PhysicsContact[] {
+    return Array.from(this.world.getContacts())
+      .filter(contact => contact.bodyA === this || contact.bodyB === this);
+  }
+
+  destroy(): void {
+    this.world.destroyBody(this);
+  }
+}
+
+/**
+ * Collider of the deterministic engine
+ * 确定性引擎的碰撞器
+ */
+export class DeterministicCollider implements ICollider {
+  /** Stable collider id (creation order) | 稳定的碰撞器ID（创建顺序） */
+  public readonly id: number;
+
+  /** Source configuration, replaced when heightfield samples change | 源配置，高度场采样改变时会被替换 */
+  public config: ColliderConfig;
+
+  /** Internal shape | 内部形状 */
+  public shape: Shape;
+
+  /** Cached world AABB | 缓存的世界AABB */
+  public aabb: AABB;
+
+  private readonly body: DeterministicRigidBody;
+  private material: PhysicsMaterial;
+  private filter: CollisionFilter;
+  private sensor: boolean = false;
+  private userData: unknown = null;
+
+  constructor(body: DeterministicRigidBody, id: number, config: ColliderConfig, material?: PhysicsMaterial) {
+    this.body = body;
+    this.id = id;
+    this.config = config;
+    this.shape = createShape(config);
+    this.material = { ...(material ?? DEFAULT_MATERIAL) };
+    this.filter = { ...DEFAULT_FILTER };
+    this.aabb = computeShapeAABB(this.shape, body.getTransform());
+  }
+
+  /**
+   * Refresh the cached AABB from the body transform
+   * 根据物体变换刷新缓存的AABB
+   */
+  updateAABB(): void {
+    this.aabb = computeShapeAABB(this.shape, this.body.getTransform());
+  }
+
+  getBody(): DeterministicRigidBody {
+    return this.body;
+  }
+
+  setMaterial(material: PhysicsMaterial): void {
+    const densityChanged = !material.density.equals(this.material.density);
+    const speedChanged = !(material.tangentSpeed ?? Fixed.ZERO).equals(this.material.tangentSpeed ?? Fixed.ZERO);
+    this.material = { ...material };
+    if (densityChanged) {
+      this.body.resetMassData();
+    }
+    if (speedChanged) {
+      // Bodies resting on a belt that starts moving must wake up
+      // 停在刚启动的传送带上的物体必须被唤醒
+      this.body.world.refilter(this);
+    }
+  }
+
+  getMaterial(): PhysicsMaterial {
+    return { ...this.material };
+  }
+
+  setFilter(filter: CollisionFilter): void {
+    this.filter = { ...filter };
+    this.body.world.refilter(this);
+  }
+
+  getFilter(): CollisionFilter {
+    return { ...this.filter };
+  }
+
+  setSensor(isSensor: boolean): void {
+    if (this.sensor === isSensor) return;
+    this.sensor = isSensor;
+    this.body.world.refilter(this);
+  }
+
+  isSensor(): boolean {
+    return this.sensor;
+  }
+
+  getUserData(): unknown {
+    return this.userData;
+  }
+
+  setUserData(data: unknown): void {
+    this.userData = data;
+  }
+
+  setHeights(start: number, heights: Fixed[]): void {
+    if (this.config.type !== ColliderType.Heightfield) {
+      throw new Error(`setHeights requires a heightfield collider, got '${this.config.type}'`);
+    }
+    const end = start + heights.length;
+    if (!Number.isInteger(start) || start < 0 || end > this.config.heights.length) {
+      throw new Error(`Samples ${start}..${end} are outside the heightfield's ${this.config.heights.length} samples`);
+    }
+
+    const updated = this.config.heights.slice();
+    updated.splice(start, heights.length, ...heights);
+    this.config = { ...this.config, heights: updated };
+    this.shape = createShape(this.config);
+    this.updateAABB();
+    // Bodies resting on the old surface must wake up to follow the new one
+    // 停在旧表面上的物体必须被唤醒以贴合新表面
+    this.body.world.refilter(this);
+  }
+
+  destroy(): void {
+    this.body.world.destroyCollider(this);
+  }
+}
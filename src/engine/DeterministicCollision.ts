@@ -0,0 +1,445 @@
+import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
+import { ChainShape, CircleShape, PolygonShape, Shape, computeShapeAABB, aabbOverlaps } from './DeterministicShapes';
+import {
+  Transform,
+  FIXED_HALF,
+  transformPoint,
+  rotate,
+  inverseRotate,
+  inverseTransformPoint,
+  negate,
+  dot,
+  length,
+  normalizeSafe,
+  vectorMin,
+  vectorMax
+} from './FixedMath';
+
+/**
+ * Contact point produced by the narrow phase (world space)
+ * 窄相位生成的接触点（世界空间）
+ */
+export interface ManifoldPoint {
+  /** Contact point midway between the two surfaces | 两个表面之间的中点 */
+  point: FixedVector2;
+  /** Signed separation (negative when penetrating) | 有符号分离距离（穿透时为负） */
+  separation: Fixed;
+  /** Feature key used to match points between steps | 用于在步骤之间匹配点的特征键 */
+  id: number;
+}
+
+/**
+ * Contact manifold with a normal pointing from shape A to shape B
+ * 法线从形状A指向形状B的接触流形
+ */
+export interface Manifold {
+  /** Contact normal | 接触法线 */
+  normal: FixedVector2;
+  /** Contact points | 接触点 */
+  points: ManifoldPoint[];
+}
+
+/**
+ * Polygon transformed into world space
+ * 变换到世界空间的多边形
+ */
+interface WorldPolygon {
+  vertices: FixedVector2[];
+  normals: FixedVector2[];
+}
+
+/**
+ * Clip vertex used during polygon clipping
+ * 多边形裁剪时使用的裁剪顶点
+ */
+interface ClipVertex {
+  v: FixedVector2;
+  id: number;
+}
+
+/** Separation tolerance used to prefer polygon A as reference | 偏好多边形A作为参考的分离容差 */
+const REFERENCE_TOLERANCE = new Fixed(0.0005);
+
+/** Clip id offset for points created by side-plane clipping | 侧面裁剪生成点的ID偏移 */
+const CLIPPED_FEATURE = 128;
+
+/** Bit position of the chain segment index in point ids | 点ID中链条线段索引的位偏移 */
+const SEGMENT_ID_SHIFT = 17;
+
+/** Normals closer than this (1 - cosine) count as the same direction | 差值（1 - 余弦）小于此值的法线视为同一方向 */
+const NORMAL_TOLERANCE = new Fixed(0.0005);
+
+/**
+ * Compute the contact manifold between two shapes
+ * 计算两个形状之间的接触流形
+ *
+ * Points with separation up to `margin` are kept so resting contacts stay persistent.
+ * 保留分离距离不超过 `margin` 的点，使静止接触保持稳定。
+ */
+export function collideShapes(
+  shapeA: Shape,
+  xfA: Transform,
+  shapeB: Shape,
+  xfB: Transform,
+  margin: Fixed
+): Manifold | null {
+  if (shapeA.kind === 'chain' || shapeB.kind === 'chain') {
+    if (shapeA.kind === 'chain' && shapeB.kind === 'chain') return null;
+    if (shapeA.kind === 'chain') {
+      return collideChain(shapeA, xfA, shapeB as CircleShape | PolygonShape, xfB, margin);
+    }
+    const manifold = collideChain(shapeB as ChainShape, xfB, shapeA, xfA, margin);
+    if (manifold) {
+      manifold.normal = negate(manifold.normal);
+    }
+    return manifold;
+  }
+  if (shapeA.kind === 'circle' && shapeB.kind === 'circle') {
+    return collideCircles(shapeA, xfA, shapeB, xfB, margin);
+  }
+  if (shapeA.kind === 'polygon' && shapeB.kind === 'circle') {
+    return collidePolygonAndCircle(shapeA, xfA, shapeB, xfB, margin);
+  }
+  if (shapeA.kind === 'circle' && shapeB.kind === 'polygon') {
+    const manifold = collidePolygonAndCircle(shapeB, xfB, shapeA, xfA, margin);
+    if (manifold) {
+      manifold.normal = negate(manifold.normal);
+    }
+    return manifold;
+  }
+  return collidePolygons(shapeA as PolygonShape, xfA, shapeB as PolygonShape, xfB, margin);
+}
+
+/**
+ * Circle versus circle
+ * 圆与圆
+ */
+function collideCircles(
+  circleA: CircleShape,
+  xfA: Transform,
+  circleB: CircleShape,
+  xfB: Transform,
+  margin: Fixed
+): Manifold | null {
+  const pA = transformPoint(xfA, circleA.center);
+  const pB = transformPoint(xfB, circleB.center);
+  const d = pB.subtract(pA);
+  const distance = length(d);
+  const radius = circleA.radius.add(circleB.radius);
+  const separation = distance.subtract(radius);
+
+  if (separation.greaterThan(margin)) return null;
+
+  const normal = distance.equals(Fixed.ZERO) ? new FixedVector2(0, 1) : d.divide(distance);
+  const surfaceA = pA.add(normal.multiply(circleA.radius));
+  const surfaceB = pB.subtract(normal.multiply(circleB.radius));
+
+  return {
+    normal,
+    points: [{ point: surfaceA.add(surfaceB).multiply(FIXED_HALF), separation, id: 0 }]
+  };
+}
+
+/**
+ * Polygon versus circle (normal points from the polygon to the circle). A rounded polygon
+ * adds its radius to the circle's, measured from its sharp core.
+ * 多边形与圆（法线从多边形指向圆）。圆角多边形从其尖角核心量起，将自身半径加到圆的半径上。
+ */
+function collidePolygonAndCircle(
+  polygon: PolygonShape,
+  xfA: Transform,
+  circle: CircleShape,
+  xfB: Transform,
+  margin: Fixed
+): Manifold | null {
+  const c = inverseTransformPoint(xfA, transformPoint(xfB, circle.center));
+  const count = polygon.vertices.length;
+  const radius = polygon.radius.add(circle.radius);
+  const limit = radius.add(margin);
+
+  // Find the edge with maximum separation
+  // 查找分离距离最大的边
+  let normalIndex = 0;
+  let maxSeparation: Fixed | null = null;
+  for (let i = 0; i < count; i++) {
+    const s = dot(polygon.normals[i]!, c.subtract(polygon.vertices[i]!));
+    if (s.greaterThan(limit)) return null;
+    if (maxSeparation === null || s.greaterThan(maxSeparation)) {
+      maxSeparation = s;
+      normalIndex = i;
+    }
+  }
+
+  const v1 = polygon.vertices[normalIndex]!;
+  const v2 = polygon.vertices[(normalIndex + 1) % count]!;
+  let localNormal = polygon.normals[normalIndex]!;
+  let polygonPoint: FixedVector2;
+  let separation: Fixed;
+
+  // A segment has no inside: a center on its line may still lie beyond an end
+  // 线段没有内部：位于其所在直线上的圆心仍可能在端点之外
+  const faceSeparation = maxSeparation ?? Fixed.ZERO;
+  if (faceSeparation.lessThan(Fixed.ZERO) || (faceSeparation.equals(Fixed.ZERO) && count > 2)) {
+    // Center is inside the polygon
+    // 圆心在多边形内部
+    polygonPoint = c.subtract(localNormal.multiply(faceSeparation));
+    separation = faceSeparation.subtract(radius);
+  } else if (dot(c.subtract(v1), v2.subtract(v1)).lessThanOrEqual(Fixed.ZERO)) {
+    const distance = length(c.subtract(v1));
+    if (distance.greaterThan(limit)) return null;
+    localNormal = normalizeSafe(c.subtract(v1));
+    polygonPoint = v1;
+    separation = distance.subtract(radius);
+  } else if (dot(c.subtract(v2), v1.subtract(v2)).lessThanOrEqual(Fixed.ZERO)) {
+    const distance = length(c.subtract(v2));
+    if (distance.greaterThan(limit)) return null;
+    localNormal = normalizeSafe(c.subtract(v2));
+    polygonPoint = v2;
+    separation = distance.subtract(radius);
+  } else {
+    polygonPoint = c.subtract(localNormal.multiply(faceSeparation));
+    separation = faceSeparation.subtract(radius);
+  }
+
+  const surfacePoint = polygonPoint.add(localNormal.multiply(polygon.radius));
+  const circlePoint = c.subtract(localNormal.multiply(circle.radius));
+  const midpoint = surfacePoint.add(circlePoint).multiply(FIXED_HALF);
+
+  return {
+    normal: rotate(xfA.q, localNormal),
+    points: [{ point: transformPoint(xfA, midpoint), separation, id: 0 }]
+  };
+}
+
+/**
+ * Transform a polygon into world space
+ * 将多边形变换到世界空间
+ */
+function toWorldPolygon(polygon: PolygonShape, xf: Transform): WorldPolygon {
+  return {
+    vertices: polygon.vertices.map(v => transformPoint(xf, v)),
+    normals: polygon.normals.map(n => rotate(xf.q, n))
+  };
+}
+
+/**
+ * Find the edge of polygon 1 with the largest separation from polygon 2
+ * 查找多边形1中与多边形2分离距离最大的边
+ */
+function findMaxSeparation(poly1: WorldPolygon, poly2: WorldPolygon): { edge: number; separation: Fixed } {
+  let bestEdge = 0;
+  let bestSeparation: Fixed | null = null;
+
+  for (let i = 0; i < poly1.vertices.length; i++) {
+    const n = poly1.normals[i]!;
+    const v1 = poly1.vertices[i]!;
+    let minDistance: Fixed | null = null;
+    for (const v2 of poly2.vertices) {
+      const d = dot(n, v2.subtract(v1));
+      if (minDistance === null || d.lessThan(minDistance)) {
+        minDistance = d;
+      }
+    }
+    const separation = minDistance ?? Fixed.ZERO;
+    if (bestSeparation === null || separation.greaterThan(bestSeparation)) {
+      bestSeparation = separation;
+      bestEdge = i;
+    }
+  }
+
+  return { edge: bestEdge, separation: bestSeparation ?? Fixed.ZERO };
+}
+
+/**
+ * Clip a segment against a half-plane
+ * 用半平面裁剪线段
+ */
+function clipSegmentToLine(
+  input: ClipVertex[],
+  normal: FixedVector2,
+  offset: Fixed,
+  clipId: number
+): ClipVertex[] {
+  const output: ClipVertex[] = [];
+  const v0 = input[0]!;
+  const v1 = input[1]!;
+  const d0 = dot(normal, v0.v).subtract(offset);
+  const d1 = dot(normal, v1.v).subtract(offset);
+
+  if (d0.lessThanOrEqual(Fixed.ZERO)) output.push(v0);
+  if (d1.lessThanOrEqual(Fixed.ZERO)) output.push(v1);
+
+  const opposite =
+    (d0.lessThan(Fixed.ZERO) && d1.greaterThan(Fixed.ZERO)) ||
+    (d0.greaterThan(Fixed.ZERO) && d1.lessThan(Fixed.ZERO));
+  if (opposite) {
+    const t = d0.divide(d0.subtract(d1));
+    output.push({ v: v0.v.add(v1.v.subtract(v0.v).multiply(t)), id: CLIPPED_FEATURE + clipId });
+  }
+
+  return output;
+}
+
+/**
+ * Polygon versus polygon using SAT and reference-face clipping. Rounding radii are subtracted
+ * from the separation between the sharp cores.
+ * 使用分离轴定理和参考面裁剪的多边形与多边形碰撞。圆角半径从尖角核心之间的分离距离中减去。
+ */
+function collidePolygons(
+  polygonA: PolygonShape,
+  xfA: Transform,
+  polygonB: PolygonShape,
+  xfB: Transform,
+  margin: Fixed
+): Manifold | null {
+  const polyA = toWorldPolygon(polygonA, xfA);
+  const polyB = toWorldPolygon(polygonB, xfB);
+  const limit = polygonA.radius.add(polygonB.radius).add(margin);
+
+  const resultA = findMaxSeparation(polyA, polyB);
+  if (resultA.separation.greaterThan(limit)) return null;
+
+  const resultB = findMaxSeparation(polyB, polyA);
+  if (resultB.separation.greaterThan(limit)) return null;
+
+  const flip = resultB.separation.greaterThan(resultA.separation.add(REFERENCE_TOLERANCE));
+  const reference = flip ? polyB : polyA;
+  const incident = flip ? polyA : polyB;
+  const edge = flip ? resultB.edge : resultA.edge;
+  const count = reference.vertices.length;
+  const referenceRadius = flip ? polygonB.radius : polygonA.radius;
+  const incidentRadius = flip ? polygonA.radius : polygonB.radius;
+
+  // Incident edge is the one most anti-parallel to the reference normal
+  // 入射边是与参考法线最反向平行的边
+  const referenceNormal = reference.normals[edge]!;
+  let incidentEdge = 0;
+  let minDot: Fixed | null = null;
+  for (let i = 0; i < incident.normals.length; i++) {
+    const d = dot(referenceNormal, incident.normals[i]!);
+    if (minDot === null || d.lessThan(minDot)) {
+      minDot = d;
+      incidentEdge = i;
+    }
+  }
+  const i2 = (incidentEdge + 1) % incident.vertices.length;
+  const incidentVertices: ClipVertex[] = [
+    { v: incident.vertices[incidentEdge]!, id: incidentEdge },
+    { v: incident.vertices[i2]!, id: i2 }
+  ];
+
+  const v11 = reference.vertices[edge]!;
+  const v12 = reference.vertices[(edge + 1) % count]!;
+  const tangent = normalizeSafe(v12.subtract(v11));
+  const normal = new FixedVector2(tangent.y, tangent.x.negate());
+  const frontOffset = dot(normal, v11);
+  const sideOffset1 = dot(tangent, v11).negate();
+  const sideOffset2 = dot(tangent, v12);
+
+  const clip1 = clipSegmentToLine(incidentVertices, negate(tangent), sideOffset1, 0);
+  if (clip1.length < 2) return null;
+  const clip2 = clipSegmentToLine(clip1, tangent, sideOffset2, 1);
+  if (clip2.length < 2) return null;
+
+  const points: ManifoldPoint[] = [];
+  for (const cv of clip2) {
+    const coreSeparation = dot(normal, cv.v).subtract(frontOffset);
+    const separation = coreSeparation.subtract(referenceRadius).subtract(incidentRadius);
+    if (separation.lessThanOrEqual(margin)) {
+      // Midway between the rounded reference surface and the rounded incident surface
+      // 位于圆角参考面与圆角入射面之间的中点
+      const offset = coreSeparation.subtract(referenceRadius).add(incidentRadius).multiply(FIXED_HALF);
+      points.push({
+        point: cv.v.subtract(normal.multiply(offset)),
+        separation,
+        id: (flip ? 1 : 0) | (edge << 1) | (cv.id << 9)
+      });
+    }
+  }
+
+  if (points.length === 0) return null;
+  return { normal: flip ? negate(normal) : normal, points };
+}
+
+/**
+ * Chain versus a convex shape (normal points from the chain to the shape). Each nearby segment is
+ * collided on its own; contacts on a segment's end that the neighbouring segment should handle are
+ * dropped, so bodies slide over the joints of flat and concave runs without catching. The deepest
+ * remaining manifold wins, merged with the points of others that share its normal.
+ * 链条与凸形状（法线从链条指向形状）。每条相近的线段单独碰撞；位于线段端点、本应由相邻线段处理的接触会被丢弃，
+ * 使物体滑过平坦和内凹部分的连接处而不会卡住。剩余流形中最深的一个胜出，并合并法线相同的其他流形的点。
+ */
+function collideChain(
+  chain: ChainShape,
+  xfA: Transform,
+  shape: CircleShape | PolygonShape,
+  xfB: Transform,
+  margin: Fixed
+): Manifold | null {
+  const bounds = computeShapeAABB(shape, xfB);
+  const extent = new FixedVector2(margin, margin);
+  const count = chain.segments.length;
+  const accepted: Manifold[] = [];
+  let deepest: { manifold: Manifold; separation: Fixed } | null = null;
+
+  for (let i = 0; i < count; i++) {
+    const segment = chain.segments[i]!;
+    const v1 = transformPoint(xfA, segment.vertices[0]!);
+    const v2 = transformPoint(xfA, segment.vertices[1]!);
+    const segmentBounds = { lowerBound: vectorMin(v1, v2).subtract(extent), upperBound: vectorMax(v1, v2).add(extent) };
+    if (!aabbOverlaps(bounds, segmentBounds)) continue;
+
+    const manifold = shape.kind === 'circle'
+      ? collidePolygonAndCircle(segment, xfA, shape, xfB, margin)
+      : collidePolygons(segment, xfA, shape, xfB, margin);
+    if (!manifold || isGhostContact(chain, i, inverseRotate(xfA.q, manifold.normal))) continue;
+
+    let separation = manifold.points[0]!.separation;
+    for (const point of manifold.points) {
+      point.id = ((i << SEGMENT_ID_SHIFT) | point.id) >>> 0;
+      if (point.separation.lessThan(separation)) separation = point.separation;
+    }
+    accepted.push(manifold);
+    if (!deepest || separation.lessThan(deepest.separation)) {
+      deepest = { manifold, separation };
+    }
+  }
+
+  if (!deepest) return null;
+  const best = deepest.manifold;
+  const points = accepted.flatMap(manifold =>
+    manifold === best || dot(manifold.normal, best.normal).greaterThanOrEqual(Fixed.ONE.subtract(NORMAL_TOLERANCE))
+      ? manifold.points
+      : []
+  );
+  return { normal: best.normal, points };
+}
+
+/**
+ * Whether a contact on segment `index` with a chain-local normal comes from an end the segment
+ * shares with a neighbour that makes the normal impossible. Valid normals at a shared vertex lie
+ * between the face normals of the two segments, which is empty for flat and concave joints.
+ * 判断第 `index` 条线段上具有链条本地法线的接触是否来自与相邻线段共享、且该法线不可能出现的端点。
+ * 共享顶点处的有效法线位于两条线段的面法线之间，对于平坦和内凹的连接处该范围为空。
+ */
+function isGhostContact(chain: ChainShape, index: number, normal: FixedVector2): boolean {
+  const segment = chain.segments[index]!;
+  const count = chain.segments.length;
+  const face = segment.normals[0]!;
+  const side = dot(normal, face).lessThan(Fixed.ZERO) ? segment.normals[1]! : face;
+  if (dot(normal, side).greaterThanOrEqual(Fixed.ONE.subtract(NORMAL_TOLERANCE))) return false;
+
+  const edge = segment.vertices[1]!.subtract(segment.vertices[0]!);
+  const along = dot(normal, edge);
+  if (along.greaterThan(Fixed.ZERO)) {
+    const next = chain.loop || index + 1 < count ? chain.segments[(index + 1) % count] : undefined;
+    if (!next || next === segment) return false;
+    const nextEdge = next.vertices[1]!.subtract(next.vertices[0]!);
+    return dot(normal, nextEdge).greaterThan(Fixed.ZERO);
+  }
+
+  const previous = chain.loop || index > 0 ? chain.segments[(index + count - 1) % count] : undefined;
+  if (!previous || previous === segment) return false;
+  const previousEdge = previous.vertices[1]!.subtract(previous.vertices[0]!);
+  return dot(normal, previousEdge).lessThan(Fixed.ZERO);
+}
@@ -0,0 +1,443 @@
+import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
+import { IJoint } from '../interfaces/IPhysicsEngine';
+import { JointType } from '../types/PhysicsTypes';
+import { DistanceJointConfig, RevoluteJointConfig, RopeJointConfig } from '../types/JointTypes';
+import { DeterministicRigidBody } from './DeterministicBody';
+import {
+  fixedClamp,
+  fixedMin,
+  rotate,
+  negate,
+  dot,
+  cross,
+  crossSV,
+  length,
+  normalizeSafe
+} from './FixedMath';
+import { JointSnapshot } from './DeterministicSnapshot';
+import type { DeterministicPhysicsWorld } from './DeterministicPhysicsWorld';
+
+/** Position error tolerated by joints | 关节容许的位置误差 */
+const JOINT_SLOP = new Fixed(0.005);
+
+/** Maximum positional correction per iteration | 每次迭代的最大位置修正 */
+const MAX_JOINT_CORRECTION = new Fixed(0.2);
+
+/**
+ * Base class for joints solved by the deterministic engine
+ * 确定性引擎求解的关节基类
+ */
+export abstract class DeterministicJoint implements IJoint {
+  /** Stable joint id (creation order) | 稳定的关节ID（创建顺序） */
+  public readonly id: number;
+
+  /** Joint type | 关节类型 */
+  public readonly type: JointType;
+
+  /** Whether connected bodies collide | 连接的物体是否碰撞 */
+  public readonly collideConnected: boolean;
+
+  protected readonly world: DeterministicPhysicsWorld;
+  protected readonly bodyA: DeterministicRigidBody;
+  protected readonly bodyB: DeterministicRigidBody;
+  protected invDt: Fixed = Fixed.ZERO;
+  private active: boolean = true;
+  private userData: unknown;
+
+  constructor(
+    world: DeterministicPhysicsWorld,
+    id: number,
+    type: JointType,
+    bodyA: DeterministicRigidBody,
+    bodyB: DeterministicRigidBody,
+    collideConnected: boolean,
+    userData: unknown
+  ) {
+    this.world = world;
+    this.id = id;
+    this.type = type;
+    this.bodyA = bodyA;
+    this.bodyB = bodyB;
+    this.collideConnected = collideConnected;
+    this.userData = userData;
+  }
+
+  /**
+   * Prepare the constraint for a step and warm start it
+   * 为一个步骤准备约束并进行热启动
+   */
+  abstract initVelocityConstraints(dt: Fixed): void;
+
+  /**
+   * Run one velocity iteration
+   * 执行一次速度迭代
+   */
+  abstract solveVelocityConstraints(dt: Fixed): void;
+
+  /**
+   * Run one position iteration, returning whether the error is within tolerance
+   * 执行一次位置迭代，返回误差是否在容差内
+   */
+  abstract solvePositionConstraints(): boolean;
+
+  /**
+   * Accumulated impulses carried between steps
+   * 在步骤之间保留的累积冲量
+   */
+  protected abstract getAccumulators(): Fixed[];
+
+  /**
+   * Restore accumulated impulses in getAccumulators() order
+   * 按 getAccumulators() 的顺序恢复累积冲量
+   */
+  protected abstract setAccumulators(values: Fixed[]): void;
+
+  /**
+   * Capture the solver state of the joint
+   * 捕获关节的求解器状态
+   */
+  saveSnapshot(): JointSnapshot {
+    return { id: this.id, invDt: this.invDt, values: this.getAccumulators() };
+  }
+
+  /**
+   * Overwrite the solver state of the joint
+   * 覆盖关节的求解器状态
+   */
+  restoreSnapshot(snapshot: JointSnapshot): void {
+    const expected = this.getAccumulators().length;
+    if (snapshot.values.length !== expected) {
+      throw new Error(`Joint ${this.id} snapshot has ${snapshot.values.length} values, expected ${expected}`);
+    }
+    this.invDt = snapshot.invDt;
+    this.setAccumulators(snapshot.values);
+  }
+
+  /**
+   * Apply an impulse pair at the given anchors (A receives -P, B receives +P)
+   * 在给定锚点施加冲量对（A接收 -P，B接收 +P）
+   */
+  protected applyVelocityImpulse(impulse: FixedVector2, rA: FixedVector2, rB: FixedVector2): void {
+    const a = this.bodyA;
+    const b = this.bodyB;
+    a.linearVelocity = a.linearVelocity.subtract(impulse.multiply(a.invMass));
+    a.angularVelocity = a.angularVelocity.subtract(a.invInertia.multiply(cross(rA, impulse)));
+    b.linearVelocity = b.linearVelocity.add(impulse.multiply(b.invMass));
+    b.angularVelocity = b.angularVelocity.add(b.invInertia.multiply(cross(rB, impulse)));
+  }
+
+  /**
+   * Apply a positional impulse pair at the given anchors
+   * 在给定锚点施加位置冲量对
+   */
+  protected applyPositionImpulse(impulse: FixedVector2, rA: FixedVector2, rB: FixedVector2): void {
+    const a = this.bodyA;
+    const b = this.bodyB;
+    a.worldCenter = a.worldCenter.subtract(impulse.multiply(a.invMass));
+    a.angle = a.angle.subtract(a.invInertia.multiply(cross(rA, impulse)));
+    a.synchronizeTransform();
+    b.worldCenter = b.worldCenter.add(impulse.multiply(b.invMass));
+    b.angle = b.angle.add(b.invInertia.multiply(cross(rB, impulse)));
+    b.synchronizeTransform();
+  }
+
+  /**
+   * Anchor of a body relative to its center of mass, in world orientation
+   * 物体锚点相对于其质心的世界方向向量
+   */
+  protected anchorArm(body: DeterministicRigidBody, localAnchor: FixedVector2): FixedVector2 {
+    return rotate(body.rotation, localAnchor.subtract(body.localCenter));
+  }
+
+  getBodyA(): DeterministicRigidBody {
+    return this.bodyA;
+  }
+
+  getBodyB(): DeterministicRigidBody {
+    return this.bodyB;
+  }
+
+  abstract getReactionForce(): FixedVector2;
+
+  abstract getReactionTorque(): Fixed;
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * Mark the joint as removed from the world
+   * 将关节标记为已从世界移除
+   */
+  deactivate(): void {
+    this.active = false;
+  }
+
+  getUserData(): unknown {
+    return this.userData;
+  }
+
+  setUserData(data: unknown): void {
+    this.userData = data;
+  }
+
+  destroy(): void {
+    this.world.destroyJoint(this);
+  }
+}
+
+/**
+ * Distance joint; with `rope` set it only limits the maximum length
+ * 距离关节；设置 `rope` 时只限制最大长度
+ */
+export class DeterministicDistanceJoint extends DeterministicJoint {
+  /** Accumulated impulse | 累积冲量 */
+  public impulse: Fixed = Fixed.ZERO;
+
+  private readonly localAnchorA: FixedVector2;
+  private readonly localAnchorB: FixedVector2;
+  private readonly length: Fixed;
+  private readonly rope: boolean;
+  private u: FixedVector2 = new FixedVector2();
+  private rA: FixedVector2 = new FixedVector2();
+  private rB: FixedVector2 = new FixedVector2();
+  private currentLength: Fixed = Fixed.ZERO;
+  private mass: Fixed = Fixed.ZERO;
+
+  constructor(
+    world: DeterministicPhysicsWorld,
+    id: number,
+    config: DistanceJointConfig | RopeJointConfig,
+    bodyA: DeterministicRigidBody,
+    bodyB: DeterministicRigidBody
+  ) {
+    super(world, id, config.type, bodyA, bodyB, config.collideConnected ?? false, config.userData);
+    this.localAnchorA = config.localAnchorA;
+    this.localAnchorB = config.localAnchorB;
+    this.rope = config.type === JointType.Rope;
+    this.length = config.type === JointType.Rope ? config.maxLength : config.length;
+  }
+
+  initVelocityConstraints(dt: Fixed): void {
+    const a = this.bodyA;
+    const b = this.bodyB;
+    this.invDt = dt.greaterThan(Fixed.ZERO) ? Fixed.ONE.divide(dt) : Fixed.ZERO;
+    this.rA = this.anchorArm(a, this.localAnchorA);
+    this.rB = this.anchorArm(b, this.localAnchorB);
+
+    const d = b.worldCenter.add(this.rB).subtract(a.worldCenter).subtract(this.rA);
+    this.currentLength = length(d);
+    this.u = this.currentLength.greaterThan(JOINT_SLOP) ? d.divide(this.currentLength) : new FixedVector2();
+
+    const crA = cross(this.rA, this.u);
+    const crB = cross(this.rB, this.u);
+    const invMass = a.invMass
+      .add(a.invInertia.multiply(crA).multiply(crA))
+      .add(b.invMass)
+      .add(b.invInertia.multiply(crB).multiply(crB));
+    this.mass = invMass.greaterThan(Fixed.ZERO) ? Fixed.ONE.divide(invMass) : Fixed.ZERO;
+
+    this.applyVelocityImpulse(this.u.multiply(this.impulse), this.rA, this.rB);
+  }
+
+  solveVelocityConstraints(_dt: Fixed): void {
+    const a = this.bodyA;
+    const b = this.bodyB;
+    const vpA = a.linearVelocity.add(crossSV(a.angularVelocity, this.rA));
+    const vpB = b.linearVelocity.add(crossSV(b.angularVelocity, this.rB));
+    let cdot = dot(this.u, vpB.subtract(vpA));
+
+    let impulse: Fixed;
+    if (this.rope) {
+      // Allow slack: only push once the rope would over-extend
+      // 允许松弛：仅当绳索将被过度拉伸时才施加冲量
+      const c = this.currentLength.subtract(this.length);
+      if (c.lessThan(Fixed.ZERO)) {
+        cdot = cdot.add(this.invDt.multiply(c));
+      }
+      const oldImpulse = this.impulse;
+      this.impulse = fixedMin(Fixed.ZERO, oldImpulse.subtract(this.mass.multiply(cdot)));
+      impulse = this.impulse.subtract(oldImpulse);
+    } else {
+      impulse = this.mass.multiply(cdot).negate();
+      this.impulse = this.impulse.add(impulse);
+    }
+
+    this.applyVelocityImpulse(this.u.multiply(impulse), this.rA, this.rB);
+  }
+
+  solvePositionConstraints(): boolean {
+    const a = this.bodyA;
+    const b = this.bodyB;
+    const rA = this.anchorArm(a, this.localAnchorA);
+    const rB = this.anchorArm(b, this.localAnchorB);
+    const d = b.worldCenter.add(rB).subtract(a.worldCenter).subtract(rA);
+    const u = normalizeSafe(d);
+    let c = length(d).subtract(this.length);
+
+    if (this.rope) {
+      c = fixedClamp(c, Fixed.ZERO, MAX_JOINT_CORRECTION);
+    } else {
+      c = fixedClamp(c, MAX_JOINT_CORRECTION.negate(), MAX_JOINT_CORRECTION);
+    }
+
+    this.applyPositionImpulse(u.multiply(this.mass.multiply(c).negate()), rA, rB);
+    return c.abs().lessThan(JOINT_SLOP);
+  }
+
+  protected getAccumulators(): Fixed[] {
+    // The axis is kept so getReactionForce() matches after a restore
+    // 保留轴向，使恢复后 getReactionForce() 结果一致
+    return [this.impulse, this.u.x, this.u.y];
+  }
+
+  protected setAccumulators(values: Fixed[]): void {
+    this.impulse = values[0]!;
+    this.u = new FixedVector2(values[1]!, values[2]!);
+  }
+
+  getReactionForce(): FixedVector2 {
+    return this.u.multiply(this.invDt.multiply(this.impulse));
+  }
+
+  getReactionTorque(): Fixed {
+    return Fixed.ZERO;
+  }
+}
+
+/**
+ * Revolute (pin) joint with an optional motor. Angle limits are not enforced.
+ * 带可选电机的旋转（销）关节。不强制角度限制。
+ */
+export class DeterministicRevoluteJoint extends DeterministicJoint {
+  /** Accumulated point impulse | 累积点冲量 */
+  public impulse: FixedVector2 = new FixedVector2();
+
+  /** Accumulated motor impulse | 累积电机冲量 */
+  public motorImpulse: Fixed = Fixed.ZERO;
+
+  private readonly localAnchorA: FixedVector2;
+  private readonly localAnchorB: FixedVector2;
+  private readonly enableMotor: boolean;
+  private readonly motorSpeed: Fixed;
+  private readonly maxMotorTorque: Fixed;
+  private rA: FixedVector2 = new FixedVector2();
+  private rB: FixedVector2 = new FixedVector2();
+  private motorMass: Fixed = Fixed.ZERO;
+
+  constructor(
+    world: DeterministicPhysicsWorld,
+    id: number,
+    config: RevoluteJointConfig,
+    bodyA: DeterministicRigidBody,
+    bodyB: DeterministicRigidBody
+  ) {
+    super(world, id, config.type, bodyA, bodyB, config.collideConnected ?? false, config.userData);
+    this.localAnchorA = config.localAnchorA;
+    this.localAnchorB = config.localAnchorB;
+    this.enableMotor = config.enableMotor ?? false;
+    this.motorSpeed = config.motorSpeed ?? Fixed.ZERO;
+    this.maxMotorTorque = config.maxMotorTorque ?? Fixed.ZERO;
+  }
+
+  /**
+   * Solve the 2x2 point constraint K * x = rhs
+   * 求解 2x2 点约束 K * x = rhs
+   */
+  private solvePoint(rA: FixedVector2, rB: FixedVector2, rhs: FixedVector2): FixedVector2 {
+    const a = this.bodyA;
+    const b = this.bodyB;
+    const m = a.invMass.add(b.invMass);
+    const k11 = m
+      .add(a.invInertia.multiply(rA.y).multiply(rA.y))
+      .add(b.invInertia.multiply(rB.y).multiply(rB.y));
+    const k12 = a.invInertia.multiply(rA.x).multiply(rA.y)
+      .add(b.invInertia.multiply(rB.x).multiply(rB.y))
+      .negate();
+    const k22 = m
+      .add(a.invInertia.multiply(rA.x).multiply(rA.x))
+      .add(b.invInertia.multiply(rB.x).multiply(rB.x));
+
+    let det = k11.multiply(k22).subtract(k12.multiply(k12));
+    if (det.equals(Fixed.ZERO)) {
+      return new FixedVector2();
+    }
+    det = Fixed.ONE.divide(det);
+    return new FixedVector2(
+      det.multiply(k22.multiply(rhs.x).subtract(k12.multiply(rhs.y))),
+      det.multiply(k11.multiply(rhs.y).subtract(k12.multiply(rhs.x)))
+    );
+  }
+
+  initVelocityConstraints(dt: Fixed): void {
+    const a = this.bodyA;
+    const b = this.bodyB;
+    this.invDt = dt.greaterThan(Fixed.ZERO) ? Fixed.ONE.divide(dt) : Fixed.ZERO;
+    this.rA = this.anchorArm(a, this.localAnchorA);
+    this.rB = this.anchorArm(b, this.localAnchorB);
+
+    const invInertia = a.invInertia.add(b.invInertia);
+    this.motorMass = invInertia.greaterThan(Fixed.ZERO) ? Fixed.ONE.divide(invInertia) : Fixed.ZERO;
+    if (!this.enableMotor) {
+      this.motorImpulse = Fixed.ZERO;
+    }
+
+    this.applyVelocityImpulse(this.impulse, this.rA, this.rB);
+    a.angularVelocity = a.angularVelocity.subtract(a.invInertia.multiply(this.motorImpulse));
+    b.angularVelocity = b.angularVelocity.add(b.invInertia.multiply(this.motorImpulse));
+  }
+
+  solveVelocityConstraints(dt: Fixed): void {
+    const a = this.bodyA;
+    const b = this.bodyB;
+
+    if (this.enableMotor) {
+      const cdot = b.angularVelocity.subtract(a.angularVelocity).subtract(this.motorSpeed);
+      const maxImpulse = dt.multiply(this.maxMotorTorque);
+      const oldImpulse = this.motorImpulse;
+      this.motorImpulse = fixedClamp(
+        oldImpulse.subtract(this.motorMass.multiply(cdot)),
+        maxImpulse.negate(),
+        maxImpulse
+      );
+      const impulse = this.motorImpulse.subtract(oldImpulse);
+      a.angularVelocity = a.angularVelocity.subtract(a.invInertia.multiply(impulse));
+      b.angularVelocity = b.angularVelocity.add(b.invInertia.multiply(impulse));
+    }
+
+    const vpA = a.linearVelocity.add(crossSV(a.angularVelocity, this.rA));
+    const vpB = b.linearVelocity.add(crossSV(b.angularVelocity, this.rB));
+    const cdot = vpB.subtract(vpA);
+    const impulse = this.solvePoint(this.rA, this.rB, negate(cdot));
+    this.impulse = this.impulse.add(impulse);
+    this.applyVelocityImpulse(impulse, this.rA, this.rB);
+  }
+
+  solvePositionConstraints(): boolean {
+    const a = this.bodyA;
+    const b = this.bodyB;
+    const rA = this.anchorArm(a, this.localAnchorA);
+    const rB = this.anchorArm(b, this.localAnchorB);
+    const c = b.worldCenter.add(rB).subtract(a.worldCenter).subtract(rA);
+    const impulse = this.solvePoint(rA, rB, negate(c));
+    this.applyPositionImpulse(impulse, rA, rB);
+    return length(c).lessThanOrEqual(JOINT_SLOP);
+  }
+
+  protected getAccumulators(): Fixed[] {
+    return [this.impulse.x, this.impulse.y, this.motorImpulse];
+  }
+
+  protected setAccumulators(values: Fixed[]): void {
+    this.impulse = new FixedVector2(values[0]!, values[1]!);
+    this.motorImpulse = values[2]!;
+  }
+
+  getReactionForce(): FixedVector2 {
+    return this.impulse.multiply(this.invDt);
+  }
+
+  getReactionTorque(): Fixed {
+    return this.invDt.multiply(this.motorImpulse);
+  }
+}
@@ -0,0 +1,127 @@
+import {
+  IPhysicsEngine,
+  IPhysicsWorld,
+  IRigidBody,
+  ICollider,
+  IJoint,
+  IPhysicsEngineFactory
+} from '../interfaces/IPhysicsEngine';
+import {
+  PhysicsWorldConfig,
+  RigidBodyConfig,
+  ColliderConfig,
+  PhysicsMaterial,
+  BaseJointConfig
+} from '../types/PhysicsTypes';
+import { DeterministicPhysicsWorld } from './DeterministicPhysicsWorld';
+import { DeterministicRigidBody } from './DeterministicBody';
+
+/**
+ * Features provided by the deterministic engine
+ * 确定性引擎提供的功能
+ */
+export const DETERMINISTIC_ENGINE_FEATURES: readonly string[] = [
+  'deterministic',
+  'fixed-point',
+  'collider:box',
+  'collider:circle',
+  'collider:polygon',
+  'collider:rounded-polygon',
+  'collider:edge',
+  'collider:chain',
+  'collider:heightfield',
+  'material:tangent-speed',
+  'joint:distance',
+  'joint:rope',
+  'joint:revolute',
+  'sleeping',
+  'raycast',
+  'shapeCast',
+  'overlap',
+  'snapshot',
+  'queryAABB'
+];
+
+/**
+ * Built-in pure TypeScript physics engine using Fixed math end to end
+ * 内置的纯TypeScript物理引擎，全程使用定点数学
+ */
+export class DeterministicPhysicsEngine implements IPhysicsEngine {
+  readonly name: string = 'deterministic';
+  readonly version: string = '1.0.0';
+
+  /** Worlds created by this engine | 此引擎创建的世界 */
+  private worlds: DeterministicPhysicsWorld[] = [];
+
+  createWorld(config: PhysicsWorldConfig): DeterministicPhysicsWorld {
+    const world = new DeterministicPhysicsWorld(config);
+    this.worlds.push(world);
+    return world;
+  }
+
+  createRigidBody(world: IPhysicsWorld, config: RigidBodyConfig): IRigidBody {
+    return this.asWorld(world).createBody(config);
+  }
+
+  createCollider(body: IRigidBody, config: ColliderConfig, material?: PhysicsMaterial): ICollider {
+    const deterministicBody = this.asBody(body);
+    return deterministicBody.world.createCollider(deterministicBody, config, material);
+  }
+
+  createJoint(world: IPhysicsWorld, config: BaseJointConfig): IJoint {
+    return this.asWorld(world).createJoint(config);
+  }
+
+  initialize(): Promise<void> {
+    // Nothing to load: the engine is plain TypeScript
+    // 无需加载：引擎为纯TypeScript实现
+    return Promise.resolve();
+  }
+
+  destroy(): void {
+    for (const world of this.worlds) {
+      world.destroy();
+    }
+    this.worlds = [];
+  }
+
+  getDebugInfo(): unknown {
+    return {
+      name: this.name,
+      version: this.version,
+      worlds: this.worlds.map(world => world.getDebugDrawData())
+    };
+  }
+
+  private asWorld(world: IPhysicsWorld): DeterministicPhysicsWorld {
+    if (!(world instanceof DeterministicPhysicsWorld)) {
+      throw new Error('World was not created by the deterministic engine');
+    }
+    return world;
+  }
+
+  private asBody(body: IRigidBody): DeterministicRigidBody {
+    if (!(body instanceof DeterministicRigidBody)) {
+      throw new Error('Body was not created by the deterministic engine');
+    }
+    return body;
+  }
+}
+
+/**
+ * Factory for the deterministic engine
+ * 确定性引擎工厂
+ */
+export class DeterministicPhysicsEngineFactory implements IPhysicsEngineFactory {
+  createEngine(): IPhysicsEngine {
+    return new DeterministicPhysicsEngine();
+  }
+
+  getSupportedFeatures(): string[] {
+    return [...DETERMINISTIC_ENGINE_FEATURES];
+  }
+
+  isFeatureSupported(feature: string): boolean {
+    return DETERMINISTIC_ENGINE_FEATURES.includes(feature);
+  }
+}
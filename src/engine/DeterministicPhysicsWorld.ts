@@ -0,0 +1,1232 @@
+import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
+import { IPhysicsWorld, OverlapHit, PhysicsContact } from '../interfaces/IPhysicsEngine';
+import {
+  PhysicsWorldConfig,
+  RigidBodyConfig,
+  RigidBodyType,
+  ColliderConfig,
+  ColliderType,
+  PhysicsMaterial,
+  CollisionFilter,
+  CollisionEventData,
+  ContactPoint,
+  RaycastInput,
+  RaycastResult,
+  RaycastMode,
+  ShapeCastInput,
+  ShapeCastResult,
+  OverlapQueryOptions,
+  BaseJointConfig,
+  JointType
+} from '../types/PhysicsTypes';
+import { DistanceJointConfig, RevoluteJointConfig, RopeJointConfig } from '../types/JointTypes';
+import { DeterministicRigidBody, DeterministicCollider } from './DeterministicBody';
+import {
+  DeterministicJoint,
+  DeterministicDistanceJoint,
+  DeterministicRevoluteJoint
+} from './DeterministicJoints';
+import { Manifold, collideShapes } from './DeterministicCollision';
+import {
+  AABB,
+  Shape,
+  aabbOverlaps,
+  raycastShape,
+  testPointShape,
+  createShape,
+  computeShapeAABB
+} from './DeterministicShapes';
+import { ShapeCastHit, shapeCast, shapesOverlap } from './DeterministicShapeCast';
+import { encodeWorldSnapshot, decodeWorldSnapshot } from './DeterministicSnapshot';
+import { resolveRaycastHits } from '../utils/RaycastUtils';
+import { createCapsuleFallbackShapes } from '../geometry/CapsuleGeometry';
+import { PreSolveEvent } from '../events/PhysicsEvents';
+import {
+  fixedClamp,
+  fixedMax,
+  fixedMin,
+  dot,
+  cross,
+  crossSV,
+  lengthSquared,
+  makeTransform,
+  Transform,
+  vectorMin,
+  vectorMax
+} from './FixedMath';
+
+/** Allowed penetration, also used as the contact margin | 允许的穿透，也用作接触边距 */
+const LINEAR_SLOP = new Fixed(0.005);
+
+/** Fraction of penetration resolved per position iteration | 每次位置迭代解决的穿透比例 */
+const BAUMGARTE = new Fixed(0.2);
+
+/** Maximum positional correction per iteration | 每次迭代的最大位置修正 */
+const MAX_LINEAR_CORRECTION = new Fixed(0.2);
+
+/** Minimum closing speed for restitution | 产生反弹的最小接近速度 */
+const VELOCITY_THRESHOLD = Fixed.ONE;
+
+/** Maximum translation of a body per step | 每步物体的最大平移 */
+const MAX_TRANSLATION = new Fixed(2);
+
+/** Time a body must rest before sleeping | 物体休眠前必须静止的时间 */
+const TIME_TO_SLEEP = new Fixed(0.5);
+
+/** Linear speed below which a body is resting | 低于此线速度时物体视为静止 */
+const LINEAR_SLEEP_TOLERANCE = new Fixed(0.01);
+
+/** Angular speed below which a body is resting | 低于此角速度时物体视为静止 */
+const ANGULAR_SLEEP_TOLERANCE = new Fixed((2 / 180) * Math.PI);
+
+/**
+ * Accumulated impulses of one manifold point, kept for warm starting
+ * 一个流形点的累积冲量，用于热启动
+ */
+export interface ContactImpulse {
+  /** Manifold point feature key | 流形点特征键 */
+  id: number;
+  /** Accumulated normal impulse | 累积法线冲量 */
+  normalImpulse: Fixed;
+  /** Accumulated tangent impulse | 累积切线冲量 */
+  tangentImpulse: Fixed;
+}
+
+/**
+ * Potential or touching contact between two colliders
+ * 两个碰撞器之间的潜在或实际接触
+ */
+export interface DeterministicContact {
+  /** Pair key (lower collider id first) | 对键（较小的碰撞器ID在前） */
+  key: string;
+  /** First collider (lower id) | 第一个碰撞器（较小ID） */
+  colliderA: DeterministicCollider;
+  /** Second collider (higher id) | 第二个碰撞器（较大ID） */
+  colliderB: DeterministicCollider;
+  /** Latest manifold | 最新的流形 */
+  manifold: Manifold | null;
+  /** Whether the shapes are touching | 形状是否接触 */
+  touching: boolean;
+  /** Whether the solver processes the contact this step, set by pre-solve listeners | 求解器本步是否处理此接触，由预解决监听器设置 */
+  enabled: boolean;
+  /** Warm starting impulses, parallel to manifold points | 热启动冲量，与流形点对应 */
+  impulses: ContactImpulse[];
+}
+
+/**
+ * Solver data of one contact point
+ * 一个接触点的求解器数据
+ */
+interface ContactConstraintPoint {
+  rA: FixedVector2;
+  rB: FixedVector2;
+  normalMass: Fixed;
+  tangentMass: Fixed;
+  velocityBias: Fixed;
+  impulse: ContactImpulse;
+}
+
+/**
+ * Solver data of one contact
+ * 一个接触的求解器数据
+ */
+interface ContactConstraint {
+  contact: DeterministicContact;
+  bodyA: DeterministicRigidBody;
+  bodyB: DeterministicRigidBody;
+  normal: FixedVector2;
+  tangent: FixedVector2;
+  friction: Fixed;
+  restitution: Fixed;
+  /** Combined surface speed along the tangent | 沿切线方向的合成表面速度 */
+  tangentSpeed: Fixed;
+  points: ContactConstraintPoint[];
+}
+
+/**
+ * Queued collision event, dispatched once the step has finished
+ * 排队的碰撞事件，在步骤结束后分发
+ */
+interface PendingCollisionEvent {
+  contact: DeterministicContact;
+  begin: boolean;
+}
+
+/**
+ * Test whether two collision filters accept each other
+ * 测试两个碰撞过滤器是否互相接受
+ */
+export function filtersCollide(a: CollisionFilter, b: CollisionFilter): boolean {
+  const groupA = a.groupIndex ?? 0;
+  const groupB = b.groupIndex ?? 0;
+  if (groupA === groupB && groupA !== 0) {
+    return groupA > 0;
+  }
+  return (a.maskBits & b.categoryBits) !== 0 && (a.categoryBits & b.maskBits) !== 0;
+}
+
+/**
+ * Build the shapes of a query; a capsule, which the engine has no shape for, becomes its fallback parts
+ * 构建查询使用的形状；引擎没有对应形状的胶囊会拆分为其替代部分
+ */
+function createQueryShapes(config: ColliderConfig): Shape[] {
+  return config.type === ColliderType.Capsule
+    ? createCapsuleFallbackShapes(config).map(createShape)
+    : [createShape(config)];
+}
+
+/**
+ * Bounding box of all query shapes at a transform
+ * 所有查询形状在某个变换下的包围盒
+ */
+function computeQueryAABB(parts: Shape[], xf: Transform): AABB {
+  return parts.map(part => computeShapeAABB(part, xf)).reduce((total, box) => ({
+    lowerBound: vectorMin(total.lowerBound, box.lowerBound),
+    upperBound: vectorMax(total.upperBound, box.upperBound)
+  }));
+}
+
+/**
+ * Deterministic physics world: every quantity is a Fixed value and every iteration
+ * order is derived from creation ids, so identical inputs give bit-identical results.
+ * 确定性物理世界：所有数值均为定点数，所有迭代顺序都由创建ID决定，
+ * 因此相同的输入产生逐位相同的结果。
+ */
+export class DeterministicPhysicsWorld implements IPhysicsWorld {
+  private gravity: FixedVector2;
+  private readonly allowSleep: boolean;
+  private readonly velocityIterations: number;
+  private readonly positionIterations: number;
+  private readonly bodies: DeterministicRigidBody[] = [];
+  private readonly joints: DeterministicJoint[] = [];
+  private readonly contacts = new Map<string, DeterministicContact>();
+  private readonly listeners: Array<(data: CollisionEventData) => void> = [];
+  private readonly preSolveListeners: Array<(event: PreSolveEvent) => void> = [];
+  private pendingEvents: PendingCollisionEvent[] = [];
+  private nextBodyId: number = 1;
+  private nextColliderId: number = 1;
+  private nextJointId: number = 1;
+
+  constructor(config: PhysicsWorldConfig) {
+    this.gravity = new FixedVector2(config.gravity.x, config.gravity.y);
+    this.allowSleep = config.allowSleep ?? true;
+    this.velocityIterations = Math.max(1, config.velocityIterations ?? 8);
+    this.positionIterations = Math.max(0, config.positionIterations ?? 3);
+  }
+
+  // Object lifecycle | 对象生命周期
+
+  /**
+   * Create a rigid body
+   * 创建刚体
+   */
+  createBody(config: RigidBodyConfig): DeterministicRigidBody {
+    const body = new DeterministicRigidBody(this, this.nextBodyId++, config);
+    this.bodies.push(body);
+    return body;
+  }
+
+  /**
+   * Create a collider on a body of this world
+   * 在此世界的物体上创建碰撞器
+   */
+  createCollider(
+    body: DeterministicRigidBody,
+    config: ColliderConfig,
+    material?: PhysicsMaterial
+  ): DeterministicCollider {
+    const collider = new DeterministicCollider(body, this.nextColliderId++, config, material);
+    body.colliders.push(collider);
+    body.resetMassData();
+    return collider;
+  }
+
+  /**
+   * Create a joint between two bodies of this world
+   * 在此世界的两个物体之间创建关节
+   */
+  createJoint(config: BaseJointConfig): DeterministicJoint {
+    const bodyA = config.bodyA;
+    const bodyB = config.bodyB;
+    if (!(bodyA instanceof DeterministicRigidBody) || !(bodyB instanceof DeterministicRigidBody)) {
+      throw new Error('Joint bodies must be created by the deterministic engine');
+    }
+    if (bodyA.world !== this || bodyB.world !== this) {
+      throw new Error('Joint bodies must belong to the same world');
+    }
+
+    let joint: DeterministicJoint;
+    switch (config.type) {
+      case JointType.Distance:
+        joint = new DeterministicDistanceJoint(this, this.nextJointId++, config as DistanceJointConfig, bodyA, bodyB);
+        break;
+      case JointType.Rope:
+        joint = new DeterministicDistanceJoint(this, this.nextJointId++, config as RopeJointConfig, bodyA, bodyB);
+        break;
+      case JointType.Revolute:
+        joint = new DeterministicRevoluteJoint(this, this.nextJointId++, config as RevoluteJointConfig, bodyA, bodyB);
+        break;
+      default:
+        throw new Error(`Joint type '${config.type}' is not supported by the deterministic engine`);
+    }
+
+    this.joints.push(joint);
+    if (!joint.collideConnected) {
+      this.destroyContactsBetween(bodyA, bodyB);
+    }
+    return joint;
+  }
+
+  /**
+   * Destroy a body together with its colliders, contacts and joints
+   * 销毁物体及其碰撞器、接触和关节
+   */
+  destroyBody(body: DeterministicRigidBody): void {
+    const index = this.bodies.indexOf(body);
+    if (index < 0) return;
+
+    for (const joint of this.joints.slice()) {
+      if (joint.getBodyA() === body || joint.getBodyB() === body) {
+        this.destroyJoint(joint);
+      }
+    }
+    this.destroyContactsOf(body);
+    body.colliders.length = 0;
+    this.bodies.splice(index, 1);
+  }
+
+  /**
+   * Destroy a collider and its contacts, waking the bodies it touched so nothing is left resting on it
+   * 销毁碰撞器及其接触，并唤醒与其接触的物体，避免有物体停留在已不存在的碰撞器上
+   */
+  destroyCollider(collider: DeterministicCollider): void {
+    const body = collider.getBody();
+    const index = body.colliders.indexOf(collider);
+    if (index < 0) return;
+
+    for (const contact of Array.from(this.contacts.values())) {
+      if (contact.colliderA === collider || contact.colliderB === collider) {
+        contact.colliderA.getBody().setAwake(true);
+        contact.colliderB.getBody().setAwake(true);
+        this.destroyContact(contact);
+      }
+    }
+    body.colliders.splice(index, 1);
+    body.resetMassData();
+  }
+
+  /**
+   * Destroy a joint
+   * 销毁关节
+   */
+  destroyJoint(joint: DeterministicJoint): void {
+    const index = this.joints.indexOf(joint);
+    if (index < 0) return;
+
+    this.joints.splice(index, 1);
+    joint.deactivate();
+    joint.getBodyA().setAwake(true);
+    joint.getBodyB().setAwake(true);
+  }
+
+  /**
+   * Destroy every contact involving a body
+   * 销毁涉及某物体的所有接触
+   */
+  destroyContactsOf(body: DeterministicRigidBody): void {
+    for (const contact of Array.from(this.contacts.values())) {
+      if (contact.colliderA.getBody() === body || contact.colliderB.getBody() === body) {
+        this.destroyContact(contact);
+      }
+    }
+  }
+
+  /**
+   * Re-evaluate contacts after a collider's filter or sensor flag changed
+   * 在碰撞器的过滤器或传感器标志改变后重新评估接触
+   */
+  refilter(collider: DeterministicCollider): void {
+    for (const contact of this.contacts.values()) {
+      if (contact.colliderA === collider || contact.colliderB === collider) {
+        contact.colliderA.getBody().setAwake(true);
+        contact.colliderB.getBody().setAwake(true);
+      }
+    }
+  }
+
+  private destroyContactsBetween(bodyA: DeterministicRigidBody, bodyB: DeterministicRigidBody): void {
+    for (const contact of Array.from(this.contacts.values())) {
+      const a = contact.colliderA.getBody();
+      const b = contact.colliderB.getBody();
+      if ((a === bodyA && b === bodyB) || (a === bodyB && b === bodyA)) {
+        this.destroyContact(contact);
+      }
+    }
+  }
+
+  private destroyContact(contact: DeterministicContact): void {
+    if (contact.touching) {
+      contact.touching = false;
+      this.pendingEvents.push({ contact, begin: false });
+    }
+    this.contacts.delete(contact.key);
+  }
+
+  // Simulation | 模拟
+
+  step(deltaTime: Fixed): void {
+    if (deltaTime.lessThanOrEqual(Fixed.ZERO)) return;
+
+    this.collide();
+    this.preSolve();
+    this.solve(deltaTime);
+
+    for (const body of this.bodies) {
+      body.force = new FixedVector2();
+      body.torque = Fixed.ZERO;
+    }
+
+    this.flushEvents();
+  }
+
+  /**
+   * Whether two colliders are allowed to generate a contact
+   * 两个碰撞器是否允许产生接触
+   */
+  private shouldCollide(a: DeterministicCollider, b: DeterministicCollider): boolean {
+    const bodyA = a.getBody();
+    const bodyB = b.getBody();
+    if (bodyA === bodyB) return false;
+    if (!bodyA.isDynamic() && !bodyB.isDynamic()) return false;
+    if (!filtersCollide(a.getFilter(), b.getFilter())) return false;
+
+    for (const joint of this.joints) {
+      if (joint.collideConnected) continue;
+      const jA = joint.getBodyA();
+      const jB = joint.getBodyB();
+      if ((jA === bodyA && jB === bodyB) || (jA === bodyB && jB === bodyA)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Broad phase (sort and sweep) followed by the narrow phase
+   * 宽相位（排序扫描）之后进行窄相位
+   */
+  private collide(): void {
+    const proxies: DeterministicCollider[] = [];
+    for (const body of this.bodies) {
+      if (!body.isActive()) continue;
+      for (const collider of body.colliders) {
+        collider.updateAABB();
+        proxies.push(collider);
+      }
+    }
+
+    proxies.sort((a, b) => {
+      if (a.aabb.lowerBound.x.lessThan(b.aabb.lowerBound.x)) return -1;
+      if (a.aabb.lowerBound.x.greaterThan(b.aabb.lowerBound.x)) return 1;
+      return a.id - b.id;
+    });
+
+    const overlapping = new Set<string>();
+    for (let i = 0; i < proxies.length; i++) {
+      const a = proxies[i]!;
+      for (let j = i + 1; j < proxies.length; j++) {
+        const b = proxies[j]!;
+        if (b.aabb.lowerBound.x.greaterThan(a.aabb.upperBound.x)) break;
+        if (!aabbOverlaps(a.aabb, b.aabb) || !this.shouldCollide(a, b)) continue;
+
+        const [first, second] = a.id < b.id ? [a, b] : [b, a];
+        const key = `${first.id}:${second.id}`;
+        overlapping.add(key);
+        if (!this.contacts.has(key)) {
+          this.contacts.set(key, {
+            key,
+            colliderA: first,
+            colliderB: second,
+            manifold: null,
+            touching: false,
+            enabled: true,
+            impulses: []
+          });
+        }
+      }
+    }
+
+    for (const contact of Array.from(this.contacts.values())) {
+      if (!overlapping.has(contact.key)) {
+        this.destroyContact(contact);
+        continue;
+      }
+
+      const bodyA = contact.colliderA.getBody();
+      const bodyB = contact.colliderB.getBody();
+      const activeA = bodyA.isAwake() && bodyA.type !== RigidBodyType.Static;
+      const activeB = bodyB.isAwake() && bodyB.type !== RigidBodyType.Static;
+      if (!activeA && !activeB) continue;
+
+      this.updateContact(contact);
+
+      // Sleeping bodies touched by moving ones must wake up
+      // 被运动物体接触的休眠物体必须唤醒
+      if (contact.touching && !this.isSensorContact(contact)) {
+        if (activeA && bodyB.isDynamic() && !bodyB.isAwake()) bodyB.setAwake(true);
+        if (activeB && bodyA.isDynamic() && !bodyA.isAwake()) bodyA.setAwake(true);
+      }
+    }
+  }
+
+  private isSensorContact(contact: DeterministicContact): boolean {
+    return contact.colliderA.isSensor() || contact.colliderB.isSensor();
+  }
+
+  /**
+   * Recompute the manifold of a contact and queue begin/end events
+   * 重新计算接触的流形并排队开始/结束事件
+   */
+  private updateContact(contact: DeterministicContact): void {
+    const sensor = this.isSensorContact(contact);
+    const manifold = collideShapes(
+      contact.colliderA.shape,
+      contact.colliderA.getBody().getTransform(),
+      contact.colliderB.shape,
+      contact.colliderB.getBody().getTransform(),
+      sensor ? Fixed.ZERO : LINEAR_SLOP
+    );
+
+    const wasTouching = contact.touching;
+    contact.manifold = manifold;
+    contact.touching = manifold !== null;
+    contact.impulses = (manifold?.points ?? []).map(point => {
+      const previous = contact.impulses.find(impulse => impulse.id === point.id);
+      return {
+        id: point.id,
+        normalImpulse: previous?.normalImpulse ?? Fixed.ZERO,
+        tangentImpulse: previous?.tangentImpulse ?? Fixed.ZERO
+      };
+    });
+
+    if (contact.touching !== wasTouching) {
+      this.pendingEvents.push({ contact, begin: contact.touching });
+    }
+  }
+
+  /**
+   * Let pre-solve listeners disable touching contacts for this step; a disabled contact also drops
+   * its warm starting impulses
+   * 让预解决监听器在本步禁用接触；被禁用的接触同时丢弃其热启动冲量
+   */
+  private preSolve(): void {
+    for (const contact of this.contacts.values()) {
+      contact.enabled = true;
+      if (this.preSolveListeners.length === 0) continue;
+      if (!contact.touching || this.isSensorContact(contact)) continue;
+
+      const bodyA = contact.colliderA.getBody();
+      const bodyB = contact.colliderB.getBody();
+      if (!bodyA.isAwake() && !bodyB.isAwake()) continue;
+
+      const event = new PreSolveEvent(bodyA, bodyB, contact.colliderA, contact.colliderB, this.toContactPoints(contact));
+      for (const listener of this.preSolveListeners.slice()) {
+        listener(event);
+      }
+
+      contact.enabled = event.processingEnabled;
+      if (!contact.enabled) {
+        for (const impulse of contact.impulses) {
+          impulse.normalImpulse = Fixed.ZERO;
+          impulse.tangentImpulse = Fixed.ZERO;
+        }
+      }
+    }
+  }
+
+  /**
+   * Integrate, solve constraints and update sleep state
+   * 积分、求解约束并更新休眠状态
+   */
+  private solve(dt: Fixed): void {
+    const moving = this.bodies.filter(
+      body => body.isActive() && body.isAwake() && body.type !== RigidBodyType.Static
+    );
+
+    // Integrate velocities
+    // 积分速度
+    for (const body of moving) {
+      if (!body.isDynamic()) continue;
+
+      let v = body.linearVelocity.add(
+        this.gravity.multiply(body.gravityScale).add(body.force.multiply(body.invMass)).multiply(dt)
+      );
+      let w = body.angularVelocity.add(dt.multiply(body.invInertia).multiply(body.torque));
+
+      v = v.multiply(Fixed.ONE.divide(Fixed.ONE.add(dt.multiply(body.linearDamping))));
+      w = w.multiply(Fixed.ONE.divide(Fixed.ONE.add(dt.multiply(body.angularDamping))));
+      body.linearVelocity = v;
+      body.angularVelocity = w;
+    }
+
+    const joints = this.joints.filter(joint => this.isJointActive(joint));
+    const constraints = this.buildContactConstraints();
+
+    for (const joint of joints) {
+      joint.initVelocityConstraints(dt);
+    }
+    for (const constraint of constraints) {
+      this.warmStart(constraint);
+    }
+
+    for (let i = 0; i < this.velocityIterations; i++) {
+      for (const joint of joints) {
+        joint.solveVelocityConstraints(dt);
+      }
+      for (const constraint of constraints) {
+        this.solveVelocity(constraint);
+      }
+    }
+
+    // Integrate positions
+    // 积分位置
+    for (const body of moving) {
+      let v = body.linearVelocity;
+      const translation = v.multiply(dt);
+      if (lengthSquared(translation).greaterThan(MAX_TRANSLATION.multiply(MAX_TRANSLATION))) {
+        v = v.multiply(MAX_TRANSLATION.divide(translation.magnitude()));
+        body.linearVelocity = v;
+      }
+      body.worldCenter = body.worldCenter.add(v.multiply(dt));
+      body.angle = body.angle.add(body.angularVelocity.multiply(dt));
+      body.synchronizeTransform();
+    }
+
+    for (let i = 0; i < this.positionIterations; i++) {
+      let solved = this.solvePositions(constraints);
+      for (const joint of joints) {
+        solved = joint.solvePositionConstraints() && solved;
+      }
+      if (solved) break;
+    }
+
+    if (this.allowSleep) {
+      this.updateSleep(moving, dt);
+    }
+  }
+
+  /**
+   * A joint is solved when at least one of its bodies is moving; the other is woken
+   * 至少一个物体在运动时求解关节，并唤醒另一个物体
+   */
+  private isJointActive(joint: DeterministicJoint): boolean {
+    const a = joint.getBodyA();
+    const b = joint.getBodyB();
+    if (!a.isActive() || !b.isActive()) return false;
+
+    const movingA = a.isAwake() && a.type !== RigidBodyType.Static;
+    const movingB = b.isAwake() && b.type !== RigidBodyType.Static;
+    if (!movingA && !movingB) return false;
+
+    if (!a.isAwake()) a.setAwake(true);
+    if (!b.isAwake()) b.setAwake(true);
+    return true;
+  }
+
+  private buildContactConstraints(): ContactConstraint[] {
+    const constraints: ContactConstraint[] = [];
+
+    for (const contact of this.contacts.values()) {
+      if (!contact.touching || !contact.enabled || !contact.manifold || this.isSensorContact(contact)) continue;
+
+      const bodyA = contact.colliderA.getBody();
+      const bodyB = contact.colliderB.getBody();
+      if (!bodyA.isAwake() && !bodyB.isAwake()) continue;
+
+      const materialA = contact.colliderA.getMaterial();
+      const materialB = contact.colliderB.getMaterial();
+      const normal = contact.manifold.normal;
+      const tangent = new FixedVector2(normal.y, normal.x.negate());
+      const restitution = fixedMax(materialA.restitution, materialB.restitution);
+
+      const points = contact.manifold.points.map((point, index): ContactConstraintPoint => {
+        const rA = point.point.subtract(bodyA.worldCenter);
+        const rB = point.point.subtract(bodyB.worldCenter);
+        const rnA = cross(rA, normal);
+        const rnB = cross(rB, normal);
+        const rtA = cross(rA, tangent);
+        const rtB = cross(rB, tangent);
+        const m = bodyA.invMass.add(bodyB.invMass);
+        const kNormal = m
+          .add(bodyA.invInertia.multiply(rnA).multiply(rnA))
+          .add(bodyB.invInertia.multiply(rnB).multiply(rnB));
+        const kTangent = m
+          .add(bodyA.invInertia.multiply(rtA).multiply(rtA))
+          .add(bodyB.invInertia.multiply(rtB).multiply(rtB));
+
+        const vRel = dot(normal, this.relativeVelocity(bodyA, bodyB, rA, rB));
+        const velocityBias = vRel.lessThan(VELOCITY_THRESHOLD.negate())
+          ? restitution.multiply(vRel).negate()
+          : Fixed.ZERO;
+
+        return {
+          rA,
+          rB,
+          normalMass: kNormal.greaterThan(Fixed.ZERO) ? Fixed.ONE.divide(kNormal) : Fixed.ZERO,
+          tangentMass: kTangent.greaterThan(Fixed.ZERO) ? Fixed.ONE.divide(kTangent) : Fixed.ZERO,
+          velocityBias,
+          impulse: contact.impulses[index]!
+        };
+      });
+
+      constraints.push({
+        contact,
+        bodyA,
+        bodyB,
+        normal,
+        tangent,
+        friction: materialA.friction.multiply(materialB.friction).sqrt(),
+        restitution,
+        tangentSpeed: (materialA.tangentSpeed ?? Fixed.ZERO).add(materialB.tangentSpeed ?? Fixed.ZERO),
+        points
+      });
+    }
+
+    return constraints;
+  }
+
+  private relativeVelocity(
+    bodyA: DeterministicRigidBody,
+    bodyB: DeterministicRigidBody,
+    rA: FixedVector2,
+    rB: FixedVector2
+  ): FixedVector2 {
+    return bodyB.linearVelocity
+      .add(crossSV(bodyB.angularVelocity, rB))
+      .subtract(bodyA.linearVelocity)
+      .subtract(crossSV(bodyA.angularVelocity, rA));
+  }
+
+  private applyContactImpulse(
+    constraint: ContactConstraint,
+    point: ContactConstraintPoint,
+    impulse: FixedVector2
+  ): void {
+    const a = constraint.bodyA;
+    const b = constraint.bodyB;
+    a.linearVelocity = a.linearVelocity.subtract(impulse.multiply(a.invMass));
+    a.angularVelocity = a.angularVelocity.subtract(a.invInertia.multiply(cross(point.rA, impulse)));
+    b.linearVelocity = b.linearVelocity.add(impulse.multiply(b.invMass));
+    b.angularVelocity = b.angularVelocity.add(b.invInertia.multiply(cross(point.rB, impulse)));
+  }
+
+  private warmStart(constraint: ContactConstraint): void {
+    for (const point of constraint.points) {
+      const impulse = constraint.normal
+        .multiply(point.impulse.normalImpulse)
+        .add(constraint.tangent.multiply(point.impulse.tangentImpulse));
+      this.applyContactImpulse(constraint, point, impulse);
+    }
+  }
+
+  private solveVelocity(constraint: ContactConstraint): void {
+    // Friction first so the normal constraint has the final word
+    // 先求解摩擦，使法线约束最后生效
+    for (const point of constraint.points) {
+      const dv = this.relativeVelocity(constraint.bodyA, constraint.bodyB, point.rA, point.rB);
+      const vt = dot(dv, constraint.tangent).subtract(constraint.tangentSpeed);
+      const maxFriction = constraint.friction.multiply(point.impulse.normalImpulse);
+      const oldImpulse = point.impulse.tangentImpulse;
+      point.impulse.tangentImpulse = fixedClamp(
+        oldImpulse.subtract(point.tangentMass.multiply(vt)),
+        maxFriction.negate(),
+        maxFriction
+      );
+      const lambda = point.impulse.tangentImpulse.subtract(oldImpulse);
+      this.applyContactImpulse(constraint, point, constraint.tangent.multiply(lambda));
+    }
+
+    for (const point of constraint.points) {
+      const dv = this.relativeVelocity(constraint.bodyA, constraint.bodyB, point.rA, point.rB);
+      const vn = dot(dv, constraint.normal);
+      const oldImpulse = point.impulse.normalImpulse;
+      point.impulse.normalImpulse = fixedMax(
+        Fixed.ZERO,
+        oldImpulse.subtract(point.normalMass.multiply(vn.subtract(point.velocityBias)))
+      );
+      const lambda = point.impulse.normalImpulse.subtract(oldImpulse);
+      this.applyContactImpulse(constraint, point, constraint.normal.multiply(lambda));
+    }
+  }
+
+  /**
+   * One non-linear Gauss-Seidel pass over all contacts
+   * 对所有接触执行一次非线性高斯-赛德尔迭代
+   */
+  private solvePositions(constraints: ContactConstraint[]): boolean {
+    let minSeparation = Fixed.ZERO;
+
+    for (const constraint of constraints) {
+      const a = constraint.bodyA;
+      const b = constraint.bodyB;
+      const manifold = collideShapes(
+        constraint.contact.colliderA.shape,
+        a.getTransform(),
+        constraint.contact.colliderB.shape,
+        b.getTransform(),
+        LINEAR_SLOP
+      );
+      if (!manifold) continue;
+
+      for (const point of manifold.points) {
+        const rA = point.point.subtract(a.worldCenter);
+        const rB = point.point.subtract(b.worldCenter);
+        minSeparation = fixedMin(minSeparation, point.separation);
+
+        const c = fixedClamp(
+          BAUMGARTE.multiply(point.separation.add(LINEAR_SLOP)),
+          MAX_LINEAR_CORRECTION.negate(),
+          Fixed.ZERO
+        );
+        const rnA = cross(rA, manifold.normal);
+        const rnB = cross(rB, manifold.normal);
+        const k = a.invMass
+          .add(b.invMass)
+          .add(a.invInertia.multiply(rnA).multiply(rnA))
+          .add(b.invInertia.multiply(rnB).multiply(rnB));
+        if (k.lessThanOrEqual(Fixed.ZERO)) continue;
+
+        const impulse = manifold.normal.multiply(c.negate().divide(k));
+        a.worldCenter = a.worldCenter.subtract(impulse.multiply(a.invMass));
+        a.angle = a.angle.subtract(a.invInertia.multiply(cross(rA, impulse)));
+        a.synchronizeTransform();
+        b.worldCenter = b.worldCenter.add(impulse.multiply(b.invMass));
+        b.angle = b.angle.add(b.invInertia.multiply(cross(rB, impulse)));
+        b.synchronizeTransform();
+      }
+    }
+
+    return minSeparation.greaterThanOrEqual(LINEAR_SLOP.multiply(new Fixed(-3)));
+  }
+
+  /**
+   * Put islands of resting bodies to sleep
+   * 使静止物体组成的岛屿进入休眠
+   */
+  private updateSleep(moving: DeterministicRigidBody[], dt: Fixed): void {
+    const linearTolSq = LINEAR_SLEEP_TOLERANCE.multiply(LINEAR_SLEEP_TOLERANCE);
+    const angularTolSq = ANGULAR_SLEEP_TOLERANCE.multiply(ANGULAR_SLEEP_TOLERANCE);
+
+    for (const body of moving) {
+      const resting =
+        body.allowSleep &&
+        lengthSquared(body.linearVelocity).lessThanOrEqual(linearTolSq) &&
+        body.angularVelocity.multiply(body.angularVelocity).lessThanOrEqual(angularTolSq);
+      body.sleepTime = resting ? body.sleepTime.add(dt) : Fixed.ZERO;
+    }
+
+    // Union-find over bodies linked by touching contacts and joints
+    // 对通过接触和关节连接的物体进行并查集
+    const parent = new Map<number, number>();
+    const find = (id: number): number => {
+      let root = id;
+      while (parent.get(root) !== root) root = parent.get(root)!;
+      parent.set(id, root);
+      return root;
+    };
+    const union = (a: DeterministicRigidBody, b: DeterministicRigidBody): void => {
+      if (!parent.has(a.id) || !parent.has(b.id)) return;
+      const rootA = find(a.id);
+      const rootB = find(b.id);
+      if (rootA !== rootB) parent.set(Math.max(rootA, rootB), Math.min(rootA, rootB));
+    };
+
+    for (const body of moving) parent.set(body.id, body.id);
+    for (const contact of this.contacts.values()) {
+      if (contact.touching && !this.isSensorContact(contact)) {
+        union(contact.colliderA.getBody(), contact.colliderB.getBody());
+      }
+    }
+    for (const joint of this.joints) {
+      union(joint.getBodyA(), joint.getBodyB());
+    }
+
+    const islandSleepTime = new Map<number, Fixed>();
+    for (const body of moving) {
+      const root = find(body.id);
+      const current = islandSleepTime.get(root);
+      islandSleepTime.set(root, current ? fixedMin(current, body.sleepTime) : body.sleepTime);
+    }
+
+    for (const body of moving) {
+      const sleepTime = islandSleepTime.get(find(body.id)) ?? Fixed.ZERO;
+      if (sleepTime.greaterThanOrEqual(TIME_TO_SLEEP)) {
+        body.setAwake(false);
+      }
+    }
+  }
+
+  /**
+   * Dispatch collision events queued during the step
+   * 分发步骤中排队的碰撞事件
+   */
+  private flushEvents(): void {
+    const events = this.pendingEvents;
+    this.pendingEvents = [];
+
+    for (const event of events) {
+      const data: CollisionEventData = {
+        bodyA: event.contact.colliderA.getBody(),
+        bodyB: event.contact.colliderB.getBody(),
+        colliderA: event.contact.colliderA,
+        colliderB: event.contact.colliderB,
+        contacts: event.begin ? this.toContactPoints(event.contact) : [],
+        isBeginContact: event.begin,
+        isEndContact: !event.begin
+      };
+      for (const listener of this.listeners.slice()) {
+        listener(data);
+      }
+    }
+  }
+
+  private toContactPoints(contact: DeterministicContact): ContactPoint[] {
+    const manifold = contact.manifold;
+    if (!manifold) return [];
+
+    return manifold.points.map((point, index) => ({
+      position: point.point,
+      normal: manifold.normal,
+      normalImpulse: contact.impulses[index]?.normalImpulse ?? Fixed.ZERO,
+      tangentImpulse: contact.impulses[index]?.tangentImpulse ?? Fixed.ZERO,
+      separation: point.separation
+    }));
+  }
+
+  // IPhysicsWorld | 物理世界接口
+
+  setGravity(gravity: FixedVector2): void {
+    this.gravity = new FixedVector2(gravity.x, gravity.y);
+    for (const body of this.bodies) {
+      body.setAwake(true);
+    }
+  }
+
+  getGravity(): FixedVector2 {
+    return new FixedVector2(this.gravity.x, this.gravity.y);
+  }
+
+  *getBodies(): IterableIterator<DeterministicRigidBody> {
+    yield* this.bodies.slice();
+  }
+
+  *getColliders(): IterableIterator<DeterministicCollider> {
+    for (const body of this.bodies.slice()) {
+      yield* body.colliders.slice();
+    }
+  }
+
+  *getJoints(): IterableIterator<DeterministicJoint> {
+    yield* this.joints.slice();
+  }
+
+  *getContacts(): IterableIterator<PhysicsContact> {
+    for (const contact of Array.from(this.contacts.values())) {
+      if (!contact.touching) continue;
+      yield {
+        colliderA: contact.colliderA,
+        colliderB: contact.colliderB,
+        bodyA: contact.colliderA.getBody(),
+        bodyB: contact.colliderB.getBody(),
+        points: this.isSensorContact(contact) ? [] : this.toContactPoints(contact)
+      };
+    }
+  }
+
+  raycast(input: RaycastInput): RaycastResult[] {
+    const hits: Array<{ result: RaycastResult; distance: Fixed; id: number }> = [];
+
+    for (const body of this.bodies) {
+      if (!body.isActive()) continue;
+      const xf = body.getTransform();
+      for (const collider of body.colliders) {
+        if (input.ignoreSensors && collider.isSensor()) continue;
+        if (input.filter && !filtersCollide(input.filter, collider.getFilter())) continue;
+
+        const hit = raycastShape(collider.shape, xf, input.origin, input.direction, input.maxDistance);
+        if (hit) {
+          hits.push({
+            result: {
+              hit: true,
+              point: input.origin.add(input.direction.multiply(hit.distance)),
+              normal: hit.normal,
+              distance: hit.distance,
+              body,
+              collider
+            },
+            distance: hit.distance,
+            id: collider.id
+          });
+        } else if (!input.ignoreStartInside && testPointShape(collider.shape, xf, input.origin)) {
+          hits.push({
+            result: {
+              hit: true,
+              point: input.origin,
+              normal: new FixedVector2(),
+              distance: Fixed.ZERO,
+              body,
+              collider
+            },
+            distance: Fixed.ZERO,
+            id: collider.id
+          });
+        }
+      }
+    }
+
+    // Any mode takes hits in creation order; the others need them by distance
+    // Any模式按创建顺序获取命中；其他模式需要按距离排序
+    if (input.mode !== RaycastMode.Any) {
+      hits.sort((a, b) => {
+        if (a.distance.lessThan(b.distance)) return -1;
+        if (a.distance.greaterThan(b.distance)) return 1;
+        return a.id - b.id;
+      });
+    }
+    return resolveRaycastHits(input, hits.map(hit => hit.result));
+  }
+
+  shapeCast(input: ShapeCastInput): ShapeCastResult {
+    const parts = createQueryShapes(input.shape);
+    const xf = makeTransform(input.position, input.rotation ?? Fixed.ZERO);
+    const start = computeQueryAABB(parts, xf);
+    const sweep = {
+      lowerBound: vectorMin(start.lowerBound, start.lowerBound.add(input.translation)),
+      upperBound: vectorMax(start.upperBound, start.upperBound.add(input.translation))
+    };
+
+    let best: { hit: ShapeCastHit; collider: DeterministicCollider } | null = null;
+
+    for (const body of this.bodies) {
+      if (!body.isActive()) continue;
+      for (const collider of body.colliders) {
+        if (collider.isSensor() && !input.includeSensors) continue;
+        if (input.filter && !filtersCollide(input.filter, collider.getFilter())) continue;
+
+        collider.updateAABB();
+        if (!aabbOverlaps(sweep, collider.aabb)) continue;
+
+        let hit: ShapeCastHit | null = null;
+        for (const part of parts) {
+          const partHit = shapeCast(part, xf, input.translation, collider.shape, body.getTransform());
+          if (partHit && (!hit || partHit.fraction.lessThan(hit.fraction))) hit = partHit;
+        }
+        if (!hit) continue;
+
+        // Earliest impact wins, ties go to the lower collider id
+        // 最早的碰撞优先，并列时取较小的碰撞器ID
+        if (
+          !best ||
+          hit.fraction.lessThan(best.hit.fraction) ||
+          (hit.fraction.equals(best.hit.fraction) && collider.id < best.collider.id)
+        ) {
+          best = { hit, collider };
+        }
+      }
+    }
+
+    if (!best) {
+      return { hit: false };
+    }
+    return {
+      hit: true,
+      fraction: best.hit.fraction,
+      point: best.hit.point,
+      normal: best.hit.normal,
+      body: best.collider.getBody(),
+      collider: best.collider
+    };
+  }
+
+  queryAABB(lowerBound: FixedVector2, upperBound: FixedVector2): unknown[] {
+    const query = { lowerBound, upperBound };
+    const result: DeterministicRigidBody[] = [];
+
+    for (const body of this.bodies) {
+      if (!body.isActive()) continue;
+      for (const collider of body.colliders) {
+        collider.updateAABB();
+        if (aabbOverlaps(query, collider.aabb)) {
+          result.push(body);
+          break;
+        }
+      }
+    }
+    return result;
+  }
+
+  overlapPoint(point: FixedVector2, options: OverlapQueryOptions = {}): OverlapHit[] {
+    return this.collectOverlaps(
+      { lowerBound: point, upperBound: point },
+      options,
+      collider => testPointShape(collider.shape, collider.getBody().getTransform(), point)
+    );
+  }
+
+  overlapCircle(center: FixedVector2, radius: Fixed, options: OverlapQueryOptions = {}): OverlapHit[] {
+    return this.overlapShape({ type: ColliderType.Circle, radius }, center, Fixed.ZERO, options);
+  }
+
+  overlapShape(
+    shape: ColliderConfig,
+    position: FixedVector2,
+    rotation: Fixed,
+    options: OverlapQueryOptions = {}
+  ): OverlapHit[] {
+    const parts = createQueryShapes(shape);
+    const xf = makeTransform(position, rotation);
+    return this.collectOverlaps(
+      computeQueryAABB(parts, xf),
+      options,
+      collider => parts.some(part => shapesOverlap(part, xf, collider.shape, collider.getBody().getTransform()))
+    );
+  }
+
+  /**
+   * Collect colliders passing the filter, the AABB test and an exact test, in creation order
+   * 按创建顺序收集通过过滤器、AABB测试和精确测试的碰撞器
+   */
+  private collectOverlaps(
+    bounds: AABB,
+    options: OverlapQueryOptions,
+    test: (collider: DeterministicCollider) => boolean
+  ): OverlapHit[] {
+    const result: OverlapHit[] = [];
+
+    for (const body of this.bodies) {
+      if (!body.isActive()) continue;
+      for (const collider of body.colliders) {
+        if (collider.isSensor() && !options.includeSensors) continue;
+        if (options.filter && !filtersCollide(options.filter, collider.getFilter())) continue;
+
+        collider.updateAABB();
+        if (aabbOverlaps(bounds, collider.aabb) && test(collider)) {
+          result.push({ collider, body });
+        }
+      }
+    }
+    return result;
+  }
+
+  saveState(): Uint8Array {
+    return encodeWorldSnapshot({
+      gravity: this.gravity,
+      bodies: this.bodies.map(body => body.saveSnapshot()),
+      contacts: Array.from(this.contacts.values()).map(contact => ({
+        colliderA: contact.colliderA.id,
+        colliderB: contact.colliderB.id,
+        touching: contact.touching,
+        manifold: contact.manifold,
+        impulses: contact.impulses
+      })),
+      joints: this.joints.map(joint => joint.saveSnapshot())
+    });
+  }
+
+  restoreState(state: Uint8Array): void {
+    const snapshot = decodeWorldSnapshot(state);
+
+    // Validate everything before touching the world so a mismatch leaves it intact
+    // 在修改世界之前验证所有内容，不匹配时世界保持不变
+    if (
+      snapshot.bodies.length !== this.bodies.length ||
+      snapshot.bodies.some((body, i) => body.id !== this.bodies[i]!.id)
+    ) {
+      throw new Error('Physics snapshot bodies do not match the world');
+    }
+    if (
+      snapshot.joints.length !== this.joints.length ||
+      snapshot.joints.some((joint, i) => joint.id !== this.joints[i]!.id)
+    ) {
+      throw new Error('Physics snapshot joints do not match the world');
+    }
+
+    const colliders = new Map<number, DeterministicCollider>();
+    for (const body of this.bodies) {
+      for (const collider of body.colliders) {
+        colliders.set(collider.id, collider);
+      }
+    }
+    const contacts: DeterministicContact[] = snapshot.contacts.map(contact => {
+      const colliderA = colliders.get(contact.colliderA);
+      const colliderB = colliders.get(contact.colliderB);
+      if (!colliderA || !colliderB) {
+        throw new Error(`Physics snapshot contact ${contact.colliderA}:${contact.colliderB} references a missing collider`);
+      }
+      return {
+        key: `${colliderA.id}:${colliderB.id}`,
+        colliderA,
+        colliderB,
+        manifold: contact.manifold,
+        touching: contact.touching,
+        enabled: true,
+        impulses: contact.impulses
+      };
+    });
+
+    this.gravity = snapshot.gravity;
+    snapshot.bodies.forEach((body, i) => this.bodies[i]!.restoreSnapshot(body));
+    snapshot.joints.forEach((joint, i) => this.joints[i]!.restoreSnapshot(joint));
+    this.contacts.clear();
+    for (const contact of contacts) {
+      this.contacts.set(contact.key, contact);
+    }
+    this.pendingEvents = [];
+
+    for (const collider of colliders.values()) {
+      collider.updateAABB();
+    }
+  }
+
+  onCollision(callback: (data: CollisionEventData) => void): void {
+    this.listeners.push(callback);
+  }
+
+  offCollision(callback: (data: CollisionEventData) => void): void {
+    const index = this.listeners.indexOf(callback);
+    if (index >= 0) {
+      this.listeners.splice(index, 1);
+    }
+  }
+
+  onPreSolve(callback: (event: PreSolveEvent) => void): void {
+    this.preSolveListeners.push(callback);
+  }
+
+  offPreSolve(callback: (event: PreSolveEvent) => void): void {
+    const index = this.preSolveListeners.indexOf(callback);
+    if (index >= 0) {
+      this.preSolveListeners.splice(index, 1);
+    }
+  }
+
+  destroy(): void {
+    for (const joint of this.joints) {
+      joint.deactivate();
+    }
+    this.joints.length = 0;
+    this.contacts.clear();
+    this.bodies.length = 0;
+    this.listeners.length = 0;
+    this.preSolveListeners.length = 0;
+    this.pendingEvents = [];
+  }
+
+  getDebugDrawData(): unknown {
+    return {
+      bodyCount: this.bodies.length,
+      jointCount: this.joints.length,
+      contactCount: Array.from(this.contacts.values()).filter(contact => contact.touching).length
+    };
+  }
+}
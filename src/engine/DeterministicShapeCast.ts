@@ -0,0 +1,274 @@
+import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
+import { CircleShape, PolygonShape, Shape } from './DeterministicShapes';
+import { computeConvexHull } from '../geometry/ConvexHull';
+import {
+  Transform,
+  transformPoint,
+  negate,
+  dot,
+  cross,
+  lengthSquared,
+  length,
+  normalizeSafe
+} from './FixedMath';
+
+/**
+ * Shape cast hit in world space
+ * 世界空间中的形状投射命中
+ */
+export interface ShapeCastHit {
+  /** Time of impact as a fraction of the translation | 以位移比例表示的碰撞时间 */
+  fraction: Fixed;
+  /** Contact point | 接触点 */
+  point: FixedVector2;
+  /** Surface normal of the target shape (zero when overlapping at the start) | 目标形状的表面法线（起始时重叠则为零） */
+  normal: FixedVector2;
+}
+
+/**
+ * Convex core of a shape in world space plus its rounding radius
+ * 世界空间中形状的凸核心及其圆角半径
+ */
+interface RoundedCore {
+  vertices: FixedVector2[];
+  radius: Fixed;
+}
+
+/**
+ * Rounded Minkowski difference with outward edge normals
+ * 带向外边法线的圆角闵可夫斯基差
+ */
+interface MinkowskiDifference {
+  hull: FixedVector2[];
+  normals: FixedVector2[];
+  radius: Fixed;
+}
+
+/**
+ * Convex pieces of a shape: the segments of a chain, otherwise the shape itself
+ * 形状的凸块：链条的各条线段，其他形状为其自身
+ */
+function convexParts(shape: Shape): Array<CircleShape | PolygonShape> {
+  return shape.kind === 'chain' ? shape.segments : [shape];
+}
+
+/**
+ * Reduce a convex shape to its world-space core points and radius
+ * 将凸形状简化为世界空间中的核心点和半径
+ */
+function toCore(shape: CircleShape | PolygonShape, xf: Transform): RoundedCore {
+  if (shape.kind === 'circle') {
+    return { vertices: [transformPoint(xf, shape.center)], radius: shape.radius };
+  }
+  return { vertices: shape.vertices.map(v => transformPoint(xf, v)), radius: shape.radius };
+}
+
+/**
+ * Distance along a unit ray to a circle, or null when missed or starting inside
+ * 沿单位射线到圆的距离，未命中或起点在内部时返回null
+ */
+function rayCircle(direction: FixedVector2, maxDistance: Fixed, center: FixedVector2, radius: Fixed): Fixed | null {
+  const s = negate(center);
+  const b = dot(s, direction);
+  const c = dot(s, s).subtract(radius.multiply(radius));
+  if (b.greaterThanOrEqual(Fixed.ZERO) || c.lessThan(Fixed.ZERO)) return null;
+
+  const sigma = b.multiply(b).subtract(c);
+  if (sigma.lessThan(Fixed.ZERO)) return null;
+
+  const distance = b.negate().subtract(sigma.sqrt());
+  if (distance.lessThan(Fixed.ZERO) || distance.greaterThan(maxDistance)) return null;
+  return distance;
+}
+
+/**
+ * Whether the origin is strictly inside a rounded convex polygon
+ * 原点是否严格位于圆角凸多边形内部
+ */
+function containsOrigin(hull: FixedVector2[], normals: FixedVector2[], radius: Fixed): boolean {
+  if (hull.length >= 3 && normals.every((n, i) => dot(n, hull[i]!).greaterThan(Fixed.ZERO))) {
+    return true;
+  }
+  if (radius.lessThanOrEqual(Fixed.ZERO)) return false;
+
+  const rr = radius.multiply(radius);
+  for (let i = 0; i < hull.length; i++) {
+    const v1 = hull[i]!;
+    const v2 = hull[(i + 1) % hull.length]!;
+    const edge = v2.subtract(v1);
+    const ee = lengthSquared(edge);
+    let closest = v1;
+    if (ee.greaterThan(Fixed.ZERO)) {
+      const t = dot(negate(v1), edge);
+      if (t.greaterThanOrEqual(ee)) {
+        closest = v2;
+      } else if (t.greaterThan(Fixed.ZERO)) {
+        closest = v1.add(edge.multiply(t.divide(ee)));
+      }
+    }
+    if (lengthSquared(closest).lessThan(rr)) return true;
+  }
+  return false;
+}
+
+/**
+ * Point on a core shape furthest along a direction (first vertex wins ties)
+ * 核心形状沿某方向最远的点（并列时取第一个顶点）
+ */
+function support(core: RoundedCore, direction: FixedVector2): FixedVector2 {
+  let best = core.vertices[0]!;
+  let bestValue = dot(best, direction);
+  for (let i = 1; i < core.vertices.length; i++) {
+    const value = dot(core.vertices[i]!, direction);
+    if (value.greaterThan(bestValue)) {
+      best = core.vertices[i]!;
+      bestValue = value;
+    }
+  }
+  return best;
+}
+
+/**
+ * Rounded Minkowski difference B - A of two cores
+ * 两个核心的圆角闵可夫斯基差 B - A
+ */
+function minkowskiDifference(coreA: RoundedCore, coreB: RoundedCore): MinkowskiDifference {
+  const points: FixedVector2[] = [];
+  for (const b of coreB.vertices) {
+    for (const a of coreA.vertices) {
+      points.push(b.subtract(a));
+    }
+  }
+  const hull = computeConvexHull(points);
+  const normals = hull.length >= 2
+    ? hull.map((v, i) => {
+      const edge = hull[(i + 1) % hull.length]!.subtract(v);
+      return normalizeSafe(new FixedVector2(edge.y, edge.x.negate()));
+    })
+    : [];
+
+  return { hull, normals, radius: coreA.radius.add(coreB.radius) };
+}
+
+/**
+ * Test whether two shapes strictly overlap (touching does not count)
+ * 测试两个形状是否严格重叠（仅接触不算）
+ */
+export function shapesOverlap(shapeA: Shape, xfA: Transform, shapeB: Shape, xfB: Transform): boolean {
+  return convexParts(shapeA).some(partA => convexParts(shapeB).some(partB => {
+    const { hull, normals, radius } = minkowskiDifference(toCore(partA, xfA), toCore(partB, xfB));
+    return containsOrigin(hull, normals, radius);
+  }));
+}
+
+/**
+ * Sweep shape A along a translation against a static shape B
+ * 将形状A沿位移扫掠，与静止的形状B进行检测
+ *
+ * The sweep is a ray cast from the origin against the rounded Minkowski difference B - A.
+ * 扫掠等价于从原点对圆角闵可夫斯基差 B - A 进行射线投射。
+ */
+export function shapeCast(
+  shapeA: Shape,
+  xfA: Transform,
+  translation: FixedVector2,
+  shapeB: Shape,
+  xfB: Transform
+): ShapeCastHit | null {
+  let best: ShapeCastHit | null = null;
+  for (const partA of convexParts(shapeA)) {
+    for (const partB of convexParts(shapeB)) {
+      const hit = convexCast(partA, xfA, translation, partB, xfB);
+      if (hit && (best === null || hit.fraction.lessThan(best.fraction))) {
+        best = hit;
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Shape cast between two convex shapes
+ * 两个凸形状之间的形状投射
+ */
+function convexCast(
+  shapeA: CircleShape | PolygonShape,
+  xfA: Transform,
+  translation: FixedVector2,
+  shapeB: CircleShape | PolygonShape,
+  xfB: Transform
+): ShapeCastHit | null {
+  const coreA = toCore(shapeA, xfA);
+  const { hull, normals, radius } = minkowskiDifference(coreA, toCore(shapeB, xfB));
+
+  if (containsOrigin(hull, normals, radius)) {
+    return { fraction: Fixed.ZERO, point: xfA.p, normal: new FixedVector2() };
+  }
+
+  const maxDistance = length(translation);
+  if (maxDistance.equals(Fixed.ZERO)) return null;
+  const direction = translation.divide(maxDistance);
+
+  let distance: Fixed | null = null;
+  let normal = new FixedVector2();
+
+  // Clip against the edge planes pushed out by the radius
+  // 对按半径外推的边平面进行裁剪
+  let lower = Fixed.ZERO;
+  let upper = maxDistance;
+  let index = -1;
+  let clipped = hull.length >= 2;
+
+  for (let i = 0; clipped && i < hull.length; i++) {
+    const n = normals[i]!;
+    const numerator = dot(n, hull[i]!).add(radius);
+    const denominator = dot(n, direction);
+
+    if (denominator.equals(Fixed.ZERO)) {
+      if (numerator.lessThan(Fixed.ZERO)) clipped = false;
+    } else if (denominator.lessThan(Fixed.ZERO) && numerator.lessThanOrEqual(lower.multiply(denominator))) {
+      lower = numerator.divide(denominator);
+      index = i;
+    } else if (denominator.greaterThan(Fixed.ZERO) && numerator.lessThan(upper.multiply(denominator))) {
+      upper = numerator.divide(denominator);
+    }
+
+    if (upper.lessThan(lower)) clipped = false;
+  }
+
+  if (clipped && index >= 0) {
+    const n = normals[index]!;
+    const v1 = hull[index]!;
+    const edge = hull[(index + 1) % hull.length]!.subtract(v1);
+    const tangent = dot(direction.multiply(lower).subtract(v1), edge);
+    const onFace = tangent.greaterThanOrEqual(Fixed.ZERO) && tangent.lessThanOrEqual(lengthSquared(edge));
+    if (radius.equals(Fixed.ZERO) || onFace) {
+      distance = lower;
+      normal = n;
+    }
+  }
+
+  // Rounded corners: the ray entered a corner region, so it can only hit a vertex circle
+  // 圆角：射线进入了角区域，只可能击中顶点圆
+  if (distance === null && radius.greaterThan(Fixed.ZERO) && (clipped || hull.length < 2)) {
+    for (const v of hull) {
+      const hit = rayCircle(direction, maxDistance, v, radius);
+      if (hit !== null && (distance === null || hit.lessThan(distance))) {
+        distance = hit;
+        normal = normalizeSafe(direction.multiply(hit).subtract(v));
+      }
+    }
+  }
+
+  if (distance === null) return null;
+
+  const fraction = distance.divide(maxDistance);
+  const movedA: RoundedCore = {
+    vertices: coreA.vertices.map(v => v.add(translation.multiply(fraction))),
+    radius: coreA.radius
+  };
+  const inward = negate(normal);
+  const point = support(movedA, inward).add(inward.multiply(coreA.radius));
+
+  return { fraction, point, normal };
+}
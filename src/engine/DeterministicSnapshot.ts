@@ -0,0 +1,350 @@
+import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
+import { Manifold } from './DeterministicCollision';
+import type { ContactImpulse } from './DeterministicPhysicsWorld';
+
+/** Snapshot magic number ("NPSS") | 快照魔数（"NPSS"） */
+const SNAPSHOT_MAGIC = 0x4E505353;
+
+/** Snapshot format version | 快照格式版本 */
+const SNAPSHOT_VERSION = 1;
+
+/**
+ * Simulation state of one body
+ * 一个物体的模拟状态
+ */
+export interface BodySnapshot {
+  id: number;
+  position: FixedVector2;
+  angle: Fixed;
+  worldCenter: FixedVector2;
+  localCenter: FixedVector2;
+  linearVelocity: FixedVector2;
+  angularVelocity: Fixed;
+  force: FixedVector2;
+  torque: Fixed;
+  mass: Fixed;
+  invMass: Fixed;
+  inertia: Fixed;
+  invInertia: Fixed;
+  sleepTime: Fixed;
+  awake: boolean;
+  active: boolean;
+}
+
+/**
+ * Cached contact between two colliders
+ * 两个碰撞器之间的缓存接触
+ */
+export interface ContactSnapshot {
+  colliderA: number;
+  colliderB: number;
+  touching: boolean;
+  manifold: Manifold | null;
+  impulses: ContactImpulse[];
+}
+
+/**
+ * Solver accumulators of one joint
+ * 一个关节的求解器累积量
+ */
+export interface JointSnapshot {
+  id: number;
+  invDt: Fixed;
+  values: Fixed[];
+}
+
+/**
+ * Complete simulation state of a deterministic world
+ * 确定性世界的完整模拟状态
+ */
+export interface WorldSnapshot {
+  gravity: FixedVector2;
+  bodies: BodySnapshot[];
+  contacts: ContactSnapshot[];
+  joints: JointSnapshot[];
+}
+
+/**
+ * Little-endian binary writer for snapshot data, also used for the world system's state
+ * 快照数据的小端二进制写入器，也用于世界系统的状态
+ */
+export class SnapshotWriter {
+  private buffer = new ArrayBuffer(1024);
+  private view = new DataView(this.buffer);
+  private offset = 0;
+
+  writeUint8(value: number): void {
+    this.reserve(1);
+    this.view.setUint8(this.offset, value);
+    this.offset += 1;
+  }
+
+  writeUint32(value: number): void {
+    this.reserve(4);
+    this.view.setUint32(this.offset, value, true);
+    this.offset += 4;
+  }
+
+  /**
+   * Raw values are stored as float64, which holds any safe integer exactly
+   * 原始值以float64存储，可精确表示任意安全整数
+   */
+  writeFixed(value: Fixed): void {
+    this.reserve(8);
+    this.view.setFloat64(this.offset, value.rawValue, true);
+    this.offset += 8;
+  }
+
+  writeVector(value: FixedVector2): void {
+    this.writeFixed(value.x);
+    this.writeFixed(value.y);
+  }
+
+  writeBytes(bytes: Uint8Array): void {
+    this.writeUint32(bytes.length);
+    this.reserve(bytes.length);
+    new Uint8Array(this.buffer, this.offset, bytes.length).set(bytes);
+    this.offset += bytes.length;
+  }
+
+  toBytes(): Uint8Array {
+    return new Uint8Array(this.buffer.slice(0, this.offset));
+  }
+
+  private reserve(size: number): void {
+    if (this.offset + size <= this.buffer.byteLength) return;
+
+    let capacity = this.buffer.byteLength * 2;
+    while (capacity < this.offset + size) capacity *= 2;
+    const grown = new ArrayBuffer(capacity);
+    new Uint8Array(grown).set(new Uint8Array(this.buffer));
+    this.buffer = grown;
+    this.view = new DataView(grown);
+  }
+}
+
+/**
+ * Little-endian binary reader for snapshot data
+ * 快照数据的小端二进制读取器
+ */
+export class SnapshotReader {
+  private readonly view: DataView;
+  private offset = 0;
+
+  constructor(bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  readUint8(): number {
+    this.check(1);
+    const value = this.view.getUint8(this.offset);
+    this.offset += 1;
+    return value;
+  }
+
+  readUint32(): number {
+    this.check(4);
+    const value = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  readFixed(): Fixed {
+    this.check(8);
+    const value = Fixed.fromRaw(this.view.getFloat64(this.offset, true));
+    this.offset += 8;
+    return value;
+  }
+
+  readVector(): FixedVector2 {
+    const x = this.readFixed();
+    const y = this.readFixed();
+    return new FixedVector2(x, y);
+  }
+
+  readBytes(): Uint8Array {
+    const size = this.readUint32();
+    this.check(size);
+    const start = this.view.byteOffset + this.offset;
+    const bytes = new Uint8Array(this.view.buffer.slice(start, start + size));
+    this.offset += size;
+    return bytes;
+  }
+
+  isAtEnd(): boolean {
+    return this.offset === this.view.byteLength;
+  }
+
+  private check(size: number): void {
+    if (this.offset + size > this.view.byteLength) {
+      throw new Error('Physics snapshot is truncated');
+    }
+  }
+}
+
+/**
+ * Encode a world snapshot into its compact binary form
+ * 将世界快照编码为紧凑的二进制形式
+ */
+export function encodeWorldSnapshot(snapshot: WorldSnapshot): Uint8Array {
+  const writer = new SnapshotWriter();
+  writer.writeUint32(SNAPSHOT_MAGIC);
+  writer.writeUint8(SNAPSHOT_VERSION);
+  writer.writeVector(snapshot.gravity);
+
+  writer.writeUint32(snapshot.bodies.length);
+  for (const body of snapshot.bodies) {
+    writer.writeUint32(body.id);
+    writer.writeVector(body.position);
+    writer.writeFixed(body.angle);
+    writer.writeVector(body.worldCenter);
+    writer.writeVector(body.localCenter);
+    writer.writeVector(body.linearVelocity);
+    writer.writeFixed(body.angularVelocity);
+    writer.writeVector(body.force);
+    writer.writeFixed(body.torque);
+    writer.writeFixed(body.mass);
+    writer.writeFixed(body.invMass);
+    writer.writeFixed(body.inertia);
+    writer.writeFixed(body.invInertia);
+    writer.writeFixed(body.sleepTime);
+    writer.writeUint8((body.awake ? 1 : 0) | (body.active ? 2 : 0));
+  }
+
+  writer.writeUint32(snapshot.contacts.length);
+  for (const contact of snapshot.contacts) {
+    writer.writeUint32(contact.colliderA);
+    writer.writeUint32(contact.colliderB);
+    writer.writeUint8((contact.touching ? 1 : 0) | (contact.manifold ? 2 : 0));
+    if (contact.manifold) {
+      writer.writeVector(contact.manifold.normal);
+      writer.writeUint8(contact.manifold.points.length);
+      for (const point of contact.manifold.points) {
+        writer.writeVector(point.point);
+        writer.writeFixed(point.separation);
+        writer.writeUint32(point.id);
+      }
+    }
+    writer.writeUint8(contact.impulses.length);
+    for (const impulse of contact.impulses) {
+      writer.writeUint32(impulse.id);
+      writer.writeFixed(impulse.normalImpulse);
+      writer.writeFixed(impulse.tangentImpulse);
+    }
+  }
+
+  writer.writeUint32(snapshot.joints.length);
+  for (const joint of snapshot.joints) {
+    writer.writeUint32(joint.id);
+    writer.writeFixed(joint.invDt);
+    writer.writeUint8(joint.values.length);
+    for (const value of joint.values) {
+      writer.writeFixed(value);
+    }
+  }
+
+  return writer.toBytes();
+}
+
+/**
+ * Decode a binary world snapshot, throwing on malformed data
+ * 解码二进制世界快照，数据格式错误时抛出异常
+ */
+export function decodeWorldSnapshot(bytes: Uint8Array): WorldSnapshot {
+  const reader = new SnapshotReader(bytes);
+  if (reader.readUint32() !== SNAPSHOT_MAGIC) {
+    throw new Error('Data is not a physics snapshot');
+  }
+  const version = reader.readUint8();
+  if (version !== SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported physics snapshot version ${version}`);
+  }
+
+  const gravity = reader.readVector();
+
+  const bodies: BodySnapshot[] = [];
+  const bodyCount = reader.readUint32();
+  for (let i = 0; i < bodyCount; i++) {
+    const id = reader.readUint32();
+    const position = reader.readVector();
+    const angle = reader.readFixed();
+    const worldCenter = reader.readVector();
+    const localCenter = reader.readVector();
+    const linearVelocity = reader.readVector();
+    const angularVelocity = reader.readFixed();
+    const force = reader.readVector();
+    const torque = reader.readFixed();
+    const mass = reader.readFixed();
+    const invMass = reader.readFixed();
+    const inertia = reader.readFixed();
+    const invInertia = reader.readFixed();
+    const sleepTime = reader.readFixed();
+    const flags = reader.readUint8();
+    bodies.push({
+      id,
+      position,
+      angle,
+      worldCenter,
+      localCenter,
+      linearVelocity,
+      angularVelocity,
+      force,
+      torque,
+      mass,
+      invMass,
+      inertia,
+      invInertia,
+      sleepTime,
+      awake: (flags & 1) !== 0,
+      active: (flags & 2) !== 0
+    });
+  }
+
+  const contacts: ContactSnapshot[] = [];
+  const contactCount = reader.readUint32();
+  for (let i = 0; i < contactCount; i++) {
+    const colliderA = reader.readUint32();
+    const colliderB = reader.readUint32();
+    const flags = reader.readUint8();
+    let manifold: Manifold | null = null;
+    if ((flags & 2) !== 0) {
+      const normal = reader.readVector();
+      const points: Manifold['points'] = [];
+      const pointCount = reader.readUint8();
+      for (let j = 0; j < pointCount; j++) {
+        const point = reader.readVector();
+        const separation = reader.readFixed();
+        const id = reader.readUint32();
+        points.push({ point, separation, id });
+      }
+      manifold = { normal, points };
+    }
+    const impulses: ContactImpulse[] = [];
+    const impulseCount = reader.readUint8();
+    for (let j = 0; j < impulseCount; j++) {
+      const id = reader.readUint32();
+      const normalImpulse = reader.readFixed();
+      const tangentImpulse = reader.readFixed();
+      impulses.push({ id, normalImpulse, tangentImpulse });
+    }
+    contacts.push({ colliderA, colliderB, touching: (flags & 1) !== 0, manifold, impulses });
+  }
+
+  const joints: JointSnapshot[] = [];
+  const jointCount = reader.readUint32();
+  for (let i = 0; i < jointCount; i++) {
+    const id = reader.readUint32();
+    const invDt = reader.readFixed();
+    const values: Fixed[] = [];
+    const valueCount = reader.readUint8();
+    for (let j = 0; j < valueCount; j++) {
+      values.push(reader.readFixed());
+    }
+    joints.push({ id, invDt, values });
+  }
+
+  if (!reader.isAtEnd()) {
+    throw new Error('Physics snapshot has trailing data');
+  }
+  return { gravity, bodies, contacts, joints };
+}
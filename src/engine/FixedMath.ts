@@ -0,0 +1,235 @@
+import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
+
+/**
+ * Rotation stored as a cosine/sine pair
+ * 以余弦/正弦对存储的旋转
+ */
+export interface Rotation {
+  /** Cosine of the angle | 角度的余弦 */
+  c: Fixed;
+  /** Sine of the angle | 角度的正弦 */
+  s: Fixed;
+}
+
+/**
+ * Rigid transform (translation + rotation)
+ * 刚体变换（平移 + 旋转）
+ */
+export interface Transform {
+  /** Translation | 平移 */
+  p: FixedVector2;
+  /** Rotation | 旋转 */
+  q: Rotation;
+}
+
+/** Constant -1 | 常量 -1 */
+export const FIXED_NEG_ONE = new Fixed(-1);
+
+/** Constant 0.5 | 常量 0.5 */
+export const FIXED_HALF = new Fixed(0.5);
+
+/** Constant 2 | 常量 2 */
+export const FIXED_TWO = new Fixed(2);
+
+/** Constant 3 | 常量 3 */
+export const FIXED_THREE = new Fixed(3);
+
+/** Constant 12 | 常量 12 */
+export const FIXED_TWELVE = new Fixed(12);
+
+/** Constant PI | 常量 PI */
+export const FIXED_PI = new Fixed(Math.PI);
+
+/** Constant PI / 2 | 常量 PI / 2 */
+export const FIXED_HALF_PI = new Fixed(Math.PI / 2);
+
+/** Odd polynomial coefficients approximating atan on [0, 1] to about 1e-5 | 在 [0, 1] 上以约1e-5精度近似atan的奇次多项式系数 */
+const ATAN_COEFFICIENTS = [0.9998660, -0.3302995, 0.1801410, -0.0851330, 0.0208351].map(c => new Fixed(c));
+
+/** Identity rotation | 单位旋转 */
+export const IDENTITY_ROTATION: Rotation = { c: Fixed.ONE, s: Fixed.ZERO };
+
+/**
+ * Smaller of two fixed values
+ * 两个定点数中的较小值
+ */
+export function fixedMin(a: Fixed, b: Fixed): Fixed {
+  return a.lessThan(b) ? a : b;
+}
+
+/**
+ * Larger of two fixed values
+ * 两个定点数中的较大值
+ */
+export function fixedMax(a: Fixed, b: Fixed): Fixed {
+  return a.greaterThan(b) ? a : b;
+}
+
+/**
+ * Clamp a fixed value into [low, high]
+ * 将定点数限制在 [low, high] 范围内
+ */
+export function fixedClamp(value: Fixed, low: Fixed, high: Fixed): Fixed {
+  return fixedMax(low, fixedMin(value, high));
+}
+
+/**
+ * Angle of the vector (x, y) in radians, in [-PI, PI], from a polynomial that uses only fixed arithmetic
+ * 向量 (x, y) 的弧度角，范围 [-PI, PI]，通过仅使用定点运算的多项式计算
+ */
+export function fixedAtan2(y: Fixed, x: Fixed): Fixed {
+  const ax = x.abs();
+  const ay = y.abs();
+  if (ax.equals(Fixed.ZERO) && ay.equals(Fixed.ZERO)) return Fixed.ZERO;
+
+  const steep = ay.greaterThan(ax);
+  const t = steep ? ax.divide(ay) : ay.divide(ax);
+  const t2 = t.multiply(t);
+  let series = Fixed.ZERO;
+  for (let i = ATAN_COEFFICIENTS.length - 1; i >= 0; i--) {
+    series = series.multiply(t2).add(ATAN_COEFFICIENTS[i]!);
+  }
+
+  let angle = t.multiply(series);
+  if (steep) angle = FIXED_HALF_PI.subtract(angle);
+  if (x.lessThan(Fixed.ZERO)) angle = FIXED_PI.subtract(angle);
+  return y.lessThan(Fixed.ZERO) ? angle.negate() : angle;
+}
+
+/**
+ * Create a rotation from an angle in radians
+ * 从弧度角创建旋转
+ */
+export function makeRotation(angle: Fixed): Rotation {
+  return { c: angle.cos(), s: angle.sin() };
+}
+
+/**
+ * Create a transform from a position and an angle
+ * 从位置和角度创建变换
+ */
+export function makeTransform(position: FixedVector2, angle: Fixed): Transform {
+  return { p: position, q: makeRotation(angle) };
+}
+
+/**
+ * Negate a vector
+ * 向量取反
+ */
+export function negate(v: FixedVector2): FixedVector2 {
+  return new FixedVector2(v.x.negate(), v.y.negate());
+}
+
+/**
+ * Dot product
+ * 点积
+ */
+export function dot(a: FixedVector2, b: FixedVector2): Fixed {
+  return a.x.multiply(b.x).add(a.y.multiply(b.y));
+}
+
+/**
+ * 2D cross product of two vectors (returns a scalar)
+ * 两个向量的二维叉积（返回标量）
+ */
+export function cross(a: FixedVector2, b: FixedVector2): Fixed {
+  return a.x.multiply(b.y).subtract(a.y.multiply(b.x));
+}
+
+/**
+ * Cross product of a scalar and a vector: s × v
+ * 标量与向量的叉积：s × v
+ */
+export function crossSV(s: Fixed, v: FixedVector2): FixedVector2 {
+  return new FixedVector2(s.negate().multiply(v.y), s.multiply(v.x));
+}
+
+/**
+ * Cross product of a vector and a scalar: v × s
+ * 向量与标量的叉积：v × s
+ */
+export function crossVS(v: FixedVector2, s: Fixed): FixedVector2 {
+  return new FixedVector2(s.multiply(v.y), s.negate().multiply(v.x));
+}
+
+/**
+ * Squared length of a vector
+ * 向量长度的平方
+ */
+export function lengthSquared(v: FixedVector2): Fixed {
+  return dot(v, v);
+}
+
+/**
+ * Length of a vector
+ * 向量长度
+ */
+export function length(v: FixedVector2): Fixed {
+  return lengthSquared(v).sqrt();
+}
+
+/**
+ * Normalize a vector, returning the zero vector for degenerate input
+ * 标准化向量，退化输入返回零向量
+ */
+export function normalizeSafe(v: FixedVector2): FixedVector2 {
+  const len = length(v);
+  if (len.equals(Fixed.ZERO)) {
+    return new FixedVector2();
+  }
+  return v.divide(len);
+}
+
+/**
+ * Rotate a vector
+ * 旋转向量
+ */
+export function rotate(q: Rotation, v: FixedVector2): FixedVector2 {
+  return new FixedVector2(
+    q.c.multiply(v.x).subtract(q.s.multiply(v.y)),
+    q.s.multiply(v.x).add(q.c.multiply(v.y))
+  );
+}
+
+/**
+ * Inverse-rotate a vector
+ * 逆旋转向量
+ */
+export function inverseRotate(q: Rotation, v: FixedVector2): FixedVector2 {
+  return new FixedVector2(
+    q.c.multiply(v.x).add(q.s.multiply(v.y)),
+    q.c.multiply(v.y).subtract(q.s.multiply(v.x))
+  );
+}
+
+/**
+ * Transform a local point into world space
+ * 将本地点变换到世界空间
+ */
+export function transformPoint(xf: Transform, v: FixedVector2): FixedVector2 {
+  return xf.p.add(rotate(xf.q, v));
+}
+
+/**
+ * Transform a world point into local space
+ * 将世界点变换到本地空间
+ */
+export function inverseTransformPoint(xf: Transform, v: FixedVector2): FixedVector2 {
+  return inverseRotate(xf.q, v.subtract(xf.p));
+}
+
+/**
+ * Component-wise minimum of two vectors
+ * 两个向量的逐分量最小值
+ */
+export function vectorMin(a: FixedVector2, b: FixedVector2): FixedVector2 {
+  return new FixedVector2(fixedMin(a.x, b.x), fixedMin(a.y, b.y));
+}
+
+/**
+ * Component-wise maximum of two vectors
+ * 两个向量的逐分量最大值
+ */
+export function vectorMax(a: FixedVector2, b: FixedVector2): FixedVector2 {
+  return new FixedVector2(fixedMax(a.x, b.x), fixedMax(a.y, b.y));
+}
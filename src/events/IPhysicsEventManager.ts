@@ -11,6 +11,7 @@ import {
   JointBreakEvent,
   PhysicsStepBeginEvent,
   PhysicsStepEndEvent,
+  PhysicsChecksumEvent,
   RaycastHitEvent,
   PhysicsEvent
 } from './PhysicsEvents';
@@ -93,6 +94,12 @@ export interface IPhysicsEventManager {
    * 订阅物理步骤结束事件
    */
   onPhysicsStepEnd(listener: EventListener<PhysicsStepEndEvent>): void;
+  
+  /**
+   * Subscribe to per-step checksum events
+   * 订阅逐步校验和事件
+   */
+  onPhysicsChecksum(listener: EventListener<PhysicsChecksumEvent>): void;
 
   // Raycast events | 射线投射事件
   
@@ -178,6 +185,12 @@ export interface IPhysicsEventManager {
    */
   offPhysicsStepEnd(listener: EventListener<PhysicsStepEndEvent>): void;
   
+  /**
+   * Unsubscribe from per-step checksum events
+   * 取消订阅逐步校验和事件
+   */
+  offPhysicsChecksum(listener: EventListener<PhysicsChecksumEvent>): void;
+  
   /**
    * Unsubscribe from raycast hit events
    * 取消订阅射线投射命中事件
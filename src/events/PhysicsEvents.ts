@@ -253,7 +253,9 @@ export class PhysicsStepBeginEvent extends PhysicsEvent {
     /** Time step | 时间步长 */
     public readonly timeStep: Fixed,
     /** Step count | 步骤计数 */
-    public readonly stepCount: number
+    public readonly stepCount: number,
+    /** Tick being simulated | 正在模拟的帧 */
+    public readonly tick: number = stepCount
   ) {
     super('PhysicsStepBegin', EventPriority.Low);
   }
@@ -269,13 +271,32 @@ export class PhysicsStepEndEvent extends PhysicsEvent {
     public readonly timeStep: Fixed,
     /** Step count | 步骤计数 */
     public readonly stepCount: number,
-    /** Step duration | 步骤持续时间 */
-    public readonly duration: Fixed
+    /** Step duration in milliseconds | 步骤持续时间（毫秒） */
+    public readonly duration: Fixed,
+    /** Tick that was simulated | 已模拟的帧 */
+    public readonly tick: number = stepCount - 1
   ) {
     super('PhysicsStepEnd', EventPriority.Low);
   }
 }
 
+/**
+ * Determinism checksum computed after a fixed step
+ * 固定步骤后计算的确定性校验和
+ */
+export class PhysicsChecksumEvent extends PhysicsEvent {
+  constructor(
+    /** Step count after the step, one more than the tick | 该步之后的步骤计数，比帧号大一 */
+    public readonly stepCount: number,
+    /** Checksum of body transforms and velocities | 物体变换和速度的校验和 */
+    public readonly checksum: number,
+    /** Tick that was simulated, numbered like rollback ticks | 已模拟的帧，编号与回滚帧一致 */
+    public readonly tick: number = stepCount - 1
+  ) {
+    super('PhysicsChecksum', EventPriority.Low);
+  }
+}
+
 /**
  * Raycast hit event
  * 射线投射命中事件
@@ -0,0 +1,312 @@
+import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
+import { ChainColliderConfig, ColliderType, PolygonColliderConfig } from '../types/PhysicsTypes';
+import { decomposePolygonWithHoles } from './PolygonDecomposition';
+
+/**
+ * Options for tracing colliders from an alpha mask
+ * 从透明度遮罩追踪碰撞器的选项
+ */
+export interface AlphaMaskTraceOptions {
+  /** Pixels with a value at or above this are solid (default 0.5) | 值不小于此阈值的像素为实心（默认0.5） */
+  threshold?: number;
+  /** World size of one pixel (default 1) | 单个像素的世界尺寸（默认1） */
+  pixelSize?: Fixed;
+  /** Body-local position of the mask's top-left corner (default origin) | 遮罩左上角在本地空间中的位置（默认为原点） */
+  origin?: FixedVector2;
+  /** Maximum distance in pixels an outline may move when simplified (default 1) | 简化时轮廓允许偏移的最大像素距离（默认1） */
+  tolerance?: number;
+  /** Vertex limit per outline; tolerance is doubled until every outline fits | 每条轮廓的顶点上限；容差会不断翻倍直到所有轮廓满足上限 */
+  maxOutlineVertices?: number;
+  /** Maximum vertices per convex polygon piece, at least 3 (default 8) | 每个凸多边形块的最大顶点数，至少为3（默认8） */
+  maxPolygonVertices?: number;
+}
+
+/**
+ * Outline point in half-pixel units, y pointing down
+ * 以半像素为单位的轮廓点，y轴向下
+ */
+interface MaskPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Solid region outline with the outlines of the holes inside it
+ * 实心区域轮廓及其内部孔洞的轮廓
+ */
+interface MaskIsland {
+  outline: MaskPoint[];
+  holes: MaskPoint[][];
+}
+
+/**
+ * Trace an alpha or occupancy mask into one looped chain per outline, holes included. Outer outlines
+ * run counter-clockwise and holes clockwise, so solid pixels are always on the chain's left.
+ * The mask is `width * height` values in row-major order with row 0 at the top. Chains have no mass,
+ * so attach them to a static or kinematic body.
+ * 将透明度或占用遮罩追踪为每条轮廓（包括孔洞）一条闭合链条。外轮廓为逆时针，孔洞为顺时针，
+ * 因此实心像素始终位于链条左侧。遮罩为按行优先排列的 `width * height` 个值，第0行位于顶部。
+ * 链条没有质量，因此应附加到静态或运动学物体上。
+ */
+export function traceAlphaMaskChains(
+  mask: ArrayLike<number>,
+  width: number,
+  height: number,
+  options: AlphaMaskTraceOptions = {}
+): ChainColliderConfig[] {
+  const chains: ChainColliderConfig[] = [];
+  for (const island of traceIslands(mask, width, height, options)) {
+    for (const outline of [island.outline, ...island.holes]) {
+      chains.push({ type: ColliderType.Chain, vertices: toLocal(outline, options), loop: true });
+    }
+  }
+  return chains;
+}
+
+/**
+ * Trace an alpha or occupancy mask into convex, counter-clockwise polygon pieces, decomposing each
+ * solid region together with its holes. The pieces can be attached to one entity with a
+ * CompoundColliderComponent.
+ * 将透明度或占用遮罩追踪为逆时针的凸多边形块，每个实心区域连同其孔洞一起分解。
+ * 分解结果可以通过 CompoundColliderComponent 附加到同一个实体。
+ */
+export function traceAlphaMaskPolygons(
+  mask: ArrayLike<number>,
+  width: number,
+  height: number,
+  options: AlphaMaskTraceOptions = {}
+): PolygonColliderConfig[] {
+  const decompositionOptions = options.maxPolygonVertices !== undefined
+    ? { maxVertices: options.maxPolygonVertices }
+    : {};
+
+  const polygons: PolygonColliderConfig[] = [];
+  for (const island of traceIslands(mask, width, height, options)) {
+    polygons.push(...decomposePolygonWithHoles(
+      toLocal(island.outline, options),
+      island.holes.map(hole => toLocal(hole, options)),
+      decompositionOptions
+    ));
+  }
+  return polygons;
+}
+
+/**
+ * Trace, simplify and group the outlines of a mask
+ * 追踪、简化并分组遮罩的轮廓
+ */
+function traceIslands(
+  mask: ArrayLike<number>,
+  width: number,
+  height: number,
+  options: AlphaMaskTraceOptions
+): MaskIsland[] {
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width < 0 || height < 0) {
+    throw new Error(`Mask size must be non-negative integers, got ${width}x${height}`);
+  }
+  if (mask.length < width * height) {
+    throw new Error(`Mask has ${mask.length} values, expected ${width * height}`);
+  }
+  const tolerance = options.tolerance ?? 1;
+  if (tolerance < 0) {
+    throw new Error(`tolerance must not be negative, got ${tolerance}`);
+  }
+  const maxOutlineVertices = options.maxOutlineVertices;
+  if (maxOutlineVertices !== undefined && maxOutlineVertices < 3) {
+    throw new Error(`maxOutlineVertices must be at least 3, got ${maxOutlineVertices}`);
+  }
+
+  const threshold = options.threshold ?? 0.5;
+  const solid = (x: number, y: number): boolean =>
+    x >= 0 && y >= 0 && x < width && y < height && mask[y * width + x]! >= threshold;
+
+  const outlines: MaskPoint[][] = [];
+  for (const loop of traceLoops(solid, width, height)) {
+    let simplified = simplifyLoop(loop, tolerance * 2);
+    let current = Math.max(tolerance * 2, 1);
+    while (maxOutlineVertices !== undefined && simplified.length > maxOutlineVertices) {
+      current *= 2;
+      simplified = simplifyLoop(loop, current);
+    }
+    if (simplified.length >= 3 && doubleArea(simplified) !== 0) outlines.push(simplified);
+  }
+
+  // Outlines wind clockwise in y-down mask space around solid pixels and counter-clockwise around holes
+  const islands: MaskIsland[] = outlines
+    .filter(outline => doubleArea(outline) < 0)
+    .map(outline => ({ outline, holes: [] }));
+  for (const hole of outlines.filter(outline => doubleArea(outline) > 0)) {
+    let owner: MaskIsland | undefined;
+    for (const island of islands) {
+      if (!containsPoint(island.outline, hole[0]!)) continue;
+      if (!owner || Math.abs(doubleArea(island.outline)) < Math.abs(doubleArea(owner.outline))) {
+        owner = island;
+      }
+    }
+    owner?.holes.push(hole);
+  }
+  return islands;
+}
+
+/**
+ * Marching squares over pixel centers, with everything outside the mask empty so every outline
+ * closes. Each segment runs with solid samples on its left as seen on screen; saddle cells keep
+ * their diagonal samples apart, matching how diagonal pixels do not connect.
+ * 在像素中心上执行 marching squares，遮罩之外视为空，因此每条轮廓都会闭合。
+ * 每条线段在屏幕上看实心采样点都位于其左侧；鞍点单元格让对角的采样点保持分离，与对角像素不相连一致。
+ */
+function traceLoops(solid: (x: number, y: number) => boolean, width: number, height: number): MaskPoint[][] {
+  const segments = new Map<string, MaskPoint>();
+  const starts: MaskPoint[] = [];
+
+  for (let y = -1; y < height; y++) {
+    for (let x = -1; x < width; x++) {
+      // Corners counter-clockwise on screen: top-left, bottom-left, bottom-right, top-right
+      const corners: MaskPoint[] = [
+        { x, y },
+        { x, y: y + 1 },
+        { x: x + 1, y: y + 1 },
+        { x: x + 1, y }
+      ];
+      const inside = corners.map(c => solid(c.x, c.y));
+      const midpoint = (edge: number): MaskPoint => {
+        const a = corners[(edge + 4) % 4]!;
+        const b = corners[(edge + 5) % 4]!;
+        return { x: a.x + b.x + 1, y: a.y + b.y + 1 };
+      };
+
+      for (let i = 0; i < 4; i++) {
+        if (!inside[i] || inside[(i + 1) % 4]) continue;
+        // Leave the cell after this run of solid corners and enter it before the run starts
+        let start = i;
+        while (inside[(start + 3) % 4]) start = (start + 3) % 4;
+        const from = midpoint(i);
+        segments.set(pointKey(from), midpoint(start - 1));
+        starts.push(from);
+      }
+    }
+  }
+
+  const loops: MaskPoint[][] = [];
+  for (const start of starts) {
+    if (!segments.has(pointKey(start))) continue;
+    const loop: MaskPoint[] = [];
+    let point: MaskPoint | undefined = start;
+    while (point && segments.has(pointKey(point))) {
+      loop.push(point);
+      const next: MaskPoint | undefined = segments.get(pointKey(point));
+      segments.delete(pointKey(point));
+      point = next;
+    }
+    loops.push(loop);
+  }
+  return loops;
+}
+
+/**
+ * Douglas-Peucker simplification of a closed outline, split at its first vertex and the vertex
+ * farthest from it. A zero tolerance only drops collinear vertices.
+ * 对闭合轮廓进行 Douglas-Peucker 简化，在第一个顶点及距其最远的顶点处拆分。容差为零时只移除共线顶点。
+ */
+function simplifyLoop(loop: MaskPoint[], tolerance: number): MaskPoint[] {
+  if (loop.length <= 3) return loop;
+
+  const first = loop[0]!;
+  let far = 0;
+  loop.forEach((p, i) => {
+    if (distanceSquared(first, p) > distanceSquared(first, loop[far]!)) far = i;
+  });
+
+  const forward = simplifyPath(loop.slice(0, far + 1), tolerance);
+  const backward = simplifyPath(loop.slice(far).concat([first]), tolerance);
+  return forward.slice(0, -1).concat(backward.slice(0, -1));
+}
+
+/**
+ * Douglas-Peucker simplification of an open path, keeping both ends
+ * 对开放路径进行 Douglas-Peucker 简化，保留两端
+ */
+function simplifyPath(path: MaskPoint[], tolerance: number): MaskPoint[] {
+  const keep = path.map((_, i) => i === 0 || i === path.length - 1);
+  const ranges: Array<[number, number]> = [[0, path.length - 1]];
+
+  while (ranges.length > 0) {
+    const [from, to] = ranges.pop()!;
+    const a = path[from]!;
+    const b = path[to]!;
+    let worst = -1;
+    let worstError = tolerance * tolerance;
+    for (let i = from + 1; i < to; i++) {
+      const error = distanceToLineSquared(path[i]!, a, b);
+      if (error > worstError) {
+        worst = i;
+        worstError = error;
+      }
+    }
+    if (worst < 0) continue;
+    keep[worst] = true;
+    ranges.push([from, worst], [worst, to]);
+  }
+
+  return path.filter((_, i) => keep[i]);
+}
+
+/**
+ * Squared distance from a point to the line through a and b, or to a when they coincide
+ * 点到经过a和b的直线的距离平方，a与b重合时为到a的距离平方
+ */
+function distanceToLineSquared(p: MaskPoint, a: MaskPoint, b: MaskPoint): number {
+  const lengthSquared = distanceSquared(a, b);
+  if (lengthSquared === 0) return distanceSquared(a, p);
+  const cross = (b.x - a.x) * (p.y - a.y) - (b.y - a.y) * (p.x - a.x);
+  return (cross * cross) / lengthSquared;
+}
+
+function distanceSquared(a: MaskPoint, b: MaskPoint): number {
+  return (a.x - b.x) * (a.x - b.x) + (a.y - b.y) * (a.y - b.y);
+}
+
+/**
+ * Twice the signed area of an outline in mask space
+ * 轮廓在遮罩空间中有符号面积的两倍
+ */
+function doubleArea(outline: MaskPoint[]): number {
+  let area = 0;
+  outline.forEach((a, i) => {
+    const b = outline[(i + 1) % outline.length]!;
+    area += a.x * b.y - b.x * a.y;
+  });
+  return area;
+}
+
+/**
+ * Even-odd point in polygon test
+ * 奇偶规则的点在多边形内测试
+ */
+function containsPoint(outline: MaskPoint[], p: MaskPoint): boolean {
+  let inside = false;
+  outline.forEach((a, i) => {
+    const b = outline[(i + 1) % outline.length]!;
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < a.x + ((p.y - a.y) * (b.x - a.x)) / (b.y - a.y)) {
+      inside = !inside;
+    }
+  });
+  return inside;
+}
+
+/**
+ * Convert half-pixel mask points to body-local space, flipping y to point up
+ * 将半像素遮罩点转换到本地空间，并将y轴翻转为向上
+ */
+function toLocal(outline: MaskPoint[], options: AlphaMaskTraceOptions): FixedVector2[] {
+  const pixelSize = options.pixelSize ?? Fixed.ONE;
+  const origin = options.origin ?? new FixedVector2();
+  return outline.map(p => new FixedVector2(
+    origin.x.add(new Fixed(p.x / 2).multiply(pixelSize)),
+    origin.y.subtract(new Fixed(p.y / 2).multiply(pixelSize))
+  ));
+}
+
+function pointKey(p: MaskPoint): string {
+  return `${p.x},${p.y}`;
+}
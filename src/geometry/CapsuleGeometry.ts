@@ -0,0 +1,69 @@
+import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
+import {
+  CapsuleColliderConfig,
+  CircleColliderConfig,
+  ColliderConfig,
+  ColliderType,
+  PolygonColliderConfig
+} from '../types/PhysicsTypes';
+import { FIXED_HALF, makeRotation, rotate, normalizeSafe } from '../engine/FixedMath';
+
+/**
+ * Engine feature flag for native capsule colliders
+ * 原生胶囊碰撞器的引擎功能标识
+ */
+export const CAPSULE_COLLIDER_FEATURE = 'collider:capsule';
+
+/**
+ * Circle centers of a capsule in body-local space, with the collider offset and rotation applied.
+ * Explicit centers win over `height`; a capsule with neither has both centers at its offset.
+ * 胶囊在本地空间中的两个圆心，已应用碰撞器偏移和旋转。
+ * 显式给出的圆心优先于 `height`；两者都没有时两个圆心都位于偏移处。
+ */
+export function computeCapsuleCenters(config: CapsuleColliderConfig): [FixedVector2, FixedVector2] {
+  let center1: FixedVector2;
+  let center2: FixedVector2;
+  if (config.center1 && config.center2) {
+    center1 = config.center1;
+    center2 = config.center2;
+  } else {
+    const halfHeight = (config.height ?? Fixed.ZERO).multiply(FIXED_HALF);
+    center1 = new FixedVector2(Fixed.ZERO, halfHeight.negate());
+    center2 = new FixedVector2(Fixed.ZERO, halfHeight);
+  }
+
+  const q = makeRotation(config.rotation ?? Fixed.ZERO);
+  const translation = config.offset ?? new FixedVector2();
+  return [translation.add(rotate(q, center1)), translation.add(rotate(q, center2))];
+}
+
+/**
+ * Approximate a capsule with a rectangle polygon between the circle centers plus a circle at each end,
+ * for engines without native capsules. The parts together cover exactly the capsule; a capsule whose
+ * centers coincide becomes a single circle.
+ * 对于不支持原生胶囊的引擎，用两个圆心之间的矩形多边形加两端各一个圆来近似胶囊。
+ * 这些部分合起来恰好覆盖整个胶囊；两个圆心重合时只生成一个圆。
+ */
+export function createCapsuleFallbackShapes(config: CapsuleColliderConfig): [ColliderConfig, ...ColliderConfig[]] {
+  const [center1, center2] = computeCapsuleCenters(config);
+  const circle1: CircleColliderConfig = { type: ColliderType.Circle, radius: config.radius, offset: center1 };
+  const circle2: CircleColliderConfig = { type: ColliderType.Circle, radius: config.radius, offset: center2 };
+
+  const axis = center2.subtract(center1);
+  if (axis.x.equals(Fixed.ZERO) && axis.y.equals(Fixed.ZERO)) {
+    return [circle1];
+  }
+
+  const direction = normalizeSafe(axis);
+  const side = new FixedVector2(direction.y, direction.x.negate()).multiply(config.radius);
+  const body: PolygonColliderConfig = {
+    type: ColliderType.Polygon,
+    vertices: [
+      center1.add(side),
+      center2.add(side),
+      center2.subtract(side),
+      center1.subtract(side)
+    ]
+  };
+  return [body, circle1, circle2];
+}
@@ -0,0 +1,327 @@
+import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
+import { ColliderConfig, ColliderType } from '../types/PhysicsTypes';
+import { computeCapsuleCenters } from './CapsuleGeometry';
+import { computeHeightfieldPoints } from './HeightfieldGeometry';
+import {
+  makeTransform,
+  makeRotation,
+  rotate,
+  transformPoint,
+  inverseTransformPoint,
+  dot,
+  cross,
+  lengthSquared,
+  normalizeSafe,
+  vectorMin,
+  vectorMax
+} from '../engine/FixedMath';
+
+/**
+ * Engine feature flag for box and polygon colliders with a rounding radius
+ * 带圆角半径的盒子和多边形碰撞器的引擎功能标识
+ */
+export const ROUNDED_POLYGON_FEATURE = 'collider:rounded-polygon';
+
+/**
+ * Axis-aligned bounding box in world space
+ * 世界空间中的轴对齐包围盒
+ */
+export interface ColliderAABB {
+  /** Minimum corner | 最小角点 */
+  lowerBound: FixedVector2;
+  /** Maximum corner | 最大角点 */
+  upperBound: FixedVector2;
+}
+
+/**
+ * Vertices of a collider in body-local space, with the collider offset and rotation applied.
+ * Circles and capsules have no vertices; see computeCapsuleCenters for the capsule segment.
+ * Rounded boxes and polygons return their sharp core, which the radius surrounds.
+ * 碰撞器在本地空间中的顶点，已应用碰撞器偏移和旋转。圆形和胶囊没有顶点；胶囊的线段见 computeCapsuleCenters。
+ * 圆角盒子和多边形返回其尖角核心，圆角半径环绕在核心之外。
+ */
+export function computeColliderLocalVertices(config: ColliderConfig): FixedVector2[] {
+  switch (config.type) {
+    case ColliderType.Box: {
+      const hx = config.halfWidth;
+      const hy = config.halfHeight;
+      return applyLocalOffset(
+        [
+          new FixedVector2(hx.negate(), hy.negate()),
+          new FixedVector2(hx, hy.negate()),
+          new FixedVector2(hx, hy),
+          new FixedVector2(hx.negate(), hy)
+        ],
+        config.offset,
+        config.rotation
+      );
+    }
+    case ColliderType.Polygon:
+      return applyLocalOffset(config.vertices, config.offset, config.rotation);
+    case ColliderType.Edge:
+      return [config.start, config.end];
+    case ColliderType.Chain:
+      return config.vertices.slice();
+    case ColliderType.Heightfield:
+      return computeHeightfieldPoints(config);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Vertices of a collider in world space for a body at the given position and rotation
+ * 物体位于给定位置和旋转时碰撞器在世界空间中的顶点
+ */
+export function computeColliderWorldVertices(
+  config: ColliderConfig,
+  position: FixedVector2,
+  rotation: Fixed
+): FixedVector2[] {
+  const xf = makeTransform(position, rotation);
+  return computeColliderLocalVertices(config).map(v => transformPoint(xf, v));
+}
+
+/**
+ * World AABB of a collider for a body at the given position and rotation
+ * 物体位于给定位置和旋转时碰撞器的世界AABB
+ */
+export function computeColliderAABB(config: ColliderConfig, position: FixedVector2, rotation: Fixed): ColliderAABB {
+  const xf = makeTransform(position, rotation);
+
+  if (config.type === ColliderType.Circle) {
+    const center = transformPoint(xf, config.offset ?? new FixedVector2());
+    const extent = new FixedVector2(config.radius, config.radius);
+    return { lowerBound: center.subtract(extent), upperBound: center.add(extent) };
+  }
+  if (config.type === ColliderType.Capsule) {
+    const [local1, local2] = computeCapsuleCenters(config);
+    const center1 = transformPoint(xf, local1);
+    const center2 = transformPoint(xf, local2);
+    const extent = new FixedVector2(config.radius, config.radius);
+    return {
+      lowerBound: vectorMin(center1, center2).subtract(extent),
+      upperBound: vectorMax(center1, center2).add(extent)
+    };
+  }
+
+  const vertices = computeColliderLocalVertices(config).map(v => transformPoint(xf, v));
+  const first = vertices[0] ?? xf.p;
+  let lower = first;
+  let upper = first;
+  for (const v of vertices) {
+    lower = vectorMin(lower, v);
+    upper = vectorMax(upper, v);
+  }
+  const radius = skinRadius(config);
+  const extent = new FixedVector2(radius, radius);
+  return { lowerBound: lower.subtract(extent), upperBound: upper.add(extent) };
+}
+
+/**
+ * Test whether a world point lies inside a collider (boundary included).
+ * Polygons may be concave; edges, chains and heightfields enclose no area and only contain points on their segments.
+ * 测试世界空间中的点是否位于碰撞器内部（包括边界）。
+ * 多边形可以是凹的；边缘、链条和高度场不包含面积，仅包含其线段上的点。
+ */
+export function testPointInCollider(
+  config: ColliderConfig,
+  position: FixedVector2,
+  rotation: Fixed,
+  point: FixedVector2
+): boolean {
+  const xf = makeTransform(position, rotation);
+  const local = inverseTransformPoint(xf, point);
+
+  if (config.type === ColliderType.Circle) {
+    const center = config.offset ?? new FixedVector2();
+    return lengthSquared(local.subtract(center)).lessThanOrEqual(config.radius.multiply(config.radius));
+  }
+  if (config.type === ColliderType.Capsule) {
+    const [center1, center2] = computeCapsuleCenters(config);
+    const axisPoint = computeClosestPointOnSegment(center1, center2, local);
+    return lengthSquared(local.subtract(axisPoint)).lessThanOrEqual(config.radius.multiply(config.radius));
+  }
+
+  const vertices = computeColliderLocalVertices(config);
+  if (config.type === ColliderType.Box || config.type === ColliderType.Polygon) {
+    if (containsPoint(vertices, local)) return true;
+  }
+  const closest = closestPointOnOutline(vertices, isClosed(config), local);
+  if (closest === null) return false;
+
+  const radius = skinRadius(config);
+  if (radius.equals(Fixed.ZERO)) {
+    return closest.x.equals(local.x) && closest.y.equals(local.y);
+  }
+  return lengthSquared(local.subtract(closest)).lessThanOrEqual(radius.multiply(radius));
+}
+
+/**
+ * Closest point of a collider to a world point. Points inside a box, circle, polygon or capsule are returned
+ * unchanged; otherwise the result lies on the collider outline.
+ * 碰撞器上距离世界空间中某点最近的点。位于盒子、圆形、多边形或胶囊内部的点原样返回；否则结果位于碰撞器轮廓上。
+ */
+export function computeClosestPointOnCollider(
+  config: ColliderConfig,
+  position: FixedVector2,
+  rotation: Fixed,
+  point: FixedVector2
+): FixedVector2 {
+  const xf = makeTransform(position, rotation);
+  const local = inverseTransformPoint(xf, point);
+
+  if (config.type === ColliderType.Circle || config.type === ColliderType.Capsule) {
+    // A circle is a capsule whose segment is a single point
+    // 圆形即线段退化为一个点的胶囊
+    const center = config.type === ColliderType.Circle
+      ? config.offset ?? new FixedVector2()
+      : computeClosestPointOnSegment(...computeCapsuleCenters(config), local);
+    const offset = local.subtract(center);
+    if (lengthSquared(offset).lessThanOrEqual(config.radius.multiply(config.radius))) {
+      return new FixedVector2(point.x, point.y);
+    }
+    return transformPoint(xf, center.add(normalizeSafe(offset).multiply(config.radius)));
+  }
+
+  const vertices = computeColliderLocalVertices(config);
+  if ((config.type === ColliderType.Box || config.type === ColliderType.Polygon) && containsPoint(vertices, local)) {
+    return new FixedVector2(point.x, point.y);
+  }
+
+  const closest = closestPointOnOutline(vertices, isClosed(config), local);
+  if (!closest) return new FixedVector2(position.x, position.y);
+
+  const radius = skinRadius(config);
+  if (radius.equals(Fixed.ZERO)) return transformPoint(xf, closest);
+
+  const offset = local.subtract(closest);
+  if (lengthSquared(offset).lessThanOrEqual(radius.multiply(radius))) {
+    return new FixedVector2(point.x, point.y);
+  }
+  return transformPoint(xf, closest.add(normalizeSafe(offset).multiply(radius)));
+}
+
+/**
+ * Closest point on segment AB to point P
+ * 线段AB上距离点P最近的点
+ */
+export function computeClosestPointOnSegment(a: FixedVector2, b: FixedVector2, p: FixedVector2): FixedVector2 {
+  const edge = b.subtract(a);
+  const edgeLengthSquared = lengthSquared(edge);
+  if (edgeLengthSquared.equals(Fixed.ZERO)) return a;
+
+  const t = dot(p.subtract(a), edge).divide(edgeLengthSquared);
+  if (t.lessThanOrEqual(Fixed.ZERO)) return a;
+  if (t.greaterThanOrEqual(Fixed.ONE)) return b;
+  return a.add(edge.multiply(t));
+}
+
+/**
+ * Outline of a convex polygon of any winding grown by a rounding radius, with each corner arc
+ * approximated by `cornerSegments` segments. The result is counter-clockwise.
+ * 将任意环绕方向的凸多边形按圆角半径扩展后的轮廓，每个角的圆弧用 `cornerSegments` 段线段近似。结果为逆时针顺序。
+ */
+export function computeRoundedOutline(vertices: FixedVector2[], radius: Fixed, cornerSegments: number = 4): FixedVector2[] {
+  if (vertices.length < 3 || !radius.greaterThan(Fixed.ZERO)) return vertices.slice();
+
+  let area = Fixed.ZERO;
+  for (let i = 0; i < vertices.length; i++) {
+    area = area.add(cross(vertices[i]!, vertices[(i + 1) % vertices.length]!));
+  }
+  const ccw = area.lessThan(Fixed.ZERO) ? vertices.slice().reverse() : vertices;
+  const normals = ccw.map((v, i) => {
+    const edge = ccw[(i + 1) % ccw.length]!.subtract(v);
+    return normalizeSafe(new FixedVector2(edge.y, edge.x.negate()));
+  });
+
+  const steps = Math.max(1, Math.floor(cornerSegments));
+  const outline: FixedVector2[] = [];
+  ccw.forEach((v, i) => {
+    const from = normals[(i + ccw.length - 1) % ccw.length]!;
+    const to = normals[i]!;
+    for (let step = 0; step <= steps; step++) {
+      const t = new Fixed(step / steps);
+      const direction = normalizeSafe(from.multiply(Fixed.ONE.subtract(t)).add(to.multiply(t)));
+      outline.push(v.add(direction.multiply(radius)));
+    }
+  });
+  return outline;
+}
+
+/**
+ * Rotate then offset vertices by a collider's local transform
+ * 按碰撞器的本地变换旋转并偏移顶点
+ */
+function applyLocalOffset(vertices: FixedVector2[], offset?: FixedVector2, rotation?: Fixed): FixedVector2[] {
+  const q = makeRotation(rotation ?? Fixed.ZERO);
+  const translation = offset ?? new FixedVector2();
+  return vertices.map(v => translation.add(rotate(q, v)));
+}
+
+/**
+ * Rounding radius around a box or polygon outline, zero for every other type
+ * 盒子或多边形轮廓外的圆角半径，其他类型为零
+ */
+function skinRadius(config: ColliderConfig): Fixed {
+  if (config.type === ColliderType.Box || config.type === ColliderType.Polygon) {
+    return config.radius ?? Fixed.ZERO;
+  }
+  return Fixed.ZERO;
+}
+
+/**
+ * Whether a collider outline closes back onto its first vertex
+ * 碰撞器轮廓是否闭合回第一个顶点
+ */
+function isClosed(config: ColliderConfig): boolean {
+  switch (config.type) {
+    case ColliderType.Box:
+    case ColliderType.Polygon:
+      return true;
+    case ColliderType.Chain:
+      return config.loop ?? false;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Even-odd test of a point against a simple polygon of any winding
+ * 任意环绕方向的简单多边形的奇偶点包含测试
+ */
+function containsPoint(vertices: FixedVector2[], p: FixedVector2): boolean {
+  let inside = false;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const a = vertices[i]!;
+    const b = vertices[j]!;
+    if (a.y.greaterThan(p.y) !== b.y.greaterThan(p.y)) {
+      const x = a.x.add(p.y.subtract(a.y).multiply(b.x.subtract(a.x)).divide(b.y.subtract(a.y)));
+      if (p.x.lessThan(x)) inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Closest point on a polyline, or null when it has no vertices
+ * 折线上的最近点，没有顶点时返回null
+ */
+function closestPointOnOutline(vertices: FixedVector2[], closed: boolean, p: FixedVector2): FixedVector2 | null {
+  const first = vertices[0];
+  if (!first) return null;
+
+  let best = first;
+  let bestDistance = lengthSquared(p.subtract(first));
+  const segmentCount = closed ? vertices.length : vertices.length - 1;
+  for (let i = 0; i < segmentCount; i++) {
+    const candidate = computeClosestPointOnSegment(vertices[i]!, vertices[(i + 1) % vertices.length]!, p);
+    const distance = lengthSquared(p.subtract(candidate));
+    if (distance.lessThan(bestDistance)) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
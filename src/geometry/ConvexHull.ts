@@ -0,0 +1,48 @@
+import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
+import { cross } from '../engine/FixedMath';
+
+/**
+ * Counter-clockwise convex hull (monotone chain), dropping duplicate and collinear points.
+ * Fewer than three distinct points are returned as they are, sorted.
+ * 逆时针凸包（单调链算法），去除重复点和共线点。少于三个不同点时按排序后原样返回。
+ */
+export function computeConvexHull(points: FixedVector2[]): FixedVector2[] {
+  const sorted = points.slice().sort((a, b) => {
+    if (a.x.lessThan(b.x)) return -1;
+    if (a.x.greaterThan(b.x)) return 1;
+    if (a.y.lessThan(b.y)) return -1;
+    if (a.y.greaterThan(b.y)) return 1;
+    return 0;
+  });
+
+  const unique: FixedVector2[] = [];
+  for (const p of sorted) {
+    const last = unique[unique.length - 1];
+    if (!last || !last.x.equals(p.x) || !last.y.equals(p.y)) {
+      unique.push(p);
+    }
+  }
+  if (unique.length < 3) return unique;
+
+  const turnsLeft = (chain: FixedVector2[], p: FixedVector2): boolean => {
+    const a = chain[chain.length - 2]!;
+    const b = chain[chain.length - 1]!;
+    return cross(b.subtract(a), p.subtract(a)).greaterThan(Fixed.ZERO);
+  };
+
+  const lower: FixedVector2[] = [];
+  for (const p of unique) {
+    while (lower.length >= 2 && !turnsLeft(lower, p)) lower.pop();
+    lower.push(p);
+  }
+  const upper: FixedVector2[] = [];
+  for (let i = unique.length - 1; i >= 0; i--) {
+    const p = unique[i]!;
+    while (upper.length >= 2 && !turnsLeft(upper, p)) upper.pop();
+    upper.push(p);
+  }
+
+  lower.pop();
+  upper.pop();
+  return lower.concat(upper);
+}
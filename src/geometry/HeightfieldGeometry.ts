@@ -0,0 +1,29 @@
+import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
+import { ChainColliderConfig, ColliderType, HeightfieldColliderConfig } from '../types/PhysicsTypes';
+import { makeRotation, rotate } from '../engine/FixedMath';
+
+/**
+ * Engine feature flag for native heightfield colliders
+ * 原生高度场碰撞器的引擎功能标识
+ */
+export const HEIGHTFIELD_COLLIDER_FEATURE = 'collider:heightfield';
+
+/**
+ * Surface points of a heightfield in body-local space, with the collider offset and rotation applied
+ * 高度场表面点在本地空间中的位置，已应用碰撞器偏移和旋转
+ */
+export function computeHeightfieldPoints(config: HeightfieldColliderConfig): FixedVector2[] {
+  const q = makeRotation(config.rotation ?? Fixed.ZERO);
+  const translation = config.offset ?? new FixedVector2();
+  return config.heights.map((height, i) =>
+    translation.add(rotate(q, new FixedVector2(config.spacing.multiply(new Fixed(i)), height)))
+  );
+}
+
+/**
+ * Open chain through the samples of a heightfield, for engines without native heightfields
+ * 穿过高度场采样点的开放链条，用于不支持原生高度场的引擎
+ */
+export function createHeightfieldFallbackShape(config: HeightfieldColliderConfig): ChainColliderConfig {
+  return { type: ColliderType.Chain, vertices: computeHeightfieldPoints(config), loop: false };
+}
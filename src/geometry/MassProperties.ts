@@ -0,0 +1,158 @@
+import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
+import { ColliderConfig, ColliderType, MassData } from '../types/PhysicsTypes';
+import { createShape, computeShapeMass } from '../engine/DeterministicShapes';
+import { FIXED_HALF, FIXED_TWO, FIXED_THREE, FIXED_PI, length, lengthSquared } from '../engine/FixedMath';
+import { computeCapsuleCenters } from './CapsuleGeometry';
+import { computeHeightfieldPoints } from './HeightfieldGeometry';
+
+const FIXED_FOUR = new Fixed(4);
+
+/**
+ * Mass properties of a single collider shape
+ * 单个碰撞器形状的质量属性
+ */
+export interface ColliderMassProperties {
+  /** Area (zero for edges and chains) | 面积（边缘和链条为零） */
+  area: Fixed;
+  /** Mass, area times density | 质量，即面积乘以密度 */
+  mass: Fixed;
+  /** Centroid in body-local space, offset and rotation applied | 本地空间中的形心，已应用偏移和旋转 */
+  centroid: FixedVector2;
+  /** Rotational inertia about the centroid | 关于形心的转动惯量 */
+  inertia: Fixed;
+}
+
+/**
+ * Compute area, mass, centroid and inertia of a collider configuration for a given density.
+ * Edges, chains and heightfields have no area; their centroid is the length-weighted center of their segments.
+ * Rounded boxes and polygons are exact: core area + perimeter * radius + PI * radius^2, as in the engine.
+ * 计算给定密度下碰撞器配置的面积、质量、形心和转动惯量。
+ * 边缘、链条和高度场没有面积；其形心为各线段按长度加权的中心。圆角盒子和多边形的计算是精确的，
+ * 与引擎相同：核心面积 + 周长 * 半径 + PI * 半径^2。
+ */
+export function computeColliderMassProperties(config: ColliderConfig, density: Fixed): ColliderMassProperties {
+  switch (config.type) {
+    case ColliderType.Edge:
+      return {
+        area: Fixed.ZERO,
+        mass: Fixed.ZERO,
+        centroid: computeSegmentsCentroid([config.start, config.end], false),
+        inertia: Fixed.ZERO
+      };
+    case ColliderType.Chain:
+      return {
+        area: Fixed.ZERO,
+        mass: Fixed.ZERO,
+        centroid: computeSegmentsCentroid(config.vertices, config.loop ?? false),
+        inertia: Fixed.ZERO
+      };
+    case ColliderType.Heightfield:
+      return {
+        area: Fixed.ZERO,
+        mass: Fixed.ZERO,
+        centroid: computeSegmentsCentroid(computeHeightfieldPoints(config), false),
+        inertia: Fixed.ZERO
+      };
+    case ColliderType.Capsule:
+      return computeCapsuleMassProperties(config.radius, computeCapsuleCenters(config), density);
+    default: {
+      // Unit density keeps the area exact; scale by density afterwards
+      // 使用单位密度保证面积精确，之后再按密度缩放
+      const unit = computeShapeMass(createShape(config), Fixed.ONE);
+      const area = unit.mass;
+      const centroidInertia = unit.inertia.subtract(area.multiply(lengthSquared(unit.center)));
+      return {
+        area,
+        mass: area.multiply(density),
+        centroid: unit.center,
+        inertia: centroidInertia.multiply(density)
+      };
+    }
+  }
+}
+
+/**
+ * Combine collider mass properties into body mass data, shifting inertia to the combined center.
+ * A zero total mass yields a zero mass at the body origin.
+ * 将多个碰撞器质量属性合并为物体质量数据，并将转动惯量移动到合并后的质心。
+ * 总质量为零时返回位于物体原点的零质量。
+ */
+export function combineMassProperties(parts: ColliderMassProperties[]): MassData {
+  let mass = Fixed.ZERO;
+  let weighted = new FixedVector2();
+  for (const part of parts) {
+    mass = mass.add(part.mass);
+    weighted = weighted.add(part.centroid.multiply(part.mass));
+  }
+
+  if (!mass.greaterThan(Fixed.ZERO)) {
+    return { mass: Fixed.ZERO, center: new FixedVector2(), inertia: Fixed.ZERO };
+  }
+
+  const center = weighted.divide(mass);
+  let inertia = Fixed.ZERO;
+  for (const part of parts) {
+    // Parallel axis theorem | 平行轴定理
+    inertia = inertia.add(part.inertia).add(part.mass.multiply(lengthSquared(part.centroid.subtract(center))));
+  }
+  return { mass, center, inertia };
+}
+
+/**
+ * Mass properties of a capsule: a rectangle between the circle centers plus two half discs,
+ * each half disc shifted to the centroid with the parallel axis theorem
+ * 胶囊的质量属性：两个圆心之间的矩形加上两个半圆，每个半圆通过平行轴定理移动到形心
+ */
+function computeCapsuleMassProperties(
+  radius: Fixed,
+  [center1, center2]: [FixedVector2, FixedVector2],
+  density: Fixed
+): ColliderMassProperties {
+  const halfLength = length(center2.subtract(center1)).multiply(FIXED_HALF);
+  const radiusSquared = radius.multiply(radius);
+  const boxArea = radius.multiply(halfLength).multiply(FIXED_FOUR);
+  const discArea = FIXED_PI.multiply(radiusSquared);
+  const area = boxArea.add(discArea);
+
+  // Distance from a half disc's flat side to its centroid: 4r / 3pi
+  // 半圆平直边到其形心的距离：4r / 3pi
+  const discCentroidOffset = radius.multiply(FIXED_FOUR).divide(FIXED_THREE.multiply(FIXED_PI));
+  const boxInertia = boxArea.multiply(radiusSquared.add(halfLength.multiply(halfLength))).divide(FIXED_THREE);
+  const discInertia = discArea.multiply(
+    radiusSquared.multiply(FIXED_HALF)
+      .add(halfLength.multiply(halfLength))
+      .add(halfLength.multiply(discCentroidOffset).multiply(FIXED_TWO))
+  );
+
+  return {
+    area,
+    mass: area.multiply(density),
+    centroid: center1.add(center2).multiply(FIXED_HALF),
+    inertia: boxInertia.add(discInertia).multiply(density)
+  };
+}
+
+/**
+ * Length-weighted center of a polyline, or its first vertex when it has no length
+ * 折线按长度加权的中心，长度为零时为第一个顶点
+ */
+function computeSegmentsCentroid(vertices: FixedVector2[], loop: boolean): FixedVector2 {
+  const first = vertices[0];
+  if (!first) return new FixedVector2();
+
+  const segmentCount = loop ? vertices.length : vertices.length - 1;
+  let totalLength = Fixed.ZERO;
+  let weighted = new FixedVector2();
+  for (let i = 0; i < segmentCount; i++) {
+    const a = vertices[i]!;
+    const b = vertices[(i + 1) % vertices.length]!;
+    const segmentLength = length(b.subtract(a));
+    totalLength = totalLength.add(segmentLength);
+    weighted = weighted.add(a.add(b).multiply(FIXED_HALF.multiply(segmentLength)));
+  }
+
+  if (!totalLength.greaterThan(Fixed.ZERO)) {
+    return new FixedVector2(first.x, first.y);
+  }
+  return weighted.divide(totalLength);
+}
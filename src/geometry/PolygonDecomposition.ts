@@ -0,0 +1,388 @@
+import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
+import { ColliderType, PolygonColliderConfig } from '../types/PhysicsTypes';
+import { FIXED_HALF, cross, lengthSquared } from '../engine/FixedMath';
+
+/**
+ * Options for polygon decomposition
+ * 多边形分解选项
+ */
+export interface PolygonDecompositionOptions {
+  /** Maximum vertices per piece, at least 3 (default 8) | 每块的最大顶点数，至少为3（默认8） */
+  maxVertices?: number;
+  /** Local offset copied to every piece | 复制到每一块的本地偏移 */
+  offset?: FixedVector2;
+  /** Local rotation copied to every piece | 复制到每一块的本地旋转 */
+  rotation?: Fixed;
+}
+
+/**
+ * Decompose a simple polygon of any winding into convex, counter-clockwise polygon configs.
+ * The outline is ear-clipped into triangles, which are then greedily merged (Hertel-Mehlhorn)
+ * while the result stays convex and within the vertex limit. The pieces can be attached to one
+ * entity with a CompoundColliderComponent.
+ * 将任意环绕方向的简单多边形分解为逆时针的凸多边形配置。
+ * 先对轮廓进行耳切得到三角形，再在保持凸性且不超过顶点上限的前提下贪心合并（Hertel-Mehlhorn）。
+ * 分解结果可以通过 CompoundColliderComponent 附加到同一个实体。
+ */
+export function decomposePolygon(
+  vertices: FixedVector2[],
+  options: PolygonDecompositionOptions = {}
+): PolygonColliderConfig[] {
+  return decomposePolygonWithHoles(vertices, [], options);
+}
+
+/**
+ * Decompose a simple polygon with holes into convex, counter-clockwise polygon configs. Each hole is
+ * joined to the outline by a bridge edge, turning the shape into a single outline for ear clipping.
+ * Holes must lie inside the outline without touching it or each other; either winding is accepted.
+ * 将带孔洞的简单多边形分解为逆时针的凸多边形配置。每个孔洞通过一条桥接边与外轮廓相连，
+ * 使形状成为可以耳切的单一轮廓。孔洞必须位于外轮廓内部，且不能与外轮廓或彼此接触；接受任意环绕方向。
+ */
+export function decomposePolygonWithHoles(
+  vertices: FixedVector2[],
+  holes: FixedVector2[][],
+  options: PolygonDecompositionOptions = {}
+): PolygonColliderConfig[] {
+  const maxVertices = options.maxVertices ?? 8;
+  if (maxVertices < 3) {
+    throw new Error(`maxVertices must be at least 3, got ${maxVertices}`);
+  }
+
+  const boundary = cleanOutline(vertices);
+  if (boundary.length < 3) {
+    throw new Error('Polygon decomposition requires at least 3 non-collinear vertices');
+  }
+  if (selfIntersects(boundary)) {
+    throw new Error('Polygon is not simple: it self-intersects or overlaps itself');
+  }
+
+  const holeOutlines: FixedVector2[][] = [];
+  for (const hole of holes) {
+    const cleaned = cleanOutline(hole);
+    if (cleaned.length < 3) continue;
+    if (selfIntersects(cleaned)) {
+      throw new Error('Polygon hole is not simple: it self-intersects or overlaps itself');
+    }
+    holeOutlines.push(cleaned.reverse());
+  }
+
+  const outline = bridgeHoles(boundary, holeOutlines);
+  const pieces = mergeTriangles(outline, triangulate(outline), maxVertices);
+
+  return pieces.map(piece => {
+    const config: PolygonColliderConfig = {
+      type: ColliderType.Polygon,
+      vertices: removeCollinear(piece.map(index => outline[index]!))
+    };
+    if (options.offset) config.offset = options.offset;
+    if (options.rotation) config.rotation = options.rotation;
+    return config;
+  });
+}
+
+/**
+ * Drop repeated and collinear vertices and enforce counter-clockwise winding
+ * 去除重复和共线的顶点，并确保逆时针顺序
+ */
+function cleanOutline(vertices: FixedVector2[]): FixedVector2[] {
+  const unique: FixedVector2[] = [];
+  for (const v of vertices) {
+    const last = unique[unique.length - 1];
+    if (!last || !samePoint(last, v)) unique.push(v);
+  }
+  while (unique.length > 1 && samePoint(unique[0]!, unique[unique.length - 1]!)) {
+    unique.pop();
+  }
+
+  const outline = removeCollinear(unique);
+  return signedArea(outline).lessThan(Fixed.ZERO) ? outline.reverse() : outline;
+}
+
+/**
+ * Splice clockwise holes into a counter-clockwise outline, rightmost hole first, each through a bridge
+ * from its rightmost vertex to the nearest visible outline vertex
+ * 将顺时针的孔洞拼接到逆时针的外轮廓中，从最右侧的孔洞开始，每个孔洞通过一条从其最右顶点到最近可见轮廓顶点的桥接边相连
+ */
+function bridgeHoles(outline: FixedVector2[], holes: FixedVector2[][]): FixedVector2[] {
+  const pending = holes.map(hole => ({ hole, start: rightmostIndex(hole) }));
+  pending.sort((a, b) => compareRightmost(b.hole[b.start]!, a.hole[a.start]!));
+
+  let result = outline;
+  pending.forEach(({ hole, start }, holeIndex) => {
+    const m = hole[start]!;
+    const obstacles = [result, ...pending.slice(holeIndex).map(p => p.hole)];
+    const candidates = result
+      .map((_, index) => index)
+      .sort((a, b) => compareFixed(lengthSquared(result[a]!.subtract(m)), lengthSquared(result[b]!.subtract(m))) || a - b);
+
+    const bridge = candidates.find(index => {
+      const p = result[index]!;
+      const prev = result[(index + result.length - 1) % result.length]!;
+      const next = result[(index + 1) % result.length]!;
+      return inCorner(prev, p, next, m) && !obstacles.some(polygon => blocksBridge(polygon, m, p));
+    });
+    if (bridge === undefined) {
+      throw new Error('Polygon hole could not be connected to the outline; holes must lie inside without touching it');
+    }
+
+    const rotated = hole.slice(start).concat(hole.slice(0, start));
+    result = result.slice(0, bridge + 1).concat(rotated, [m, result[bridge]!], result.slice(bridge + 1));
+  });
+  return result;
+}
+
+/**
+ * Index of the vertex with the largest x (smallest y on ties)
+ * x最大的顶点索引（相同时取y最小者）
+ */
+function rightmostIndex(vertices: FixedVector2[]): number {
+  let best = 0;
+  for (let i = 1; i < vertices.length; i++) {
+    if (compareRightmost(vertices[i]!, vertices[best]!) > 0) best = i;
+  }
+  return best;
+}
+
+function compareRightmost(a: FixedVector2, b: FixedVector2): number {
+  return compareFixed(a.x, b.x) || compareFixed(b.y, a.y);
+}
+
+function compareFixed(a: Fixed, b: Fixed): number {
+  if (a.lessThan(b)) return -1;
+  return a.greaterThan(b) ? 1 : 0;
+}
+
+/**
+ * Whether point M lies strictly inside the interior angle of a counter-clockwise outline at P
+ * 点M是否严格位于逆时针轮廓在P处的内角之内
+ */
+function inCorner(prev: FixedVector2, p: FixedVector2, next: FixedVector2, m: FixedVector2): boolean {
+  const leftOfIncoming = orientation(prev, p, m) > 0;
+  const leftOfOutgoing = orientation(p, next, m) > 0;
+  return orientation(prev, p, next) >= 0 ? leftOfIncoming && leftOfOutgoing : leftOfIncoming || leftOfOutgoing;
+}
+
+/**
+ * Whether an edge of a polygon not ending at M or P touches the bridge MP
+ * 多边形中不以M或P为端点的边是否与桥接边MP接触
+ */
+function blocksBridge(polygon: FixedVector2[], m: FixedVector2, p: FixedVector2): boolean {
+  return polygon.some((a, i) => {
+    const b = polygon[(i + 1) % polygon.length]!;
+    if (samePoint(a, m) || samePoint(a, p) || samePoint(b, m) || samePoint(b, p)) return false;
+    return segmentsTouch(m, p, a, b);
+  });
+}
+
+/**
+ * Whether any two non-adjacent edges of an outline touch or cross
+ * 轮廓中是否有任意两条不相邻的边接触或相交
+ */
+function selfIntersects(outline: FixedVector2[]): boolean {
+  const n = outline.length;
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 2; j < n; j++) {
+      if (i === 0 && j === n - 1) continue;
+      if (segmentsTouch(outline[i]!, outline[(i + 1) % n]!, outline[j]!, outline[(j + 1) % n]!)) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * Whether segments AB and CD share at least one point
+ * 线段AB与CD是否至少有一个公共点
+ */
+function segmentsTouch(a: FixedVector2, b: FixedVector2, c: FixedVector2, d: FixedVector2): boolean {
+  const o1 = orientation(a, b, c);
+  const o2 = orientation(a, b, d);
+  const o3 = orientation(c, d, a);
+  const o4 = orientation(c, d, b);
+
+  if (o1 * o2 < 0 && o3 * o4 < 0) return true;
+  return (o1 === 0 && onSegment(a, b, c)) ||
+    (o2 === 0 && onSegment(a, b, d)) ||
+    (o3 === 0 && onSegment(c, d, a)) ||
+    (o4 === 0 && onSegment(c, d, b));
+}
+
+/**
+ * Sign of the turn A -> B -> C: 1 left, -1 right, 0 collinear
+ * A -> B -> C 转向的符号：1为左转，-1为右转，0为共线
+ */
+function orientation(a: FixedVector2, b: FixedVector2, c: FixedVector2): number {
+  const turn = cross(b.subtract(a), c.subtract(a));
+  if (turn.greaterThan(Fixed.ZERO)) return 1;
+  return turn.lessThan(Fixed.ZERO) ? -1 : 0;
+}
+
+/**
+ * Whether collinear point P lies within the bounds of segment AB
+ * 共线点P是否位于线段AB的范围内
+ */
+function onSegment(a: FixedVector2, b: FixedVector2, p: FixedVector2): boolean {
+  const minX = a.x.lessThan(b.x) ? a.x : b.x;
+  const maxX = a.x.lessThan(b.x) ? b.x : a.x;
+  const minY = a.y.lessThan(b.y) ? a.y : b.y;
+  const maxY = a.y.lessThan(b.y) ? b.y : a.y;
+  return p.x.greaterThanOrEqual(minX) && p.x.lessThanOrEqual(maxX) &&
+    p.y.greaterThanOrEqual(minY) && p.y.lessThanOrEqual(maxY);
+}
+
+/**
+ * Ear-clip a counter-clockwise outline into triangles of outline indices
+ * 将逆时针轮廓耳切为由轮廓索引组成的三角形
+ */
+function triangulate(outline: FixedVector2[]): number[][] {
+  const remaining = outline.map((_, index) => index);
+  const triangles: number[][] = [];
+
+  while (remaining.length > 3) {
+    let clipped = false;
+    for (let i = 0; i < remaining.length; i++) {
+      const prev = remaining[(i + remaining.length - 1) % remaining.length]!;
+      const current = remaining[i]!;
+      const next = remaining[(i + 1) % remaining.length]!;
+      if (!isEar(outline, remaining, prev, current, next)) continue;
+
+      triangles.push([prev, current, next]);
+      remaining.splice(i, 1);
+      clipped = true;
+      break;
+    }
+
+    if (!clipped) {
+      throw new Error('Polygon is not simple: it self-intersects or overlaps itself');
+    }
+  }
+
+  triangles.push(remaining);
+  return triangles;
+}
+
+/**
+ * Whether the corner at `current` is convex and contains no other remaining vertex
+ * `current` 处的角是否为凸角且不包含其他剩余顶点
+ */
+function isEar(outline: FixedVector2[], remaining: number[], prev: number, current: number, next: number): boolean {
+  const a = outline[prev]!;
+  const b = outline[current]!;
+  const c = outline[next]!;
+  if (!cross(b.subtract(a), c.subtract(b)).greaterThan(Fixed.ZERO)) return false;
+
+  for (const index of remaining) {
+    if (index === prev || index === current || index === next) continue;
+    const p = outline[index]!;
+    if (samePoint(p, a) || samePoint(p, b) || samePoint(p, c)) continue;
+    if (
+      cross(b.subtract(a), p.subtract(a)).greaterThanOrEqual(Fixed.ZERO) &&
+      cross(c.subtract(b), p.subtract(b)).greaterThanOrEqual(Fixed.ZERO) &&
+      cross(a.subtract(c), p.subtract(c)).greaterThanOrEqual(Fixed.ZERO)
+    ) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Greedily remove diagonals between pieces while the merged piece stays convex and small enough
+ * 在合并后的块保持凸性且足够小的前提下贪心移除块之间的对角线
+ */
+function mergeTriangles(outline: FixedVector2[], triangles: number[][], maxVertices: number): number[][] {
+  const pieces = triangles.map(triangle => triangle.slice());
+
+  let merged = true;
+  while (merged) {
+    merged = false;
+    for (let i = 0; i < pieces.length && !merged; i++) {
+      for (let j = i + 1; j < pieces.length && !merged; j++) {
+        const candidate = mergePieces(pieces[i]!, pieces[j]!);
+        if (!candidate || !isConvex(outline, candidate)) continue;
+        if (removeCollinear(candidate.map(index => outline[index]!)).length > maxVertices) continue;
+
+        pieces[i] = candidate;
+        pieces.splice(j, 1);
+        merged = true;
+      }
+    }
+  }
+  return pieces;
+}
+
+/**
+ * Join two counter-clockwise pieces across a shared edge, or null when they share none
+ * 沿共享边连接两个逆时针的块，没有共享边时返回null
+ */
+function mergePieces(a: number[], b: number[]): number[] | null {
+  for (let i = 0; i < a.length; i++) {
+    const from = a[i]!;
+    const to = a[(i + 1) % a.length]!;
+    for (let j = 0; j < b.length; j++) {
+      if (b[j] !== to || b[(j + 1) % b.length] !== from) continue;
+
+      // Walk A from `to` back round to `from`, then B's vertices strictly between `from` and `to`
+      // 从 `to` 沿A走回 `from`，再加上B中严格位于 `from` 与 `to` 之间的顶点
+      const result: number[] = [];
+      for (let k = 0; k < a.length; k++) result.push(a[(i + 1 + k) % a.length]!);
+      for (let k = 2; k < b.length; k++) result.push(b[(j + k) % b.length]!);
+      return result;
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether a piece turns left or goes straight at every vertex
+ * 块在每个顶点处是否均为左转或直行
+ */
+function isConvex(outline: FixedVector2[], piece: number[]): boolean {
+  for (let i = 0; i < piece.length; i++) {
+    const a = outline[piece[i]!]!;
+    const b = outline[piece[(i + 1) % piece.length]!]!;
+    const c = outline[piece[(i + 2) % piece.length]!]!;
+    if (cross(b.subtract(a), c.subtract(b)).lessThan(Fixed.ZERO)) return false;
+  }
+  return true;
+}
+
+/**
+ * Drop vertices that lie on the line through their neighbours
+ * 去除位于相邻顶点连线上的顶点
+ */
+function removeCollinear(vertices: FixedVector2[]): FixedVector2[] {
+  let result = vertices;
+  let changed = true;
+  while (changed && result.length > 2) {
+    changed = false;
+    for (let i = 0; i < result.length; i++) {
+      const prev = result[(i + result.length - 1) % result.length]!;
+      const current = result[i]!;
+      const next = result[(i + 1) % result.length]!;
+      if (cross(current.subtract(prev), next.subtract(current)).equals(Fixed.ZERO)) {
+        result = result.filter((_, index) => index !== i);
+        changed = true;
+        break;
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Signed area of a polygon (positive for counter-clockwise winding)
+ * 多边形的有符号面积（逆时针为正）
+ */
+function signedArea(vertices: FixedVector2[]): Fixed {
+  let area = Fixed.ZERO;
+  for (let i = 0; i < vertices.length; i++) {
+    area = area.add(cross(vertices[i]!, vertices[(i + 1) % vertices.length]!));
+  }
+  return area.multiply(FIXED_HALF);
+}
+
+function samePoint(a: FixedVector2, b: FixedVector2): boolean {
+  return a.x.equals(b.x) && a.y.equals(b.y);
+}
@@ -0,0 +1,541 @@
+import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
+import { ColliderConfig, ColliderType, CollisionFilter } from '../types/PhysicsTypes';
+import { CompoundColliderShape } from '../components/PhysicsComponents';
+import { FIXED_HALF } from '../engine/FixedMath';
+
+/**
+ * Kind of colliders generated for solid tiles
+ * 为实心瓦片生成的碰撞器类型
+ */
+export enum TilemapColliderMode {
+  /** One closed chain per region outline, holes included, traced across chunk borders | 每个区域轮廓（包括孔洞）一条闭合链条，跨区块边界追踪 */
+  Chains = 'chains',
+  /** Greedily merged boxes | 贪心合并的盒子 */
+  Boxes = 'boxes'
+}
+
+/**
+ * Options for generating tilemap colliders
+ * 生成瓦片地图碰撞器的选项
+ */
+export interface TilemapColliderOptions {
+  /** Width of one tile | 单个瓦片的宽度 */
+  tileWidth: Fixed;
+  /** Height of one tile | 单个瓦片的高度 */
+  tileHeight: Fixed;
+  /** Kind of colliders to generate | 要生成的碰撞器类型 */
+  mode: TilemapColliderMode;
+  /** Body-local position of the map's top-left corner (default origin) | 地图左上角在本地空间中的位置（默认为原点） */
+  origin?: FixedVector2;
+  /** Tiles per chunk side; a change only rebuilds the shapes touching its chunk (default 16) | 每个区块边长的瓦片数；修改只会重建与所在区块相交的形状（默认16） */
+  chunkSize?: number;
+  /** Collision filter per tile value; other tiles use the compound's filter | 按瓦片值指定的碰撞过滤器；其他瓦片使用复合碰撞器的过滤器 */
+  filters?: Record<number, CollisionFilter>;
+}
+
+/**
+ * Shape changes produced by a rebuild
+ * 重建产生的形状变化
+ */
+export interface TilemapColliderUpdate {
+  /** Ids of shapes to remove | 需要移除的形状ID */
+  removed: string[];
+  /** Shapes to add | 需要添加的形状 */
+  added: CompoundColliderShape[];
+}
+
+/**
+ * Outline edge between grid vertices, walked with the solid tile on its left
+ * 网格顶点之间的轮廓边，沿边行走时实心瓦片位于左侧
+ */
+interface OutlineEdge {
+  fromColumn: number;
+  fromRow: number;
+  toColumn: number;
+  toRow: number;
+  used: boolean;
+}
+
+/**
+ * Tiles and generated shapes of one region traced in chains mode
+ * 链条模式下追踪的单个区域的瓦片和生成的形状
+ */
+interface TilemapRegion {
+  /** Tile indices, row * columns + column | 瓦片索引，即 行 * 列数 + 列 */
+  tiles: number[];
+  /** Ids of the region's chains | 区域链条的ID */
+  shapeIds: string[];
+}
+
+/**
+ * Generates merged colliders for a static tile grid, to be attached to one static body with a
+ * CompoundColliderComponent. Tile value 0 is empty; any other value is solid, and only tiles with
+ * the same value are merged so each value can have its own filter. Row 0 is the top row.
+ * Boxes are generated per chunk, so editing tiles only rebuilds the chunks that changed. Chains follow
+ * each region of touching same-value tiles across chunk borders, so a continuous floor gets no seam,
+ * and editing tiles retraces only the regions touching the changed chunks.
+ * 为静态瓦片网格生成合并后的碰撞器，通过 CompoundColliderComponent 附加到同一个静态物体上。
+ * 瓦片值0表示空；其他值均为实心，且只合并值相同的瓦片，因此每个值都可以有自己的过滤器。第0行为最上方一行。
+ * 盒子按区块生成，修改瓦片时只重建发生变化的区块。链条沿着相接的同值瓦片区域跨越区块边界，
+ * 因此连续的地面不会出现接缝，修改瓦片时只重新追踪与变化区块相交的区域。
+ */
+export class TilemapColliderGenerator {
+  /** Number of columns | 列数 */
+  public readonly columns: number;
+
+  /** Number of rows | 行数 */
+  public readonly rows: number;
+
+  private readonly tiles: number[][];
+  private readonly options: TilemapColliderOptions;
+  private readonly chunkSize: number;
+  private readonly origin: FixedVector2;
+
+  /** Shape ids currently generated for each chunk in boxes mode | 盒子模式下每个区块当前生成的形状ID */
+  private readonly chunkShapeIds = new Map<string, string[]>();
+
+  /** Region id of each tile in chains mode, 0 for none | 链条模式下每个瓦片所属的区域ID，无区域时为0 */
+  private readonly tileRegions: number[];
+
+  /** Regions traced in chains mode by id | 链条模式下按ID索引的已追踪区域 */
+  private readonly regions = new Map<number, TilemapRegion>();
+
+  private nextRegionId = 1;
+
+  /** Chunks waiting for a rebuild | 等待重建的区块 */
+  private readonly dirtyChunks = new Set<string>();
+
+  constructor(tiles: number[][], options: TilemapColliderOptions) {
+    const chunkSize = options.chunkSize ?? 16;
+    if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+      throw new Error(`Tilemap chunk size must be a positive integer, got ${chunkSize}`);
+    }
+    if (!options.tileWidth.greaterThan(Fixed.ZERO) || !options.tileHeight.greaterThan(Fixed.ZERO)) {
+      throw new Error('Tilemap tile width and height must be greater than zero');
+    }
+
+    this.rows = tiles.length;
+    this.columns = tiles.reduce((max, row) => Math.max(max, row.length), 0);
+    this.tiles = tiles.map(row => {
+      const copy = row.slice();
+      while (copy.length < this.columns) copy.push(0);
+      return copy;
+    });
+    this.options = options;
+    this.chunkSize = chunkSize;
+    this.origin = options.origin ?? new FixedVector2();
+    this.tileRegions = new Array<number>(this.rows * this.columns).fill(0);
+  }
+
+  /**
+   * Get a tile value, 0 outside the grid
+   * 获取瓦片值，网格外为0
+   */
+  getTile(column: number, row: number): number {
+    return this.tiles[row]?.[column] ?? 0;
+  }
+
+  /**
+   * Change a tile and mark its chunk for rebuild
+   * 修改瓦片并将其所在区块标记为待重建
+   */
+  setTile(column: number, row: number, value: number): void {
+    const tileRow = this.tiles[row];
+    if (!tileRow || column < 0 || column >= this.columns) {
+      throw new Error(`Tile (${column}, ${row}) is outside the ${this.columns}x${this.rows} tilemap`);
+    }
+    if (tileRow[column] === value) return;
+
+    tileRow[column] = value;
+    this.markDirty(column, row);
+  }
+
+  /**
+   * Mark every chunk touching a region of tiles for rebuild
+   * 将与瓦片区域相交的所有区块标记为待重建
+   */
+  markDirty(column: number, row: number, width: number = 1, height: number = 1): void {
+    const firstChunkX = Math.max(0, Math.floor(column / this.chunkSize));
+    const firstChunkY = Math.max(0, Math.floor(row / this.chunkSize));
+    const lastChunkX = Math.min(this.chunkCountX() - 1, Math.floor((column + width - 1) / this.chunkSize));
+    const lastChunkY = Math.min(this.chunkCountY() - 1, Math.floor((row + height - 1) / this.chunkSize));
+    for (let chunkY = firstChunkY; chunkY <= lastChunkY; chunkY++) {
+      for (let chunkX = firstChunkX; chunkX <= lastChunkX; chunkX++) {
+        this.dirtyChunks.add(chunkKey(chunkX, chunkY));
+      }
+    }
+  }
+
+  /**
+   * Whether any chunk is waiting for a rebuild
+   * 是否有区块等待重建
+   */
+  hasChanges(): boolean {
+    return this.dirtyChunks.size > 0;
+  }
+
+  /**
+   * Generate the shapes of the whole map, forgetting any previously generated shapes
+   * 生成整张地图的形状，并丢弃之前生成的形状记录
+   */
+  build(): CompoundColliderShape[] {
+    this.chunkShapeIds.clear();
+    this.regions.clear();
+    this.tileRegions.fill(0);
+    this.nextRegionId = 1;
+    this.markDirty(0, 0, this.columns, this.rows);
+    return this.rebuild().added;
+  }
+
+  /**
+   * Regenerate the chunks marked for rebuild. Apply the update by removing the old shapes before adding the new ones.
+   * 重新生成标记为待重建的区块。应用更新时需先移除旧形状再添加新形状。
+   */
+  rebuild(): TilemapColliderUpdate {
+    const keys = Array.from(this.dirtyChunks).sort(compareChunkKeys);
+    this.dirtyChunks.clear();
+    if (this.options.mode === TilemapColliderMode.Chains) {
+      return this.rebuildRegions(keys);
+    }
+
+    const update: TilemapColliderUpdate = { removed: [], added: [] };
+    for (const key of keys) {
+      update.removed.push(...(this.chunkShapeIds.get(key) ?? []));
+      const [chunkX, chunkY] = key.split(',').map(Number) as [number, number];
+      const shapes = this.buildChunk(chunkX, chunkY);
+      this.chunkShapeIds.set(key, shapes.map(shape => shape.id));
+      update.added.push(...shapes);
+    }
+    return update;
+  }
+
+  /**
+   * Retrace every region touching the given chunks. A region reaching past them is retraced whole,
+   * along with any old region it merges with or splits from.
+   * 重新追踪与给定区块相交的所有区域。超出这些区块的区域会被整体重新追踪，与其合并或从中分离的旧区域也一并处理。
+   */
+  private rebuildRegions(keys: string[]): TilemapColliderUpdate {
+    const queue: number[] = [];
+    for (const key of keys) {
+      const [chunkX, chunkY] = key.split(',').map(Number) as [number, number];
+      const rowEnd = Math.min(this.rows, (chunkY + 1) * this.chunkSize);
+      const columnEnd = Math.min(this.columns, (chunkX + 1) * this.chunkSize);
+      for (let row = chunkY * this.chunkSize; row < rowEnd; row++) {
+        for (let column = chunkX * this.chunkSize; column < columnEnd; column++) {
+          queue.push(row * this.columns + column);
+        }
+      }
+    }
+
+    // Grow the set until no old region overlaps a new one only partly
+    // 不断扩展，直到没有旧区域只与新区域部分重叠
+    const removedRegions = new Set<number>();
+    const assigned = new Set<number>();
+    const components: number[][] = [];
+    for (let i = 0; i < queue.length; i++) {
+      const tile = queue[i]!;
+      const oldRegion = this.tileRegions[tile]!;
+      if (oldRegion !== 0 && !removedRegions.has(oldRegion)) {
+        removedRegions.add(oldRegion);
+        for (const regionTile of this.regions.get(oldRegion)!.tiles) queue.push(regionTile);
+      }
+      if (!assigned.has(tile) && this.tileValue(tile) !== 0) {
+        const component = this.floodRegion(tile, assigned);
+        components.push(component);
+        for (const componentTile of component) queue.push(componentTile);
+      }
+    }
+
+    const update: TilemapColliderUpdate = { removed: [], added: [] };
+    for (const id of Array.from(removedRegions).sort((a, b) => a - b)) {
+      const region = this.regions.get(id)!;
+      update.removed.push(...region.shapeIds);
+      for (const tile of region.tiles) {
+        if (this.tileRegions[tile] === id) this.tileRegions[tile] = 0;
+      }
+      this.regions.delete(id);
+    }
+
+    for (const tiles of components) {
+      const id = this.nextRegionId++;
+      const shapes = this.traceRegion(id, tiles);
+      for (const tile of tiles) this.tileRegions[tile] = id;
+      this.regions.set(id, { tiles, shapeIds: shapes.map(shape => shape.id) });
+      update.added.push(...shapes);
+    }
+    return update;
+  }
+
+  /**
+   * Collect the tiles with the same value connected to a tile through an edge or a corner, in index order
+   * 按索引顺序收集通过边或角与某个瓦片相连的同值瓦片
+   */
+  private floodRegion(start: number, assigned: Set<number>): number[] {
+    const value = this.tileValue(start);
+    const tiles: number[] = [];
+    const stack = [start];
+    assigned.add(start);
+    while (stack.length > 0) {
+      const tile = stack.pop()!;
+      tiles.push(tile);
+      const column = tile % this.columns;
+      const row = Math.floor(tile / this.columns);
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const x = column + dx;
+          const y = row + dy;
+          if (x < 0 || x >= this.columns || y < 0 || y >= this.rows) continue;
+          const neighbor = y * this.columns + x;
+          if (!assigned.has(neighbor) && this.tileValue(neighbor) === value) {
+            assigned.add(neighbor);
+            stack.push(neighbor);
+          }
+        }
+      }
+    }
+    return tiles.sort((a, b) => a - b);
+  }
+
+  /**
+   * Trace the chains of one region
+   * 追踪单个区域的链条
+   */
+  private traceRegion(id: number, tiles: number[]): CompoundColliderShape[] {
+    const members = new Set(tiles);
+    let columnStart = this.columns;
+    let columnEnd = 0;
+    for (const tile of tiles) {
+      columnStart = Math.min(columnStart, tile % this.columns);
+      columnEnd = Math.max(columnEnd, tile % this.columns + 1);
+    }
+    const rowStart = Math.floor(tiles[0]! / this.columns);
+    const rowEnd = Math.floor(tiles[tiles.length - 1]! / this.columns) + 1;
+    const isValue = (column: number, row: number): boolean =>
+      column >= columnStart && column < columnEnd && row >= rowStart && row < rowEnd &&
+      members.has(row * this.columns + column);
+
+    const filter = this.options.filters?.[this.tileValue(tiles[0]!)];
+    return this.traceChains(isValue, columnStart, rowStart, columnEnd, rowEnd).map((config, index) => {
+      const shape: CompoundColliderShape = { id: `region:${id}:${index}`, config };
+      if (filter) shape.filter = filter;
+      return shape;
+    });
+  }
+
+  /**
+   * Generate the boxes of one chunk, grouped by tile value in ascending order
+   * 生成单个区块的盒子，按瓦片值升序分组
+   */
+  private buildChunk(chunkX: number, chunkY: number): CompoundColliderShape[] {
+    const columnStart = chunkX * this.chunkSize;
+    const rowStart = chunkY * this.chunkSize;
+    const columnEnd = Math.min(this.columns, columnStart + this.chunkSize);
+    const rowEnd = Math.min(this.rows, rowStart + this.chunkSize);
+    const inChunk = (column: number, row: number): boolean =>
+      column >= columnStart && column < columnEnd && row >= rowStart && row < rowEnd;
+
+    const values = new Set<number>();
+    for (let row = rowStart; row < rowEnd; row++) {
+      for (let column = columnStart; column < columnEnd; column++) {
+        const value = this.getTile(column, row);
+        if (value !== 0) values.add(value);
+      }
+    }
+
+    const shapes: CompoundColliderShape[] = [];
+    for (const value of Array.from(values).sort((a, b) => a - b)) {
+      const isValue = (column: number, row: number): boolean => inChunk(column, row) && this.getTile(column, row) === value;
+      const configs = this.mergeBoxes(isValue, columnStart, rowStart, columnEnd, rowEnd);
+
+      const filter = this.options.filters?.[value];
+      for (const config of configs) {
+        const shape: CompoundColliderShape = { id: `${chunkKey(chunkX, chunkY)}:${shapes.length}`, config };
+        if (filter) shape.filter = filter;
+        shapes.push(shape);
+      }
+    }
+    return shapes;
+  }
+
+  /**
+   * Cover the tiles with boxes, growing each box right then down
+   * 用盒子覆盖瓦片，每个盒子先向右再向下扩展
+   */
+  private mergeBoxes(
+    isValue: (column: number, row: number) => boolean,
+    columnStart: number,
+    rowStart: number,
+    columnEnd: number,
+    rowEnd: number
+  ): ColliderConfig[] {
+    const covered = new Set<string>();
+    const free = (column: number, row: number): boolean => isValue(column, row) && !covered.has(`${column},${row}`);
+    const configs: ColliderConfig[] = [];
+
+    for (let row = rowStart; row < rowEnd; row++) {
+      for (let column = columnStart; column < columnEnd; column++) {
+        if (!free(column, row)) continue;
+
+        let width = 1;
+        while (free(column + width, row)) width++;
+        let height = 1;
+        while (rangeFree(free, column, width, row + height)) height++;
+
+        for (let y = row; y < row + height; y++) {
+          for (let x = column; x < column + width; x++) covered.add(`${x},${y}`);
+        }
+
+        const halfWidth = this.options.tileWidth.multiply(new Fixed(width)).multiply(FIXED_HALF);
+        const halfHeight = this.options.tileHeight.multiply(new Fixed(height)).multiply(FIXED_HALF);
+        configs.push({
+          type: ColliderType.Box,
+          halfWidth,
+          halfHeight,
+          offset: this.gridPoint(column, row).add(new FixedVector2(halfWidth, halfHeight.negate()))
+        });
+      }
+    }
+    return configs;
+  }
+
+  /**
+   * Trace closed outlines around the tiles: counter-clockwise around solid regions, clockwise around holes
+   * 追踪瓦片的闭合轮廓：实心区域外侧为逆时针，孔洞为顺时针
+   */
+  private traceChains(
+    isValue: (column: number, row: number) => boolean,
+    columnStart: number,
+    rowStart: number,
+    columnEnd: number,
+    rowEnd: number
+  ): ColliderConfig[] {
+    const outgoing = new Map<string, OutlineEdge[]>();
+    const edges: OutlineEdge[] = [];
+    const addEdge = (fromColumn: number, fromRow: number, toColumn: number, toRow: number): void => {
+      const edge: OutlineEdge = { fromColumn, fromRow, toColumn, toRow, used: false };
+      edges.push(edge);
+      const key = `${fromColumn},${fromRow}`;
+      const list = outgoing.get(key);
+      if (list) list.push(edge); else outgoing.set(key, [edge]);
+    };
+
+    // Boundary edges of each tile, wound so the tile is on the left (y up)
+    // 每个瓦片的边界边，方向使瓦片位于左侧（y轴向上）
+    for (let row = rowStart; row < rowEnd; row++) {
+      for (let column = columnStart; column < columnEnd; column++) {
+        if (!isValue(column, row)) continue;
+        if (!isValue(column, row + 1)) addEdge(column, row + 1, column + 1, row + 1);
+        if (!isValue(column + 1, row)) addEdge(column + 1, row + 1, column + 1, row);
+        if (!isValue(column, row - 1)) addEdge(column + 1, row, column, row);
+        if (!isValue(column - 1, row)) addEdge(column, row, column, row + 1);
+      }
+    }
+
+    const configs: ColliderConfig[] = [];
+    for (const start of edges) {
+      if (start.used) continue;
+
+      const loop: OutlineEdge[] = [];
+      let edge: OutlineEdge | undefined = start;
+      while (edge) {
+        edge.used = true;
+        loop.push(edge);
+        if (edge.toColumn === start.fromColumn && edge.toRow === start.fromRow) break;
+        edge = nextOutlineEdge(edge, outgoing.get(`${edge.toColumn},${edge.toRow}`) ?? []);
+      }
+
+      configs.push({
+        type: ColliderType.Chain,
+        vertices: removeStraightCorners(loop).map(e => this.gridPoint(e.fromColumn, e.fromRow)),
+        loop: true
+      });
+    }
+    return configs;
+  }
+
+  /**
+   * Body-local position of a grid vertex
+   * 网格顶点在本地空间中的位置
+   */
+  private gridPoint(column: number, row: number): FixedVector2 {
+    return new FixedVector2(
+      this.origin.x.add(this.options.tileWidth.multiply(new Fixed(column))),
+      this.origin.y.subtract(this.options.tileHeight.multiply(new Fixed(row)))
+    );
+  }
+
+  private tileValue(index: number): number {
+    return this.tiles[Math.floor(index / this.columns)]![index % this.columns]!;
+  }
+
+  private chunkCountX(): number {
+    return Math.ceil(this.columns / this.chunkSize);
+  }
+
+  private chunkCountY(): number {
+    return Math.ceil(this.rows / this.chunkSize);
+  }
+}
+
+function chunkKey(chunkX: number, chunkY: number): string {
+  return `${chunkX},${chunkY}`;
+}
+
+/**
+ * Order chunk keys row by row
+ * 按行对区块键排序
+ */
+function compareChunkKeys(a: string, b: string): number {
+  const [ax, ay] = a.split(',').map(Number) as [number, number];
+  const [bx, by] = b.split(',').map(Number) as [number, number];
+  return ay - by || ax - bx;
+}
+
+/**
+ * Whether `width` tiles starting at a column of a row are all free
+ * 某行从指定列开始的 `width` 个瓦片是否都可用
+ */
+function rangeFree(free: (column: number, row: number) => boolean, column: number, width: number, row: number): boolean {
+  for (let x = column; x < column + width; x++) {
+    if (!free(x, row)) return false;
+  }
+  return true;
+}
+
+/**
+ * Pick the unused edge leaving a vertex, preferring a left turn so regions touching
+ * only at a corner get separate outlines
+ * 选择从顶点出发的未使用边，优先左转，使仅在角点相接的区域得到各自独立的轮廓
+ */
+function nextOutlineEdge(incoming: OutlineEdge, candidates: OutlineEdge[]): OutlineEdge | undefined {
+  // Directions in y-up space | y轴向上空间中的方向
+  const dx = incoming.toColumn - incoming.fromColumn;
+  const dy = incoming.fromRow - incoming.toRow;
+
+  let best: OutlineEdge | undefined;
+  let bestTurn = -2;
+  for (const candidate of candidates) {
+    if (candidate.used) continue;
+    const cx = candidate.toColumn - candidate.fromColumn;
+    const cy = candidate.fromRow - candidate.toRow;
+    // 1 for left, 0 for straight, -1 for right | 左转为1，直行为0，右转为-1
+    const turn = Math.sign(dx * cy - dy * cx);
+    if (turn > bestTurn) {
+      best = candidate;
+      bestTurn = turn;
+    }
+  }
+  return best;
+}
+
+/**
+ * Drop loop edges that continue in the same direction as the previous edge
+ * 去除与前一条边方向相同的环边
+ */
+function removeStraightCorners(loop: OutlineEdge[]): OutlineEdge[] {
+  return loop.filter((edge, i) => {
+    const previous = loop[(i + loop.length - 1) % loop.length]!;
+    return Math.sign(edge.toColumn - edge.fromColumn) !== Math.sign(previous.toColumn - previous.fromColumn) ||
+      Math.sign(edge.toRow - edge.fromRow) !== Math.sign(previous.toRow - previous.fromRow);
+  });
+}
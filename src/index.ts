@@ -12,7 +12,9 @@ export {
   IRigidBody,
   ICollider,
   IJoint,
-  IPhysicsEngineFactory
+  IPhysicsEngineFactory,
+  OverlapHit,
+  PhysicsContact
 } from './interfaces/IPhysicsEngine';
 
 // Types
@@ -27,12 +29,25 @@ export {
   PolygonColliderConfig,
   EdgeColliderConfig,
   ChainColliderConfig,
+  CapsuleColliderConfig,
+  HeightfieldColliderConfig,
   PhysicsMaterial,
+  OneWayPlatformConfig,
+  MassData,
   CollisionFilter,
   ContactPoint,
   CollisionEventData,
   RaycastInput,
   RaycastResult,
+  RaycastMode,
+  RaycastHitAction,
+  ShapeCastInput,
+  ShapeCastResult,
+  OverlapQueryOptions,
+  PhysicsInterpolationMode,
+  PhysicsOverflowPolicy,
+  PhysicsSteppingMode,
+  PhysicsFrameStats,
   JointType,
   BaseJointConfig
 } from './types/PhysicsTypes';
@@ -60,9 +75,15 @@ export {
 export {
   RigidBodyComponent,
   ColliderComponent,
+  CompoundColliderComponent,
+  CompoundColliderShape,
   JointComponent,
   PhysicsTransformComponent,
-  CollisionEventComponent
+  CollisionEventComponent,
+  CollisionColliderIds,
+  PhysicsWorldIdComponent,
+  PhysicsRenderTransformComponent,
+  DEFAULT_PHYSICS_WORLD_ID
 } from './components/PhysicsComponents';
 
 // Systems
@@ -70,15 +91,56 @@ export {
   PhysicsWorldSystem,
   PhysicsBodySystem,
   PhysicsColliderSystem,
-  PhysicsJointSystem
+  PhysicsCompoundColliderSystem,
+  PhysicsJointSystem,
+  PhysicsStepCallback,
+  CollisionCallbackFilter
 } from './systems/PhysicsSystems';
 
+export {
+  PhysicsRollbackSystem,
+  PhysicsRollbackConfig,
+  RollbackEventMode,
+  RollbackForce
+} from './systems/PhysicsRollbackSystem';
+
+export {
+  PhysicsInterpolationSystem
+} from './systems/PhysicsInterpolationSystem';
+
 // Plugins
 export {
   BasePhysicsPlugin,
-  PhysicsPluginConfig
+  PhysicsPluginConfig,
+  PhysicsWorldDefinition
 } from './plugins/BasePhysicsPlugin';
 
+// Deterministic engine
+export {
+  DeterministicPhysicsEngine,
+  DeterministicPhysicsEngineFactory,
+  DETERMINISTIC_ENGINE_FEATURES
+} from './engine/DeterministicPhysicsEngine';
+
+export {
+  DeterministicPhysicsWorld
+} from './engine/DeterministicPhysicsWorld';
+
+export {
+  DeterministicRigidBody,
+  DeterministicCollider
+} from './engine/DeterministicBody';
+
+export {
+  DeterministicJoint,
+  DeterministicDistanceJoint,
+  DeterministicRevoluteJoint
+} from './engine/DeterministicJoints';
+
+export {
+  DeterministicPhysicsPlugin
+} from './plugins/DeterministicPhysicsPlugin';
+
 // Events
 export {
   PhysicsEvent,
@@ -93,6 +155,7 @@ export {
   JointBreakEvent,
   PhysicsStepBeginEvent,
   PhysicsStepEndEvent,
+  PhysicsChecksumEvent,
   RaycastHitEvent
 } from './events/PhysicsEvents';
 
@@ -114,11 +177,119 @@ export {
   BasePhysicsDebugRenderer
 } from './debug/BasePhysicsDebugRenderer';
 
+// Geometry
+export {
+  ColliderMassProperties,
+  computeColliderMassProperties,
+  combineMassProperties
+} from './geometry/MassProperties';
+
+export {
+  ROUNDED_POLYGON_FEATURE,
+  ColliderAABB,
+  computeColliderLocalVertices,
+  computeColliderWorldVertices,
+  computeColliderAABB,
+  testPointInCollider,
+  computeClosestPointOnCollider,
+  computeClosestPointOnSegment,
+  computeRoundedOutline
+} from './geometry/ColliderGeometry';
+
+export {
+  CAPSULE_COLLIDER_FEATURE,
+  computeCapsuleCenters,
+  createCapsuleFallbackShapes
+} from './geometry/CapsuleGeometry';
+
+export {
+  HEIGHTFIELD_COLLIDER_FEATURE,
+  computeHeightfieldPoints,
+  createHeightfieldFallbackShape
+} from './geometry/HeightfieldGeometry';
+
+export {
+  computeConvexHull
+} from './geometry/ConvexHull';
+
+export {
+  PolygonDecompositionOptions,
+  decomposePolygon,
+  decomposePolygonWithHoles
+} from './geometry/PolygonDecomposition';
+
+export {
+  TilemapColliderMode,
+  TilemapColliderOptions,
+  TilemapColliderUpdate,
+  TilemapColliderGenerator
+} from './geometry/TilemapColliderGenerator';
+
+export {
+  AlphaMaskTraceOptions,
+  traceAlphaMaskChains,
+  traceAlphaMaskPolygons
+} from './geometry/AlphaMaskTracer';
+
+// Validation
+export {
+  ValidationSeverity,
+  ValidationIssueCode,
+  ValidationIssue,
+  ValidationResult,
+  formatValidationIssue
+} from './validation/ValidationTypes';
+
+export {
+  ColliderValidationOptions,
+  validateColliderConfig
+} from './validation/ColliderConfigValidator';
+
+export {
+  validateJointConfig
+} from './validation/JointConfigValidator';
+
 // Utilities
 export {
   PhysicsLogger
 } from './utils/Logger';
 
+export {
+  resolveRaycastHits
+} from './utils/RaycastUtils';
+
+export {
+  DEFAULT_ONE_WAY_TOLERANCE,
+  shouldPassOneWayPlatform
+} from './utils/OneWayPlatform';
+
+export {
+  SURFACE_SPEED_FEATURE,
+  hasSurfaceSpeed
+} from './utils/SurfaceSpeed';
+
+export {
+  PhysicsChecksum,
+  PhysicsChecksumHistory,
+  computeBodiesChecksum
+} from './utils/PhysicsChecksum';
+
+// Testing
+export {
+  MockPhysicsEngine,
+  MockPhysicsEngineFactory,
+  MockPhysicsWorld,
+  MockRigidBody,
+  MockCollider,
+  MockJoint,
+  MockPhysicsCall,
+  MockBodyMatcher,
+  MockColliderMatcher,
+  MockJointMatcher,
+  MockOverlapQuery,
+  MockBodyState
+} from './testing/MockPhysicsEngine';
+
 // Re-export commonly used types from dependencies
 export type { Component, System, Entity, World, BasePlugin } from '@esengine/nova-ecs';
 export type { Fixed, FixedVector2, FixedMatrix2x2 } from '@esengine/nova-ecs-math';
@@ -7,9 +7,15 @@ import {
   CollisionFilter,
   RaycastInput,
   RaycastResult,
+  ShapeCastInput,
+  ShapeCastResult,
+  OverlapQueryOptions,
   BaseJointConfig,
-  CollisionEventData
+  CollisionEventData,
+  ContactPoint,
+  MassData
 } from '../types/PhysicsTypes';
+import type { PreSolveEvent } from '../events/PhysicsEvents';
 
 /**
  * Physics world interface
@@ -28,14 +34,54 @@ export interface IPhysicsWorld {
   /** Perform raycast | 执行射线投射 */
   raycast(input: RaycastInput): RaycastResult[];
   
+  /** Sweep a shape and return the first hit | 扫掠形状并返回第一个命中 */
+  shapeCast(input: ShapeCastInput): ShapeCastResult;
+  
   /** Query bodies in AABB | 查询AABB中的物体 */
   queryAABB(lowerBound: FixedVector2, upperBound: FixedVector2): unknown[];
   
+  /** Find colliders containing a point | 查找包含某点的碰撞器 */
+  overlapPoint(point: FixedVector2, options?: OverlapQueryOptions): OverlapHit[];
+  
+  /** Find colliders overlapping a circle | 查找与圆重叠的碰撞器 */
+  overlapCircle(center: FixedVector2, radius: Fixed, options?: OverlapQueryOptions): OverlapHit[];
+  
+  /** Find colliders overlapping a shape | 查找与形状重叠的碰撞器 */
+  overlapShape(shape: ColliderConfig, position: FixedVector2, rotation: Fixed, options?: OverlapQueryOptions): OverlapHit[];
+  
+  /** Save the complete simulation state | 保存完整的模拟状态 */
+  saveState(): Uint8Array;
+  
+  /** Restore a state saved from this world with the same bodies, colliders and joints | 恢复此世界保存的状态（物体、碰撞器和关节须相同） */
+  restoreState(state: Uint8Array): void;
+  
+  /** Iterate over all bodies | 遍历所有物体 */
+  getBodies(): IterableIterator<IRigidBody>;
+  
+  /** Iterate over the colliders of all bodies | 遍历所有物体的碰撞器 */
+  getColliders(): IterableIterator<ICollider>;
+  
+  /** Iterate over all joints | 遍历所有关节 */
+  getJoints(): IterableIterator<IJoint>;
+  
+  /** Iterate over touching contacts | 遍历正在接触的接触 */
+  getContacts(): IterableIterator<PhysicsContact>;
+  
   /** Add collision event listener | 添加碰撞事件监听器 */
   onCollision(callback: (data: CollisionEventData) => void): void;
   
   /** Remove collision event listener | 移除碰撞事件监听器 */
   offCollision(callback: (data: CollisionEventData) => void): void;
+
+  /**
+   * Add a listener called synchronously for each touching contact before it is solved; a listener
+   * that calls disableProcessing() skips the contact for this step. Optional for engines.
+   * 添加在每个接触被求解前同步调用的监听器；调用 disableProcessing() 的监听器会让该接触在本步被跳过。引擎可选实现。
+   */
+  onPreSolve?(callback: (event: PreSolveEvent) => void): void;
+
+  /** Remove pre-solve listener | 移除预解决监听器 */
+  offPreSolve?(callback: (event: PreSolveEvent) => void): void;
   
   /** Destroy the world | 销毁世界 */
   destroy(): void;
@@ -94,6 +140,15 @@ export interface IRigidBody {
   /** Set mass | 设置质量 */
   setMass(mass: Fixed): void;
   
+  /** Get mass, local center of mass and inertia | 获取质量、本地质心和转动惯量 */
+  getMassData(): MassData;
+  
+  /** Override mass, local center of mass and inertia | 覆盖质量、本地质心和转动惯量 */
+  setMassData(massData: MassData): void;
+  
+  /** Recompute mass data from the attached colliders | 根据附加的碰撞器重新计算质量数据 */
+  resetMassData(): void;
+  
   /** Get whether body is awake | 获取物体是否唤醒 */
   isAwake(): boolean;
   
@@ -112,6 +167,15 @@ export interface IRigidBody {
   /** Set user data | 设置用户数据 */
   setUserData(data: unknown): void;
   
+  /** Get attached colliders | 获取附加的碰撞器 */
+  getColliders(): ICollider[];
+  
+  /** Get joints connected to this body | 获取连接到此物体的关节 */
+  getJoints(): IJoint[];
+  
+  /** Get touching contacts involving this body | 获取涉及此物体的正在接触的接触 */
+  getContacts(): PhysicsContact[];
+  
   /** Destroy the body | 销毁物体 */
   destroy(): void;
 }
@@ -147,11 +211,45 @@ export interface ICollider {
   
   /** Set user data | 设置用户数据 */
   setUserData(data: unknown): void;
+
+  /**
+   * Replace heightfield samples in place from `start` on; when omitted the collider is rebuilt instead
+   * 从 `start` 开始原地替换高度场采样；省略时改为重建碰撞器
+   */
+  setHeights?(start: number, heights: Fixed[]): void;
   
   /** Destroy the collider | 销毁碰撞器 */
   destroy(): void;
 }
 
+/**
+ * Collider found by an overlap query
+ * 重叠查询找到的碰撞器
+ */
+export interface OverlapHit {
+  /** Overlapping collider | 重叠的碰撞器 */
+  collider: ICollider;
+  /** Body owning the collider | 拥有该碰撞器的物体 */
+  body: IRigidBody;
+}
+
+/**
+ * Touching contact between two colliders
+ * 两个碰撞器之间正在发生的接触
+ */
+export interface PhysicsContact {
+  /** First collider | 第一个碰撞器 */
+  colliderA: ICollider;
+  /** Second collider | 第二个碰撞器 */
+  colliderB: ICollider;
+  /** Body owning the first collider | 拥有第一个碰撞器的物体 */
+  bodyA: IRigidBody;
+  /** Body owning the second collider | 拥有第二个碰撞器的物体 */
+  bodyB: IRigidBody;
+  /** Contact points, empty for sensors | 接触点，传感器为空 */
+  points: ContactPoint[];
+}
+
 /**
  * Joint interface
  * 关节接口
@@ -1,13 +1,28 @@
 import { BasePlugin, World, PluginPriority } from '@esengine/nova-ecs';
 import { FixedVector2, Fixed } from '@esengine/nova-ecs-math';
 import { IPhysicsEngine, IPhysicsEngineFactory } from '../interfaces/IPhysicsEngine';
-import { PhysicsWorldConfig } from '../types/PhysicsTypes';
+import { PhysicsWorldConfig, PhysicsOverflowPolicy, PhysicsSteppingMode } from '../types/PhysicsTypes';
 import {
   PhysicsWorldSystem,
   PhysicsBodySystem,
   PhysicsColliderSystem,
+  PhysicsCompoundColliderSystem,
   PhysicsJointSystem
 } from '../systems/PhysicsSystems';
+import { PhysicsInterpolationSystem } from '../systems/PhysicsInterpolationSystem';
+
+/**
+ * Additional physics world created by the plugin
+ * 由插件创建的附加物理世界
+ */
+export interface PhysicsWorldDefinition {
+  /** Id matched against PhysicsWorldIdComponent | 与 PhysicsWorldIdComponent 匹配的ID */
+  id: string;
+  /** World configuration, merged over the main world's | 世界配置，覆盖主世界的配置 */
+  worldConfig?: Partial<PhysicsWorldConfig>;
+  /** Fixed time step, the plugin's when omitted | 固定时间步长，省略时使用插件的设置 */
+  fixedTimeStep?: Fixed | number;
+}
 
 /**
  * Configuration for physics plugin
@@ -20,10 +35,18 @@ export interface PhysicsPluginConfig {
   fixedTimeStep?: Fixed | number;
   /** Maximum sub-steps per frame | 每帧最大子步数 */
   maxSubSteps?: number;
+  /** Handling of leftover time at the sub-step limit | 达到子步上限时剩余时间的处理方式 */
+  overflowPolicy?: PhysicsOverflowPolicy;
+  /** Step from frame time or from host-driven ticks | 按帧时间步进或由宿主驱动帧 */
+  steppingMode?: PhysicsSteppingMode;
   /** Whether to enable debug rendering | 是否启用调试渲染 */
   enableDebugRender?: boolean;
   /** Auto-create physics systems | 自动创建物理系统 */
   autoCreateSystems?: boolean;
+  /** Compute a determinism checksum after every step | 每步之后计算确定性校验和 */
+  enableChecksum?: boolean;
+  /** Additional worlds, each with its own engine and step rate | 附加世界，每个都有自己的引擎和步进频率 */
+  worlds?: PhysicsWorldDefinition[];
 }
 
 /**
@@ -39,15 +62,24 @@ export abstract class BasePhysicsPlugin extends BasePlugin {
   
   /** Physics world system | 物理世界系统 */
   protected worldSystem: PhysicsWorldSystem | null = null;
+
+  /** World systems of the additional worlds | 附加世界的世界系统 */
+  protected additionalWorldSystems: PhysicsWorldSystem[] = [];
   
   /** Physics body system | 物理刚体系统 */
   protected bodySystem: PhysicsBodySystem | null = null;
   
   /** Physics collider system | 物理碰撞器系统 */
   protected colliderSystem: PhysicsColliderSystem | null = null;
+
+  /** Physics compound collider system | 物理复合碰撞器系统 */
+  protected compoundColliderSystem: PhysicsCompoundColliderSystem | null = null;
   
   /** Physics joint system | 物理关节系统 */
   protected jointSystem: PhysicsJointSystem | null = null;
+
+  /** Render interpolation system | 渲染插值系统 */
+  protected interpolationSystem: PhysicsInterpolationSystem | null = null;
   
   /** Plugin configuration | 插件配置 */
   protected config: PhysicsPluginConfig;
@@ -77,8 +109,11 @@ export abstract class BasePhysicsPlugin extends BasePlugin {
       },
       fixedTimeStep: 1/60,
       maxSubSteps: 10,
+      overflowPolicy: PhysicsOverflowPolicy.Clamp,
+      steppingMode: PhysicsSteppingMode.Accumulated,
       enableDebugRender: false,
       autoCreateSystems: true,
+      enableChecksum: false,
       ...config
     };
   }
@@ -130,6 +165,11 @@ export abstract class BasePhysicsPlugin extends BasePlugin {
         world.removeSystem(this.worldSystem);
         this.worldSystem = null;
       }
+
+      for (const worldSystem of this.additionalWorldSystems) {
+        world.removeSystem(worldSystem);
+      }
+      this.additionalWorldSystems = [];
       
       if (this.bodySystem) {
         world.removeSystem(this.bodySystem);
@@ -140,11 +180,21 @@ export abstract class BasePhysicsPlugin extends BasePlugin {
         world.removeSystem(this.colliderSystem);
         this.colliderSystem = null;
       }
+
+      if (this.compoundColliderSystem) {
+        world.removeSystem(this.compoundColliderSystem);
+        this.compoundColliderSystem = null;
+      }
       
       if (this.jointSystem) {
         world.removeSystem(this.jointSystem);
         this.jointSystem = null;
       }
+
+      if (this.interpolationSystem) {
+        world.removeSystem(this.interpolationSystem);
+        this.interpolationSystem = null;
+      }
       
       // Destroy engine
       if (this.engine) {
@@ -174,19 +224,61 @@ export abstract class BasePhysicsPlugin extends BasePlugin {
       worldConfig,
       this.config.fixedTimeStep
     );
+    this.configureWorldSystem(this.worldSystem);
     world.addSystem(this.worldSystem);
+
+    // Create additional world systems, each with its own engine
+    const worldIds = new Set([this.worldSystem.getWorldId()]);
+    for (const definition of this.config.worlds ?? []) {
+      if (worldIds.has(definition.id)) {
+        throw new Error(`Duplicate physics world id '${definition.id}'`);
+      }
+      worldIds.add(definition.id);
+
+      const worldSystem = new PhysicsWorldSystem(
+        this.engineFactory.createEngine(),
+        { ...worldConfig, ...definition.worldConfig },
+        definition.fixedTimeStep ?? this.config.fixedTimeStep,
+        definition.id
+      );
+      this.configureWorldSystem(worldSystem);
+      world.addSystem(worldSystem);
+      this.additionalWorldSystems.push(worldSystem);
+    }
+
+    const worldSystems = [this.worldSystem, ...this.additionalWorldSystems];
     
     // Create body system
-    this.bodySystem = new PhysicsBodySystem(this.worldSystem);
+    this.bodySystem = new PhysicsBodySystem(worldSystems);
     world.addSystem(this.bodySystem);
     
     // Create collider system
-    this.colliderSystem = new PhysicsColliderSystem(this.worldSystem);
+    this.colliderSystem = new PhysicsColliderSystem(worldSystems);
     world.addSystem(this.colliderSystem);
+
+    // Create compound collider system
+    this.compoundColliderSystem = new PhysicsCompoundColliderSystem(worldSystems);
+    world.addSystem(this.compoundColliderSystem);
     
     // Create joint system
-    this.jointSystem = new PhysicsJointSystem(this.worldSystem);
+    this.jointSystem = new PhysicsJointSystem(worldSystems);
     world.addSystem(this.jointSystem);
+
+    // Create interpolation system after the world systems
+    this.interpolationSystem = new PhysicsInterpolationSystem(worldSystems);
+    world.addSystem(this.interpolationSystem);
+  }
+
+  /**
+   * Apply the plugin's stepping options to a world system
+   * 将插件的步进选项应用到世界系统
+   */
+  protected configureWorldSystem(worldSystem: PhysicsWorldSystem): void {
+    worldSystem.setSupportedFeatures(this.engineFactory.getSupportedFeatures());
+    worldSystem.setMaxSubSteps(this.config.maxSubSteps ?? 10);
+    worldSystem.setOverflowPolicy(this.config.overflowPolicy ?? PhysicsOverflowPolicy.Clamp);
+    worldSystem.setSteppingMode(this.config.steppingMode ?? PhysicsSteppingMode.Accumulated);
+    worldSystem.setChecksumEnabled(this.config.enableChecksum ?? false);
   }
 
   /**
@@ -198,11 +290,14 @@ export abstract class BasePhysicsPlugin extends BasePlugin {
   }
 
   /**
-   * Get the physics world system
-   * 获取物理世界系统
+   * Get the physics world system, or the one of the world with the given id
+   * 获取物理世界系统，或指定ID世界的物理世界系统
    */
-  getWorldSystem(): PhysicsWorldSystem | null {
-    return this.worldSystem;
+  getWorldSystem(worldId?: string): PhysicsWorldSystem | null {
+    if (worldId === undefined || this.worldSystem?.getWorldId() === worldId) {
+      return this.worldSystem;
+    }
+    return this.additionalWorldSystems.find(system => system.getWorldId() === worldId) ?? null;
   }
 
   /**
@@ -221,6 +316,14 @@ export abstract class BasePhysicsPlugin extends BasePlugin {
     return this.colliderSystem;
   }
 
+  /**
+   * Get the physics compound collider system
+   * 获取物理复合碰撞器系统
+   */
+  getCompoundColliderSystem(): PhysicsCompoundColliderSystem | null {
+    return this.compoundColliderSystem;
+  }
+
   /**
    * Get the physics joint system
    * 获取物理关节系统
@@ -229,6 +332,14 @@ export abstract class BasePhysicsPlugin extends BasePlugin {
     return this.jointSystem;
   }
 
+  /**
+   * Get the render interpolation system
+   * 获取渲染插值系统
+   */
+  getInterpolationSystem(): PhysicsInterpolationSystem | null {
+    return this.interpolationSystem;
+  }
+
   /**
    * Update plugin (called every frame)
    * 更新插件（每帧调用）
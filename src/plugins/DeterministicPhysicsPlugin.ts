@@ -0,0 +1,12 @@
+import { BasePhysicsPlugin, PhysicsPluginConfig } from './BasePhysicsPlugin';
+import { DeterministicPhysicsEngineFactory } from '../engine/DeterministicPhysicsEngine';
+
+/**
+ * Physics plugin backed by the built-in deterministic engine
+ * 由内置确定性引擎支持的物理插件
+ */
+export class DeterministicPhysicsPlugin extends BasePhysicsPlugin {
+  constructor(config: PhysicsPluginConfig = {}) {
+    super('DeterministicPhysics', '1.0.0', new DeterministicPhysicsEngineFactory(), config);
+  }
+}
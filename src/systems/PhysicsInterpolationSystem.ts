@@ -0,0 +1,60 @@
+import { System, Entity } from '@esengine/nova-ecs';
+import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
+import {
+  PhysicsTransformComponent,
+  PhysicsRenderTransformComponent
+} from '../components/PhysicsComponents';
+import { PhysicsInterpolationMode } from '../types/PhysicsTypes';
+import { PhysicsWorldSystem } from './PhysicsSystems';
+
+/**
+ * Writes interpolated or extrapolated transforms into PhysicsRenderTransformComponent.
+ * Add it after the world systems so it sees the alpha of the current frame.
+ * 将插值或外推后的变换写入 PhysicsRenderTransformComponent。
+ * 需在世界系统之后添加，以便读取当前帧的插值系数。
+ */
+export class PhysicsInterpolationSystem extends System {
+  /** World systems providing the interpolation alpha | 提供插值系数的世界系统 */
+  private worldSystems: PhysicsWorldSystem[];
+
+  constructor(worldSystems: PhysicsWorldSystem | PhysicsWorldSystem[]) {
+    super([PhysicsTransformComponent, PhysicsRenderTransformComponent]);
+    this.worldSystems = Array.isArray(worldSystems) ? worldSystems.slice() : [worldSystems];
+  }
+
+  /**
+   * Interpolate entities of another world system as well
+   * 同时对另一个世界系统的实体进行插值
+   */
+  addWorldSystem(worldSystem: PhysicsWorldSystem): void {
+    if (!this.worldSystems.includes(worldSystem)) {
+      this.worldSystems.push(worldSystem);
+    }
+  }
+
+  update(entities: Entity[], _deltaTime: number): void {
+    for (const entity of entities) {
+      const transform = entity.getComponent(PhysicsTransformComponent);
+      const render = entity.getComponent(PhysicsRenderTransformComponent);
+      if (!transform || !render) continue;
+
+      const worldSystem = this.worldSystems.find(system => system.ownsEntity(entity));
+      const alpha = worldSystem?.getInterpolationAlpha() ?? Fixed.ONE;
+
+      switch (render.mode) {
+        case PhysicsInterpolationMode.Interpolate:
+          render.position = transform.getInterpolatedPosition(alpha);
+          render.rotation = transform.getInterpolatedRotation(alpha);
+          break;
+        case PhysicsInterpolationMode.Extrapolate:
+          render.position = transform.getExtrapolatedPosition(alpha);
+          render.rotation = transform.getExtrapolatedRotation(alpha);
+          break;
+        default:
+          render.position = new FixedVector2(transform.position.x, transform.position.y);
+          render.rotation = transform.rotation;
+          break;
+      }
+    }
+  }
+}
@@ -0,0 +1,324 @@
+import { System, Entity, World } from '@esengine/nova-ecs';
+import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
+import { IRigidBody } from '../interfaces/IPhysicsEngine';
+import { PhysicsWorldSystem, CollisionCallbackFilter } from './PhysicsSystems';
+import { PhysicsLogger } from '../utils/Logger';
+
+/**
+ * How collision component callbacks behave while ticks are resimulated
+ * 重新模拟期间碰撞组件回调的行为
+ */
+export enum RollbackEventMode {
+  /** Fire callbacks again | 再次触发回调 */
+  Replay = 'replay',
+  /** Fire no callbacks | 不触发任何回调 */
+  Suppress = 'suppress',
+  /** Fire only callbacks that did not already fire for the same tick | 仅触发该帧尚未触发过的回调 */
+  Deduplicate = 'deduplicate'
+}
+
+/**
+ * Force, impulse or torque recorded for one tick and replayed on resimulation
+ * 为某一帧记录并在重新模拟时重放的力、冲量或扭矩
+ */
+export interface RollbackForce {
+  /** Body the force acts on | 受力的物体 */
+  body: IRigidBody;
+  /** Force applied during the step | 在该步中施加的力 */
+  force?: FixedVector2;
+  /** Impulse applied before the step | 在该步之前施加的冲量 */
+  impulse?: FixedVector2;
+  /** Torque applied during the step | 在该步中施加的扭矩 */
+  torque?: Fixed;
+  /** World point for force and impulse, the center of mass when omitted | 力和冲量的世界作用点，省略时为质心 */
+  point?: FixedVector2;
+}
+
+/**
+ * Configuration for the rollback system
+ * 回滚系统配置
+ */
+export interface PhysicsRollbackConfig<TInput> {
+  /** Number of ticks kept in the ring buffer | 环形缓冲区保留的帧数 */
+  capacity?: number;
+  /** Collision callback behaviour during resimulation | 重新模拟期间的碰撞回调行为 */
+  eventMode?: RollbackEventMode;
+  /** Applies the input of a tick before it is stepped | 在某帧步进之前应用该帧的输入 */
+  applyInput?: (input: TInput, tick: number) => void;
+}
+
+/**
+ * State and forces recorded for one tick
+ * 为某一帧记录的状态和力
+ */
+interface RollbackFrame {
+  tick: number;
+  state: Uint8Array;
+  forces: RollbackForce[];
+  firedCallbacks: Set<string>;
+}
+
+/**
+ * Rollback system that records the last N fixed steps and resimulates them when inputs are corrected.
+ * Tick T is the step that advances the step count from T to T + 1; its frame holds the state before that step.
+ * While added to a world the system owns the world system's collision callback filter. A filter set before
+ * it was added still runs first and is restored when it is removed; setting a filter afterwards replaces it.
+ * 记录最近N个固定步并在输入被修正时重新模拟的回滚系统。
+ * 第T帧是将步数从T推进到T + 1的那一步；其帧记录该步之前的状态。
+ * 添加到世界期间，本系统拥有世界系统的碰撞回调过滤器。添加之前设置的过滤器仍会先执行，并在移除时恢复；
+ * 之后再设置过滤器会替换本系统的过滤器。
+ */
+export class PhysicsRollbackSystem<TInput = unknown> extends System {
+  /** Physics world system reference | 物理世界系统引用 */
+  private worldSystem: PhysicsWorldSystem;
+
+  /** Ring buffer of recorded frames | 已记录帧的环形缓冲区 */
+  private frames: Array<RollbackFrame | undefined>;
+
+  /** Inputs by tick | 按帧存储的输入 */
+  private inputs = new Map<number, TInput>();
+
+  /** Forces queued for the next tick | 为下一帧排队的力 */
+  private pendingForces: RollbackForce[] = [];
+
+  /** Earliest tick whose input was corrected | 输入被修正的最早帧 */
+  private pendingRollbackTick: number | null = null;
+
+  /** Frame of the step in progress | 正在进行的步对应的帧 */
+  private currentFrame: RollbackFrame | null = null;
+
+  /** Whether ticks are being resimulated | 是否正在重新模拟 */
+  private resimulating: boolean = false;
+
+  /** Filter that was set before this system took over | 本系统接管之前设置的过滤器 */
+  private previousFilter: CollisionCallbackFilter | null = null;
+
+  private readonly capacity: number;
+  private readonly eventMode: RollbackEventMode;
+  private readonly applyInput: ((input: TInput, tick: number) => void) | null;
+
+  constructor(worldSystem: PhysicsWorldSystem, config: PhysicsRollbackConfig<TInput> = {}) {
+    super([]);
+    this.worldSystem = worldSystem;
+    this.capacity = Math.max(1, config.capacity ?? 60);
+    this.eventMode = config.eventMode ?? RollbackEventMode.Deduplicate;
+    this.applyInput = config.applyInput ?? null;
+    this.frames = new Array<RollbackFrame | undefined>(this.capacity);
+  }
+
+  /**
+   * Hook into the world system's steps and take over its collision callback filter, keeping the existing one
+   * 挂接到世界系统的步进并接管其碰撞回调过滤器，保留已有的过滤器
+   */
+  onAddedToWorld(world: World): void {
+    super.onAddedToWorld(world);
+    this.worldSystem.onBeforeStep(this.handleBeforeStep);
+    this.previousFilter = this.worldSystem.getCollisionCallbackFilter();
+    this.worldSystem.setCollisionCallbackFilter(this.filterCollisionCallback);
+  }
+
+  /**
+   * Resimulate from the earliest corrected tick, if any
+   * 如有修正，从最早被修正的帧开始重新模拟
+   */
+  update(_entities: Entity[], _deltaTime: number): void {
+    if (this.pendingRollbackTick === null) return;
+
+    const tick = this.pendingRollbackTick;
+    this.pendingRollbackTick = null;
+    this.rollbackTo(tick);
+  }
+
+  /**
+   * Set the input of a tick. Correcting a tick that was already stepped schedules a rollback for the next update.
+   * 设置某帧的输入。修正已步进的帧会在下次更新时触发回滚。
+   */
+  setInput(tick: number, input: TInput): void {
+    this.inputs.set(tick, input);
+
+    if (tick < this.worldSystem.getStepCount()) {
+      this.pendingRollbackTick = this.pendingRollbackTick === null
+        ? tick
+        : Math.min(this.pendingRollbackTick, tick);
+    }
+  }
+
+  /**
+   * Get the input of a tick
+   * 获取某帧的输入
+   */
+  getInput(tick: number): TInput | undefined {
+    return this.inputs.get(tick);
+  }
+
+  /**
+   * Queue a force, impulse or torque for the next tick; it is replayed whenever that tick is resimulated
+   * 为下一帧排队一个力、冲量或扭矩；每次重新模拟该帧时都会重放
+   */
+  queueForce(force: RollbackForce): void {
+    this.pendingForces.push(force);
+  }
+
+  /**
+   * Rewind to the state before tick T and resimulate up to the current tick in one call.
+   * Transforms interpolate from the state before the last resimulated tick, like after a normal step.
+   * 回退到第T帧之前的状态，并在一次调用中重新模拟到当前帧。
+   * 与普通步进之后一样，变换从最后一个重新模拟帧之前的状态开始插值。
+   */
+  rollbackTo(tick: number): boolean {
+    const currentTick = this.worldSystem.getStepCount();
+    if (tick >= currentTick) return true;
+
+    const frame = this.getFrame(tick);
+    if (!frame) {
+      PhysicsLogger.warn(`Cannot roll back to tick ${tick}: only the last ${this.capacity} ticks are kept`);
+      return false;
+    }
+    if (!this.worldSystem.getPhysicsWorld()) {
+      PhysicsLogger.warn('Physics world not available');
+      return false;
+    }
+
+    this.resimulating = true;
+    try {
+      this.worldSystem.restoreState(frame.state);
+      this.worldSystem.setStepCount(tick);
+      this.worldSystem.advanceTicks(currentTick - tick);
+    } catch (error) {
+      PhysicsLogger.error(`Failed to roll back to tick ${tick}: ${String(error)}`);
+      return false;
+    } finally {
+      this.resimulating = false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Whether ticks are currently being resimulated
+   * 当前是否正在重新模拟
+   */
+  isResimulating(): boolean {
+    return this.resimulating;
+  }
+
+  /**
+   * Oldest tick that can still be rolled back to, or null if nothing is recorded
+   * 仍可回滚到的最早帧，未记录任何帧时为null
+   */
+  getOldestTick(): number | null {
+    let oldest: number | null = null;
+    for (const frame of this.frames) {
+      if (frame && (oldest === null || frame.tick < oldest)) {
+        oldest = frame.tick;
+      }
+    }
+    return oldest;
+  }
+
+  /**
+   * Forget all recorded frames, inputs and queued forces
+   * 清除所有已记录的帧、输入和排队的力
+   */
+  clear(): void {
+    this.frames = new Array<RollbackFrame | undefined>(this.capacity);
+    this.inputs.clear();
+    this.pendingForces = [];
+    this.pendingRollbackTick = null;
+    this.currentFrame = null;
+  }
+
+  /**
+   * Unhook from the world system and give the collision callback filter back, unless it was replaced meanwhile
+   * 从世界系统解除挂接并交还碰撞回调过滤器，除非它在此期间已被替换
+   */
+  onRemovedFromWorld(): void {
+    this.worldSystem.offBeforeStep(this.handleBeforeStep);
+    if (this.worldSystem.getCollisionCallbackFilter() === this.filterCollisionCallback) {
+      this.worldSystem.setCollisionCallbackFilter(this.previousFilter);
+    }
+    this.previousFilter = null;
+    this.clear();
+    super.onRemovedFromWorld();
+  }
+
+  /**
+   * Record the state of a tick, then apply its input and forces
+   * 记录某帧的状态，然后应用其输入和力
+   */
+  private handleBeforeStep = (tick: number): void => {
+    const state = this.worldSystem.saveState();
+    if (!state) return;
+
+    let frame = this.getFrame(tick);
+    if (frame && this.resimulating) {
+      frame.state = state;
+    } else {
+      frame = { tick, state, forces: this.pendingForces, firedCallbacks: new Set() };
+      this.pendingForces = [];
+      this.frames[tick % this.capacity] = frame;
+      this.inputs.delete(tick - this.capacity);
+    }
+    this.currentFrame = frame;
+
+    const input = this.inputs.get(tick);
+    if (input !== undefined && this.applyInput) {
+      this.applyInput(input, tick);
+    }
+
+    for (const entry of frame.forces) {
+      this.applyForce(entry);
+    }
+  };
+
+  /**
+   * Decide whether a collision callback fires, based on the previous filter and the event mode
+   * 根据之前的过滤器和事件模式决定是否触发碰撞回调
+   */
+  private filterCollisionCallback = (entityA: Entity, entityB: Entity, isBeginContact: boolean): boolean => {
+    if (this.previousFilter && !this.previousFilter(entityA, entityB, isBeginContact)) return false;
+
+    const frame = this.currentFrame;
+    if (!frame) return true;
+
+    const low = Math.min(entityA.id, entityB.id);
+    const high = Math.max(entityA.id, entityB.id);
+    const key = `${low}:${high}:${isBeginContact ? 'begin' : 'end'}`;
+
+    if (!this.resimulating || this.eventMode === RollbackEventMode.Replay) {
+      frame.firedCallbacks.add(key);
+      return true;
+    }
+    if (this.eventMode === RollbackEventMode.Suppress || frame.firedCallbacks.has(key)) {
+      return false;
+    }
+    frame.firedCallbacks.add(key);
+    return true;
+  };
+
+  private applyForce(entry: RollbackForce): void {
+    const { body, force, impulse, torque, point } = entry;
+    if (force) {
+      if (point) {
+        body.applyForceAtPoint(force, point);
+      } else {
+        body.applyForce(force);
+      }
+    }
+    if (impulse) {
+      if (point) {
+        body.applyImpulseAtPoint(impulse, point);
+      } else {
+        body.applyImpulse(impulse);
+      }
+    }
+    if (torque) {
+      body.applyTorque(torque);
+    }
+  }
+
+  private getFrame(tick: number): RollbackFrame | undefined {
+    const frame = this.frames[tick % this.capacity];
+    return frame?.tick === tick ? frame : undefined;
+  }
+}
@@ -1,15 +1,58 @@
 import { System, Entity, World } from '@esengine/nova-ecs';
 import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
-import { IPhysicsEngine, IPhysicsWorld } from '../interfaces/IPhysicsEngine';
-import { PhysicsWorldConfig, RigidBodyConfig, BaseJointConfig } from '../types/PhysicsTypes';
+import { IPhysicsEngine, IPhysicsWorld, IRigidBody, ICollider } from '../interfaces/IPhysicsEngine';
+import {
+  PhysicsWorldConfig,
+  RigidBodyConfig,
+  PhysicsOverflowPolicy,
+  PhysicsFrameStats,
+  PhysicsSteppingMode,
+  ColliderType,
+  ColliderConfig,
+  OneWayPlatformConfig,
+  PhysicsMaterial
+} from '../types/PhysicsTypes';
 import {
   RigidBodyComponent,
   ColliderComponent,
+  CompoundColliderComponent,
+  CompoundColliderShape,
   JointComponent,
   PhysicsTransformComponent,
-  CollisionEventComponent
+  CollisionEventComponent,
+  CollisionColliderIds,
+  PhysicsWorldIdComponent,
+  DEFAULT_PHYSICS_WORLD_ID
 } from '../components/PhysicsComponents';
+import {
+  PhysicsChecksumEvent,
+  PhysicsStepBeginEvent,
+  PhysicsStepEndEvent,
+  PreSolveEvent
+} from '../events/PhysicsEvents';
 import { PhysicsLogger } from '../utils/Logger';
+import { shouldPassOneWayPlatform } from '../utils/OneWayPlatform';
+import { negate } from '../engine/FixedMath';
+import { SURFACE_SPEED_FEATURE, hasSurfaceSpeed } from '../utils/SurfaceSpeed';
+import { computeBodiesChecksum } from '../utils/PhysicsChecksum';
+import {
+  ColliderReference,
+  OneWayDecisionState,
+  PhysicsWorldState,
+  decodePhysicsWorldState,
+  encodePhysicsWorldState
+} from '../utils/PhysicsWorldState';
+import { JointConfig } from '../types/JointTypes';
+import {
+  ValidationResult,
+  ValidationSeverity,
+  formatValidationIssue
+} from '../validation/ValidationTypes';
+import { validateColliderConfig } from '../validation/ColliderConfigValidator';
+import { validateJointConfig } from '../validation/JointConfigValidator';
+import { CAPSULE_COLLIDER_FEATURE, createCapsuleFallbackShapes } from '../geometry/CapsuleGeometry';
+import { ROUNDED_POLYGON_FEATURE } from '../geometry/ColliderGeometry';
+import { HEIGHTFIELD_COLLIDER_FEATURE, createHeightfieldFallbackShape } from '../geometry/HeightfieldGeometry';
 
 /**
  * Collision event data interface
@@ -18,6 +61,8 @@ import { PhysicsLogger } from '../utils/Logger';
 interface CollisionEventData {
   bodyA: unknown;
   bodyB: unknown;
+  colliderA?: unknown;
+  colliderB?: unknown;
   contacts?: unknown[];
   isBeginContact: boolean;
   isEndContact: boolean;
@@ -31,6 +76,177 @@ interface BodyWithUserData {
   getUserData(): unknown;
 }
 
+/**
+ * Callback invoked before each fixed step with the index of that step
+ * 每个固定步之前调用的回调，参数为该步的索引
+ */
+export type PhysicsStepCallback = (step: number) => void;
+
+/**
+ * Decides whether CollisionEventComponent callbacks fire for a collision
+ * 决定是否为某次碰撞触发 CollisionEventComponent 回调
+ */
+export type CollisionCallbackFilter = (entityA: Entity, entityB: Entity, isBeginContact: boolean) => boolean;
+
+/**
+ * Get the id of the physics world an entity belongs to
+ * 获取实体所属物理世界的ID
+ */
+function getEntityWorldId(entity: Entity): string {
+  return entity.getComponent(PhysicsWorldIdComponent)?.worldId ?? DEFAULT_PHYSICS_WORLD_ID;
+}
+
+/**
+ * Find the world system that owns an entity, warning when none does
+ * 查找拥有该实体的世界系统，找不到时发出警告
+ */
+function findWorldSystem(worldSystems: PhysicsWorldSystem[], entity: Entity): PhysicsWorldSystem | null {
+  const worldId = getEntityWorldId(entity);
+  const worldSystem = worldSystems.find(system => system.getWorldId() === worldId);
+  if (!worldSystem) {
+    PhysicsLogger.warn(`No physics world '${worldId}' for entity ${entity.id}`);
+    return null;
+  }
+  return worldSystem;
+}
+
+/**
+ * Shape id of a collider within an entity's CompoundColliderComponent, or null
+ * 碰撞器在实体的 CompoundColliderComponent 中的形状ID，不存在时为null
+ */
+function getCompoundShapeId(entity: Entity, collider: unknown): string | null {
+  if (!collider) return null;
+  const compound = entity.getComponent(CompoundColliderComponent);
+  return compound?.getColliderId(collider as ICollider) ?? null;
+}
+
+/**
+ * Every engine collider of an entity: its ColliderComponent's colliders, then its compound shapes' colliders in shape order
+ * 实体的所有引擎碰撞器：先是 ColliderComponent 的碰撞器，然后按形状顺序排列复合形状的碰撞器
+ */
+function getEntityColliders(entity: Entity): ICollider[] {
+  const colliders: ICollider[] = [];
+  const colliderComp = entity.getComponent(ColliderComponent);
+  if (colliderComp?.collider) {
+    colliders.push(colliderComp.collider, ...colliderComp.fallbackColliders);
+  }
+  const compound = entity.getComponent(CompoundColliderComponent);
+  if (compound) {
+    for (const shape of compound.shapes) {
+      colliders.push(...compound.getShapeColliders(shape.id));
+    }
+  }
+  return colliders;
+}
+
+/**
+ * Reference to a collider that survives a save and restore, or null for a collider no entity owns
+ * 可在保存和恢复后继续使用的碰撞器引用，不属于任何实体的碰撞器返回null
+ */
+function getColliderReference(collider: ICollider): ColliderReference | null {
+  const entity = collider.getUserData();
+  if (!entity || typeof entity !== 'object' || !('getComponent' in entity)) return null;
+
+  const index = getEntityColliders(entity as Entity).indexOf(collider);
+  return index < 0 ? null : { entityId: (entity as Entity).id, index };
+}
+
+/**
+ * Order collider references by entity id, then index
+ * 按实体ID和索引对碰撞器引用排序
+ */
+function compareColliderReferences(a: ColliderReference, b: ColliderReference): number {
+  return a.entityId - b.entityId || a.index - b.index;
+}
+
+/**
+ * One-way setting of the ColliderComponent a collider was created for, or null
+ * 碰撞器所属 ColliderComponent 的单向平台设置，不存在时为null
+ */
+function getOneWayPlatform(collider: ICollider): OneWayPlatformConfig | null {
+  const entity = collider.getUserData();
+  if (!entity || typeof entity !== 'object' || !('getComponent' in entity)) return null;
+
+  const colliderComp = (entity as Entity).getComponent(ColliderComponent);
+  if (!colliderComp?.oneWay) return null;
+  const own = colliderComp.collider === collider || colliderComp.fallbackColliders.includes(collider);
+  return own ? colliderComp.oneWay : null;
+}
+
+/**
+ * Whether two materials have the same values, with a missing surface speed counting as zero
+ * 两个材质的取值是否相同，缺省的表面速度视为零
+ */
+function sameMaterial(a: PhysicsMaterial, b: PhysicsMaterial): boolean {
+  return a.friction.equals(b.friction) &&
+    a.restitution.equals(b.restitution) &&
+    a.density.equals(b.density) &&
+    (a.tangentSpeed ?? Fixed.ZERO).equals(b.tangentSpeed ?? Fixed.ZERO);
+}
+
+/**
+ * Log the issues of a validated config and return the config to create, or null when it cannot be fixed
+ * 记录已校验配置的问题，并返回要创建的配置；无法修正时返回null
+ */
+function resolveValidatedConfig<T>(result: ValidationResult<T>, subject: string): T | null {
+  for (const issue of result.issues) {
+    const message = `${subject}: ${formatValidationIssue(issue)}`;
+    if (issue.fixable) {
+      PhysicsLogger.warn(`Auto-fixed ${message}`);
+    } else if (issue.severity === ValidationSeverity.Error) {
+      PhysicsLogger.error(`Invalid ${message}`);
+    } else {
+      PhysicsLogger.warn(message);
+    }
+  }
+  return result.fixed;
+}
+
+/**
+ * Whether a world system's engine supports a feature. Unknown features count as unsupported, with a
+ * warning, so a world system nobody told the factory features to still gets working fallbacks.
+ * 世界系统的引擎是否支持某个功能。功能未知时视为不支持并给出警告，
+ * 这样未设置工厂功能列表的世界系统仍能得到可用的替代形状。
+ */
+function supportsFeature(worldSystem: PhysicsWorldSystem, feature: string, subject: string): boolean {
+  if (worldSystem.isFeatureSupported(feature)) return true;
+  if (!worldSystem.hasSupportedFeatures()) {
+    PhysicsLogger.warn(
+      `${subject}: features of engine '${worldSystem.getEngine().name}' are unknown, treating '${feature}' as unsupported; ` +
+      'pass the engine factory\'s getSupportedFeatures() to PhysicsWorldSystem.setSupportedFeatures'
+    );
+  }
+  return false;
+}
+
+/**
+ * Replace collider features the engine does not report as supported: capsules become a polygon
+ * plus end circles, heightfields become an open chain, and rounded boxes and polygons lose their
+ * radius with a warning
+ * 替换引擎未报告支持的碰撞器特性：胶囊变为多边形加两端的圆，高度场变为开放链条，圆角盒子和多边形会丢弃半径并给出警告
+ */
+function adaptColliderConfig(
+  config: ColliderConfig,
+  worldSystem: PhysicsWorldSystem,
+  subject: string
+): [ColliderConfig, ...ColliderConfig[]] {
+  if (config.type === ColliderType.Capsule && !supportsFeature(worldSystem, CAPSULE_COLLIDER_FEATURE, subject)) {
+    return createCapsuleFallbackShapes(config);
+  }
+  if (config.type === ColliderType.Heightfield && !supportsFeature(worldSystem, HEIGHTFIELD_COLLIDER_FEATURE, subject)) {
+    return [createHeightfieldFallbackShape(config)];
+  }
+  if ((config.type === ColliderType.Box || config.type === ColliderType.Polygon) &&
+      config.radius?.greaterThan(Fixed.ZERO) &&
+      !supportsFeature(worldSystem, ROUNDED_POLYGON_FEATURE, subject)) {
+    PhysicsLogger.warn(`${subject}: engine '${worldSystem.getEngine().name}' does not support rounded polygons, radius ignored`);
+    const sharp = { ...config };
+    delete sharp.radius;
+    return [sharp];
+  }
+  return [config];
+}
+
 /**
  * Physics world system that manages the physics simulation
  * 管理物理模拟的物理世界系统
@@ -38,6 +254,9 @@ interface BodyWithUserData {
 export class PhysicsWorldSystem extends System {
   /** Physics engine instance | 物理引擎实例 */
   private engine: IPhysicsEngine;
+
+  /** Id entities use to select this world | 实体用于选择此世界的ID */
+  private readonly worldId: string;
   
   /** Physics world instance | 物理世界实例 */
   private physicsWorld: IPhysicsWorld | null = null;
@@ -50,17 +269,61 @@ export class PhysicsWorldSystem extends System {
   
   /** Accumulator for fixed time stepping | 固定时间步长的累加器 */
   private accumulator: Fixed = Fixed.ZERO;
+
+  /** Accumulator remainder as a fraction of a step | 累加器余量占一步的比例 */
+  private interpolationAlpha: Fixed = Fixed.ZERO;
   
   /** Maximum sub-steps per frame | 每帧最大子步数 */
   private maxSubSteps: number = 10;
 
+  /** Handling of leftover time at the sub-step limit | 达到子步上限时剩余时间的处理方式 */
+  private overflowPolicy: PhysicsOverflowPolicy = PhysicsOverflowPolicy.Clamp;
+
+  /** Multiplier applied to frame time | 应用于帧时间的倍率 */
+  private timeScale: Fixed = Fixed.ONE;
+
+  /** Whether the simulation is paused | 模拟是否暂停 */
+  private paused: boolean = false;
+
+  /** What drives the fixed steps | 驱动固定步进的方式 */
+  private steppingMode: PhysicsSteppingMode = PhysicsSteppingMode.Accumulated;
+
+  /** Stepping report of the latest frame | 最近一帧的步进报告 */
+  private frameStats: PhysicsFrameStats = { subSteps: 0, droppedTime: Fixed.ZERO };
+
+  /** Number of fixed steps taken | 已执行的固定步数 */
+  private stepCount: number = 0;
+
+  /** Whether a checksum is computed after each step | 是否在每步之后计算校验和 */
+  private checksumEnabled: boolean = false;
+
+  /** Checksum of the latest step | 最近一步的校验和 */
+  private lastChecksum: number | null = null;
+
+  /** Callbacks run before each fixed step | 每个固定步之前运行的回调 */
+  private beforeStepCallbacks: PhysicsStepCallback[] = [];
+
+  /** Filter for collision component callbacks | 碰撞组件回调的过滤器 */
+  private collisionCallbackFilter: CollisionCallbackFilter | null = null;
+
+  /** Pass-through decisions of one-way contacts, by platform collider then other collider | 单向平台接触的穿越判定，按平台碰撞器和另一碰撞器索引 */
+  private oneWayContacts = new Map<ICollider, Map<ICollider, boolean>>();
+
+  /** Step until which each entity drops through one-way platforms | 各实体穿过单向平台持续到的步数 */
+  private dropThroughUntil = new Map<Entity, number>();
+
+  /** Features reported by the engine factory, null until set | 引擎工厂报告的功能，设置前为null */
+  private supportedFeatures: ReadonlySet<string> | null = null;
+
   constructor(
     engine: IPhysicsEngine,
     worldConfig: PhysicsWorldConfig,
-    fixedTimeStep: Fixed | number = 1/60
+    fixedTimeStep: Fixed | number = 1/60,
+    worldId: string = DEFAULT_PHYSICS_WORLD_ID
   ) {
     super([]);
     this.engine = engine;
+    this.worldId = worldId;
     this.worldConfig = worldConfig;
     this.fixedTimeStep = fixedTimeStep instanceof Fixed ? fixedTimeStep : new Fixed(fixedTimeStep);
   }
@@ -79,6 +342,12 @@ export class PhysicsWorldSystem extends System {
     this.physicsWorld.onCollision((data) => {
       this.handleCollisionEvent(data);
     });
+
+    // One-way platforms are enforced before the solver runs
+    // 单向平台在求解器运行之前生效
+    this.physicsWorld.onPreSolve?.((event) => {
+      this.handlePreSolve(event);
+    });
   }
 
   /**
@@ -88,18 +357,370 @@ export class PhysicsWorldSystem extends System {
   update(_entities: Entity[], deltaTime: number): void {
     if (!this.physicsWorld) return;
 
-    const fixedDeltaTime = new Fixed(deltaTime);
+    this.snapTeleportedTransforms();
+
+    if (this.paused || this.steppingMode === PhysicsSteppingMode.Ticks) {
+      this.frameStats = { subSteps: 0, droppedTime: Fixed.ZERO };
+      return;
+    }
+
+    const fixedDeltaTime = new Fixed(deltaTime).multiply(this.timeScale);
     this.accumulator = this.accumulator.add(fixedDeltaTime);
 
     let subSteps = 0;
     while (this.accumulator.greaterThanOrEqual(this.fixedTimeStep) && subSteps < this.maxSubSteps) {
-      this.physicsWorld.step(this.fixedTimeStep);
+      this.capturePreviousTransforms();
+      this.stepFixed();
       this.accumulator = this.accumulator.subtract(this.fixedTimeStep);
       subSteps++;
     }
 
+    let droppedTime = Fixed.ZERO;
+    if (this.accumulator.greaterThanOrEqual(this.fixedTimeStep)) {
+      droppedTime = this.applyOverflowPolicy();
+    }
+    this.frameStats = { subSteps, droppedTime };
+
     // Update transform components from physics bodies
-    this.updateTransforms();
+    if (subSteps > 0) {
+      this.updateTransforms();
+    }
+
+    const alpha = this.accumulator.divide(this.fixedTimeStep);
+    this.interpolationAlpha = alpha.greaterThan(Fixed.ONE) ? Fixed.ONE : alpha;
+  }
+
+  /**
+   * Trim the backlog left after hitting the sub-step limit, returning the discarded time
+   * 裁剪达到子步上限后剩余的积压，返回被丢弃的时间
+   */
+  private applyOverflowPolicy(): Fixed {
+    let kept: Fixed;
+    switch (this.overflowPolicy) {
+      case PhysicsOverflowPolicy.Carry:
+        return Fixed.ZERO;
+      case PhysicsOverflowPolicy.Drop:
+        kept = Fixed.ZERO;
+        break;
+      default:
+        kept = this.fixedTimeStep;
+        break;
+    }
+
+    const dropped = this.accumulator.subtract(kept);
+    this.accumulator = kept;
+    return dropped;
+  }
+
+  /**
+   * Take one fixed step and update transforms, even while paused
+   * 执行一个固定步并更新变换，暂停时同样有效
+   */
+  stepOnce(): void {
+    this.advanceTicks(1);
+  }
+
+  /**
+   * Advance the simulation by whole ticks of one fixed step each, then update transforms.
+   * Independent of frame time, so every peer takes the same steps.
+   * 以整数帧推进模拟（每帧一个固定步），然后更新变换。
+   * 与帧时间无关，因此每个对等端执行的步骤相同。
+   */
+  advanceTicks(count: number): void {
+    if (!this.physicsWorld) return;
+
+    const ticks = Math.max(0, Math.floor(count));
+    for (let i = 0; i < ticks; i++) {
+      this.capturePreviousTransforms();
+      this.stepFixed();
+    }
+    if (ticks > 0) {
+      this.updateTransforms();
+    }
+  }
+
+  /**
+   * Set what drives the fixed steps; in tick mode update() no longer steps
+   * 设置驱动固定步进的方式；Ticks 模式下 update() 不再步进
+   */
+  setSteppingMode(mode: PhysicsSteppingMode): void {
+    this.steppingMode = mode;
+    this.accumulator = Fixed.ZERO;
+  }
+
+  /**
+   * Get what drives the fixed steps
+   * 获取驱动固定步进的方式
+   */
+  getSteppingMode(): PhysicsSteppingMode {
+    return this.steppingMode;
+  }
+
+  /**
+   * Set the interpolation alpha, for hosts that drive ticks from their own clock
+   * 设置插值系数，供使用自身时钟驱动帧的宿主使用
+   */
+  setInterpolationAlpha(alpha: Fixed | number): void {
+    this.interpolationAlpha = alpha instanceof Fixed ? alpha : new Fixed(alpha);
+  }
+
+  /**
+   * Pause the simulation; frames no longer accumulate time
+   * 暂停模拟；帧不再累积时间
+   */
+  pause(): void {
+    this.paused = true;
+  }
+
+  /**
+   * Resume a paused simulation
+   * 恢复已暂停的模拟
+   */
+  resume(): void {
+    this.paused = false;
+  }
+
+  /**
+   * Whether the simulation is paused
+   * 模拟是否暂停
+   */
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Set the multiplier applied to frame time (0.5 for half-speed slow motion)
+   * 设置应用于帧时间的倍率（0.5为半速慢动作）
+   */
+  setTimeScale(scale: Fixed | number): void {
+    const value = scale instanceof Fixed ? scale : new Fixed(scale);
+    if (value.lessThan(Fixed.ZERO)) {
+      throw new Error('Time scale must not be negative');
+    }
+    this.timeScale = value;
+  }
+
+  /**
+   * Get the multiplier applied to frame time
+   * 获取应用于帧时间的倍率
+   */
+  getTimeScale(): Fixed {
+    return this.timeScale;
+  }
+
+  /**
+   * Set the maximum number of fixed steps per frame
+   * 设置每帧最大固定步数
+   */
+  setMaxSubSteps(maxSubSteps: number): void {
+    this.maxSubSteps = Math.max(1, Math.floor(maxSubSteps));
+  }
+
+  /**
+   * Get the maximum number of fixed steps per frame
+   * 获取每帧最大固定步数
+   */
+  getMaxSubSteps(): number {
+    return this.maxSubSteps;
+  }
+
+  /**
+   * Set how leftover time is handled when a frame hits the sub-step limit
+   * 设置某帧达到子步上限时剩余时间的处理方式
+   */
+  setOverflowPolicy(policy: PhysicsOverflowPolicy): void {
+    this.overflowPolicy = policy;
+  }
+
+  /**
+   * Get how leftover time is handled when a frame hits the sub-step limit
+   * 获取某帧达到子步上限时剩余时间的处理方式
+   */
+  getOverflowPolicy(): PhysicsOverflowPolicy {
+    return this.overflowPolicy;
+  }
+
+  /**
+   * Sub-steps run and time dropped in the latest frame
+   * 最近一帧执行的子步数和丢弃的时间
+   */
+  getFrameStats(): PhysicsFrameStats {
+    return this.frameStats;
+  }
+
+  /**
+   * Take exactly one fixed step, independent of the accumulator.
+   * Transform components are not updated; call syncComponentsFromBodies() when done stepping.
+   * 独立于累加器，精确执行一个固定步。
+   * 不会更新变换组件；步进结束后调用 syncComponentsFromBodies()。
+   */
+  stepFixed(): void {
+    if (!this.physicsWorld) return;
+
+    const tick = this.stepCount;
+    for (const callback of this.beforeStepCallbacks.slice()) {
+      callback(tick);
+    }
+
+    this.dispatchEvent(new PhysicsStepBeginEvent(this.fixedTimeStep, this.stepCount, tick));
+    const start = performance.now();
+
+    this.physicsWorld.step(this.fixedTimeStep);
+    this.stepCount++;
+
+    const duration = new Fixed(performance.now() - start);
+    this.dispatchEvent(new PhysicsStepEndEvent(this.fixedTimeStep, this.stepCount, duration, tick));
+
+    if (this.checksumEnabled) {
+      this.lastChecksum = this.computeChecksum();
+      this.dispatchEvent(new PhysicsChecksumEvent(this.stepCount, this.lastChecksum, tick));
+    }
+  }
+
+  /**
+   * Register a callback run before each fixed step
+   * 注册在每个固定步之前运行的回调
+   */
+  onBeforeStep(callback: PhysicsStepCallback): void {
+    this.beforeStepCallbacks.push(callback);
+  }
+
+  /**
+   * Remove a before-step callback
+   * 移除固定步前回调
+   */
+  offBeforeStep(callback: PhysicsStepCallback): void {
+    const index = this.beforeStepCallbacks.indexOf(callback);
+    if (index >= 0) {
+      this.beforeStepCallbacks.splice(index, 1);
+    }
+  }
+
+  /**
+   * Set a filter deciding which collisions reach CollisionEventComponent callbacks, or null to fire all
+   * 设置决定哪些碰撞会触发 CollisionEventComponent 回调的过滤器，为null时全部触发
+   */
+  setCollisionCallbackFilter(filter: CollisionCallbackFilter | null): void {
+    this.collisionCallbackFilter = filter;
+  }
+
+  /**
+   * Get the current collision callback filter, or null if every callback fires
+   * 获取当前的碰撞回调过滤器，全部触发时为null
+   */
+  getCollisionCallbackFilter(): CollisionCallbackFilter | null {
+    return this.collisionCallbackFilter;
+  }
+
+  /**
+   * Wake an entity and let it fall through every one-way platform for a duration in seconds. Platforms
+   * it is touching when the time runs out keep letting it through until the contact ends.
+   * 唤醒实体并让它在指定秒数内穿过所有单向平台。时间结束时仍在接触的平台会继续放行，直到接触结束。
+   */
+  dropThrough(entity: Entity, duration: Fixed | number): void {
+    const seconds = duration instanceof Fixed ? duration : new Fixed(duration);
+    const steps = Math.max(1, Math.ceil(seconds.divide(this.fixedTimeStep).toNumber()));
+    this.dropThroughUntil.set(entity, this.stepCount + steps);
+    entity.getComponent(RigidBodyComponent)?.body?.setAwake(true);
+  }
+
+  /**
+   * Whether an entity is currently dropping through one-way platforms
+   * 实体当前是否正在穿过单向平台
+   */
+  isDroppingThrough(entity: Entity): boolean {
+    const until = this.dropThroughUntil.get(entity);
+    if (until === undefined) return false;
+    if (until > this.stepCount) return true;
+    this.dropThroughUntil.delete(entity);
+    return false;
+  }
+
+  /**
+   * Disable contacts that one-way platforms let through
+   * 禁用单向平台放行的接触
+   */
+  private handlePreSolve(event: PreSolveEvent): void {
+    const normal = event.contacts[0]?.normal;
+    if (!normal) return;
+
+    const oneWayA = getOneWayPlatform(event.colliderA);
+    const oneWayB = getOneWayPlatform(event.colliderB);
+    if ((oneWayA && this.passesOneWay(oneWayA, event.colliderA, event.colliderB, normal, event)) ||
+        (oneWayB && this.passesOneWay(oneWayB, event.colliderB, event.colliderA, negate(normal), event))) {
+      event.disableProcessing();
+    }
+  }
+
+  /**
+   * Whether a collider passes through a one-way platform, decided once when the contact begins and
+   * kept until it ends; a drop-through turns a blocked contact into a passing one
+   * 碰撞器是否穿过单向平台；在接触开始时判定一次并保持到接触结束，穿透下落会把被阻挡的接触变为放行
+   */
+  private passesOneWay(
+    oneWay: OneWayPlatformConfig,
+    platform: ICollider,
+    other: ICollider,
+    normal: FixedVector2,
+    event: PreSolveEvent
+  ): boolean {
+    let decisions = this.oneWayContacts.get(platform);
+    if (!decisions) {
+      decisions = new Map();
+      this.oneWayContacts.set(platform, decisions);
+    }
+
+    const otherEntity = this.getEntityFromBody(other.getBody());
+    const dropping = otherEntity !== null && this.isDroppingThrough(otherEntity);
+    let passing = decisions.get(other);
+    if (passing === undefined || (dropping && !passing)) {
+      passing = dropping || shouldPassOneWayPlatform(
+        oneWay,
+        platform.getBody(),
+        other.getBody(),
+        normal,
+        event.contacts,
+        this.fixedTimeStep
+      );
+      decisions.set(other, passing);
+    }
+    return passing;
+  }
+
+  /**
+   * Drop the one-way decision of a contact that ended
+   * 丢弃已结束接触的单向平台判定
+   */
+  private forgetOneWayContact(colliderA: ICollider, colliderB: ICollider): void {
+    for (const [platform, other] of [[colliderA, colliderB], [colliderB, colliderA]] as const) {
+      const decisions = this.oneWayContacts.get(platform);
+      if (!decisions) continue;
+      decisions.delete(other);
+      if (decisions.size === 0) this.oneWayContacts.delete(platform);
+    }
+  }
+
+  /**
+   * Forget the one-way platform decisions of colliders that are being destroyed
+   * 丢弃即将销毁的碰撞器的单向平台判定
+   */
+  forgetColliders(colliders: readonly ICollider[]): void {
+    for (const collider of colliders) {
+      this.oneWayContacts.delete(collider);
+      for (const [platform, decisions] of this.oneWayContacts) {
+        decisions.delete(collider);
+        if (decisions.size === 0) this.oneWayContacts.delete(platform);
+      }
+    }
+  }
+
+  /**
+   * Forget the drop-through and one-way platform decisions of an entity that is being removed
+   * 丢弃即将移除的实体的穿透下落和单向平台判定
+   */
+  forgetEntity(entity: Entity): void {
+    this.dropThroughUntil.delete(entity);
+    this.forgetColliders(getEntityColliders(entity));
   }
 
   /**
@@ -107,22 +728,234 @@ export class PhysicsWorldSystem extends System {
    * 从物理刚体更新变换组件
    */
   private updateTransforms(): void {
-    if (!this.world) return;
+    for (const { body, transform } of this.getTransformPairs()) {
+      transform.position = body.getPosition();
+      transform.rotation = body.getRotation();
+    }
+  }
+
+  /**
+   * Record the body state before a step as the start of interpolation
+   * 将步进前的物体状态记录为插值起点
+   */
+  private capturePreviousTransforms(): void {
+    for (const { body, transform } of this.getTransformPairs()) {
+      const position = body.getPosition();
+      transform.previousPosition.set(position.x, position.y);
+      transform.previousRotation = body.getRotation();
+    }
+  }
+
+  /**
+   * Snap the transforms of teleported bodies so they are not interpolated from the old location
+   * 对齐被瞬移物体的变换，使其不会从旧位置插值
+   */
+  private snapTeleportedTransforms(): void {
+    for (const { rigidBody, body, transform } of this.getTransformPairs()) {
+      if (!rigidBody.teleported) continue;
+
+      transform.position = body.getPosition();
+      transform.rotation = body.getRotation();
+      transform.updatePrevious();
+      rigidBody.teleported = false;
+    }
+  }
+
+  /**
+   * Bodies of this world paired with their transform components
+   * 此世界的物体及其变换组件
+   */
+  private getTransformPairs(): Array<{
+    rigidBody: RigidBodyComponent;
+    body: IRigidBody;
+    transform: PhysicsTransformComponent;
+  }> {
+    if (!this.world) return [];
 
     const entities = this.world.query()
       .with(RigidBodyComponent, PhysicsTransformComponent)
       .execute();
 
+    const pairs = [];
     for (const entity of entities) {
+      if (!this.ownsEntity(entity)) continue;
+
       const rigidBody = entity.getComponent(RigidBodyComponent);
       const transform = entity.getComponent(PhysicsTransformComponent);
-
       if (rigidBody?.body && transform) {
-        transform.updatePrevious();
-        transform.position = rigidBody.body.getPosition();
-        transform.rotation = rigidBody.body.getRotation();
+        pairs.push({ rigidBody, body: rigidBody.body, transform });
+      }
+    }
+    return pairs;
+  }
+
+  /**
+   * Remainder of the accumulator as a fraction of a fixed step, for render interpolation
+   * 累加器余量占一个固定步的比例，用于渲染插值
+   */
+  getInterpolationAlpha(): Fixed {
+    return this.interpolationAlpha;
+  }
+
+  /**
+   * Number of fixed steps taken so far
+   * 到目前为止执行的固定步数
+   */
+  getStepCount(): number {
+    return this.stepCount;
+  }
+
+  /**
+   * Tick the next fixed step will simulate; ticks are numbered from 0, so this equals the step count
+   * 下一个固定步将模拟的帧；帧从0开始编号，因此等于步数
+   */
+  getTick(): number {
+    return this.stepCount;
+  }
+
+  /**
+   * Overwrite the step counter, e.g. after rewinding to an older state
+   * 覆盖步数计数器，例如回退到较早状态之后
+   */
+  setStepCount(stepCount: number): void {
+    this.stepCount = stepCount;
+  }
+
+  /**
+   * Enable or disable the per-step determinism checksum
+   * 启用或禁用逐步确定性校验和
+   */
+  setChecksumEnabled(enabled: boolean): void {
+    this.checksumEnabled = enabled;
+    if (!enabled) {
+      this.lastChecksum = null;
+    }
+  }
+
+  /**
+   * Whether the per-step checksum is enabled
+   * 是否启用了逐步校验和
+   */
+  isChecksumEnabled(): boolean {
+    return this.checksumEnabled;
+  }
+
+  /**
+   * Checksum of the latest step, or null when disabled or not stepped yet
+   * 最近一步的校验和，未启用或尚未步进时为null
+   */
+  getLastChecksum(): number | null {
+    return this.lastChecksum;
+  }
+
+  /**
+   * Hash all body transforms and velocities (Fixed raw values, sorted by entity id)
+   * 对所有物体的变换和速度进行哈希（定点原始值，按实体ID排序）
+   */
+  computeChecksum(): number {
+    if (!this.world) return computeBodiesChecksum([]);
+
+    const entities = this.world.query()
+      .with(RigidBodyComponent)
+      .execute();
+
+    const bodies: Array<{ entityId: number; body: IRigidBody }> = [];
+    for (const entity of entities) {
+      const body = entity.getComponent(RigidBodyComponent)?.body;
+      if (body && this.ownsEntity(entity)) {
+        bodies.push({ entityId: entity.id, body });
       }
     }
+    return computeBodiesChecksum(bodies);
+  }
+
+  /**
+   * Save the physics world state together with the one-way platform decisions and drop-throughs,
+   * or null before the world exists
+   * 保存物理世界状态以及单向平台判定和穿透下落，世界尚未创建时返回null
+   */
+  saveState(): Uint8Array | null {
+    const world = this.physicsWorld?.saveState();
+    if (!world) return null;
+
+    const oneWayDecisions: OneWayDecisionState[] = [];
+    for (const [platform, decisions] of this.oneWayContacts) {
+      const platformReference = getColliderReference(platform);
+      if (!platformReference) continue;
+      for (const [other, passing] of decisions) {
+        const otherReference = getColliderReference(other);
+        if (otherReference) oneWayDecisions.push({ platform: platformReference, other: otherReference, passing });
+      }
+    }
+    oneWayDecisions.sort((a, b) =>
+      compareColliderReferences(a.platform, b.platform) || compareColliderReferences(a.other, b.other));
+
+    const dropThroughs = Array.from(this.dropThroughUntil, ([entity, untilStep]) => ({ entityId: entity.id, untilStep }))
+      .sort((a, b) => a.entityId - b.entityId);
+
+    return encodePhysicsWorldState({ world, oneWayDecisions, dropThroughs });
+  }
+
+  /**
+   * Restore the physics world state and resync components from the restored bodies
+   * 恢复物理世界状态并根据恢复后的物体重新同步组件
+   */
+  restoreState(state: Uint8Array): void {
+    if (!this.physicsWorld) {
+      PhysicsLogger.warn('Physics world not available');
+      return;
+    }
+
+    const saved = decodePhysicsWorldState(state);
+    this.physicsWorld.restoreState(saved.world);
+    this.restoreOneWayState(saved);
+    this.syncComponentsFromBodies();
+  }
+
+  /**
+   * Replace the one-way platform decisions and drop-throughs with saved ones
+   * 用保存的判定和穿透下落替换当前的单向平台判定和穿透下落
+   */
+  private restoreOneWayState(saved: PhysicsWorldState): void {
+    this.oneWayContacts.clear();
+    this.dropThroughUntil.clear();
+
+    for (const decision of saved.oneWayDecisions) {
+      const platform = this.resolveColliderReference(decision.platform);
+      const other = this.resolveColliderReference(decision.other);
+      if (!platform || !other) continue;
+
+      let decisions = this.oneWayContacts.get(platform);
+      if (!decisions) {
+        decisions = new Map();
+        this.oneWayContacts.set(platform, decisions);
+      }
+      decisions.set(other, decision.passing);
+    }
+
+    for (const dropThrough of saved.dropThroughs) {
+      const entity = this.world?.getEntity(dropThrough.entityId);
+      if (entity) this.dropThroughUntil.set(entity, dropThrough.untilStep);
+    }
+  }
+
+  private resolveColliderReference(reference: ColliderReference): ICollider | null {
+    const entity = this.world?.getEntity(reference.entityId);
+    return entity ? getEntityColliders(entity)[reference.index] ?? null : null;
+  }
+
+  /**
+   * Snap transform components to their bodies and drop interpolation history.
+   * RigidBodyComponent reads its state through the body, so it is consistent once the body is.
+   * 将变换组件对齐到物体并清除插值历史。
+   * RigidBodyComponent 通过物体读取状态，因此物体一致后它也保持一致。
+   */
+  syncComponentsFromBodies(): void {
+    for (const { body, transform } of this.getTransformPairs()) {
+      transform.position = body.getPosition();
+      transform.rotation = body.getRotation();
+      transform.updatePrevious();
+    }
   }
 
   /**
@@ -136,6 +969,9 @@ export class PhysicsWorldSystem extends System {
       // Cast to collision event data (specific engines will provide proper typing)
       // 转换为碰撞事件数据（特定引擎会提供适当的类型）
       const collisionData = data as CollisionEventData;
+      if (collisionData.isEndContact && collisionData.colliderA && collisionData.colliderB) {
+        this.forgetOneWayContact(collisionData.colliderA as ICollider, collisionData.colliderB as ICollider);
+      }
       
       // Find entities associated with the colliding bodies
       // 查找与碰撞体相关的实体
@@ -143,6 +979,9 @@ export class PhysicsWorldSystem extends System {
       const entityB = this.getEntityFromBody(collisionData.bodyB);
 
       if (entityA && entityB) {
+        if (this.collisionCallbackFilter && !this.collisionCallbackFilter(entityA, entityB, collisionData.isBeginContact)) {
+          return;
+        }
         this.handleEntityCollision(entityA, entityB, collisionData);
       }
     } catch (error) {
@@ -176,51 +1015,61 @@ export class PhysicsWorldSystem extends System {
    * 处理两个实体之间的碰撞
    */
   private handleEntityCollision(entityA: Entity, entityB: Entity, collisionData: CollisionEventData): void {
-    // Handle collision events for entity A
-    const collisionCompA = entityA.getComponent(CollisionEventComponent);
-    if (collisionCompA) {
-      if (collisionData.isBeginContact) {
-        collisionCompA.onCollisionBegin.forEach(callback => {
-          try {
-            callback(entityB);
-          } catch (error) {
-            PhysicsLogger.warn(`Error in collision begin callback: ${String(error)}`);
-          }
-        });
-      } else if (collisionData.isEndContact) {
-        collisionCompA.onCollisionEnd.forEach(callback => {
-          try {
-            callback(entityB);
-          } catch (error) {
-            PhysicsLogger.warn(`Error in collision end callback: ${String(error)}`);
-          }
-        });
-      }
-    }
+    const shapeIdA = getCompoundShapeId(entityA, collisionData.colliderA);
+    const shapeIdB = getCompoundShapeId(entityB, collisionData.colliderB);
 
-    // Handle collision events for entity B
-    const collisionCompB = entityB.getComponent(CollisionEventComponent);
-    if (collisionCompB) {
-      if (collisionData.isBeginContact) {
-        collisionCompB.onCollisionBegin.forEach(callback => {
-          try {
-            callback(entityA);
-          } catch (error) {
-            PhysicsLogger.warn(`Error in collision begin callback: ${String(error)}`);
-          }
-        });
-      } else if (collisionData.isEndContact) {
-        collisionCompB.onCollisionEnd.forEach(callback => {
-          try {
-            callback(entityA);
-          } catch (error) {
-            PhysicsLogger.warn(`Error in collision end callback: ${String(error)}`);
-          }
-        });
-      }
+    this.invokeCollisionCallbacks(entityA, entityB, collisionData, { colliderId: shapeIdA, otherColliderId: shapeIdB });
+    this.invokeCollisionCallbacks(entityB, entityA, collisionData, { colliderId: shapeIdB, otherColliderId: shapeIdA });
+  }
+
+  /**
+   * Invoke the collision callbacks of one entity
+   * 调用单个实体的碰撞回调
+   */
+  private invokeCollisionCallbacks(
+    entity: Entity,
+    other: Entity,
+    collisionData: CollisionEventData,
+    ids: CollisionColliderIds
+  ): void {
+    const collisionComp = entity.getComponent(CollisionEventComponent);
+    if (!collisionComp) return;
+
+    if (collisionData.isBeginContact) {
+      collisionComp.onCollisionBegin.forEach(callback => {
+        try {
+          callback(other, ids);
+        } catch (error) {
+          PhysicsLogger.warn(`Error in collision begin callback: ${String(error)}`);
+        }
+      });
+    } else if (collisionData.isEndContact) {
+      collisionComp.onCollisionEnd.forEach(callback => {
+        try {
+          callback(other, ids);
+        } catch (error) {
+          PhysicsLogger.warn(`Error in collision end callback: ${String(error)}`);
+        }
+      });
     }
   }
 
+  /**
+   * Id entities use to select this world
+   * 实体用于选择此世界的ID
+   */
+  getWorldId(): string {
+    return this.worldId;
+  }
+
+  /**
+   * Whether an entity belongs to this world
+   * 实体是否属于此世界
+   */
+  ownsEntity(entity: Entity): boolean {
+    return getEntityWorldId(entity) === this.worldId;
+  }
+
   /**
    * Get the physics world
    * 获取物理世界
@@ -237,6 +1086,31 @@ export class PhysicsWorldSystem extends System {
     return this.engine;
   }
 
+  /**
+   * Set the features of the engine, as reported by its factory's getSupportedFeatures().
+   * Physics plugins do this for every world system they create.
+   * 设置引擎的功能列表，取自其工厂的 getSupportedFeatures()。物理插件会为其创建的每个世界系统进行设置。
+   */
+  setSupportedFeatures(features: readonly string[]): void {
+    this.supportedFeatures = new Set(features);
+  }
+
+  /**
+   * Whether the engine supports a feature; always false before setSupportedFeatures
+   * 引擎是否支持某个功能；调用 setSupportedFeatures 之前始终为false
+   */
+  isFeatureSupported(feature: string): boolean {
+    return this.supportedFeatures?.has(feature) ?? false;
+  }
+
+  /**
+   * Whether the engine features have been set
+   * 是否已设置引擎功能列表
+   */
+  hasSupportedFeatures(): boolean {
+    return this.supportedFeatures !== null;
+  }
+
   /**
    * Set gravity
    * 设置重力
@@ -270,12 +1144,22 @@ export class PhysicsWorldSystem extends System {
  * 管理刚体创建和更新的物理刚体系统
  */
 export class PhysicsBodySystem extends System {
-  /** Physics world system reference | 物理世界系统引用 */
-  private worldSystem: PhysicsWorldSystem;
+  /** World systems entities are routed to | 实体被路由到的世界系统 */
+  private worldSystems: PhysicsWorldSystem[];
 
-  constructor(worldSystem: PhysicsWorldSystem) {
+  constructor(worldSystems: PhysicsWorldSystem | PhysicsWorldSystem[]) {
     super([RigidBodyComponent]);
-    this.worldSystem = worldSystem;
+    this.worldSystems = Array.isArray(worldSystems) ? worldSystems.slice() : [worldSystems];
+  }
+
+  /**
+   * Route entities with a matching PhysicsWorldIdComponent to another world system
+   * 将具有匹配 PhysicsWorldIdComponent 的实体路由到另一个世界系统
+   */
+  addWorldSystem(worldSystem: PhysicsWorldSystem): void {
+    if (!this.worldSystems.includes(worldSystem)) {
+      this.worldSystems.push(worldSystem);
+    }
   }
 
   /**
@@ -285,14 +1169,18 @@ export class PhysicsBodySystem extends System {
   onEntityAdded(entity: Entity): void {
     const rigidBodyComp = entity.getComponent(RigidBodyComponent);
     const transformComp = entity.getComponent(PhysicsTransformComponent);
-    const physicsWorld = this.worldSystem.getPhysicsWorld();
-    const engine = this.worldSystem.getEngine();
 
     if (!rigidBodyComp) {
       PhysicsLogger.warn(`Entity ${entity.id} missing RigidBodyComponent`);
       return;
     }
 
+    const worldSystem = findWorldSystem(this.worldSystems, entity);
+    if (!worldSystem) return;
+
+    const physicsWorld = worldSystem.getPhysicsWorld();
+    const engine = worldSystem.getEngine();
+
     if (!physicsWorld || !engine) {
       PhysicsLogger.warn('Physics world or engine not available');
       return;
@@ -338,6 +1226,8 @@ export class PhysicsBodySystem extends System {
    * 处理移除了刚体组件的实体
    */
   onEntityRemoved(entity: Entity): void {
+    findWorldSystem(this.worldSystems, entity)?.forgetEntity(entity);
+
     const rigidBodyComp = entity.getComponent(RigidBodyComponent);
     if (rigidBodyComp?.body) {
       rigidBodyComp.body.destroy();
@@ -374,12 +1264,22 @@ export class PhysicsBodySystem extends System {
  * 管理碰撞器创建和更新的物理碰撞器系统
  */
 export class PhysicsColliderSystem extends System {
-  /** Physics world system reference | 物理世界系统引用 */
-  private worldSystem: PhysicsWorldSystem;
+  /** World systems entities are routed to | 实体被路由到的世界系统 */
+  private worldSystems: PhysicsWorldSystem[];
 
-  constructor(worldSystem: PhysicsWorldSystem) {
+  constructor(worldSystems: PhysicsWorldSystem | PhysicsWorldSystem[]) {
     super([ColliderComponent, RigidBodyComponent]);
-    this.worldSystem = worldSystem;
+    this.worldSystems = Array.isArray(worldSystems) ? worldSystems.slice() : [worldSystems];
+  }
+
+  /**
+   * Route entities with a matching PhysicsWorldIdComponent to another world system
+   * 将具有匹配 PhysicsWorldIdComponent 的实体路由到另一个世界系统
+   */
+  addWorldSystem(worldSystem: PhysicsWorldSystem): void {
+    if (!this.worldSystems.includes(worldSystem)) {
+      this.worldSystems.push(worldSystem);
+    }
   }
 
   /**
@@ -389,7 +1289,6 @@ export class PhysicsColliderSystem extends System {
   onEntityAdded(entity: Entity): void {
     const colliderComp = entity.getComponent(ColliderComponent);
     const rigidBodyComp = entity.getComponent(RigidBodyComponent);
-    const engine = this.worldSystem.getEngine();
 
     if (!colliderComp || !rigidBodyComp) {
       PhysicsLogger.warn(`Entity ${entity.id} missing required components`);
@@ -400,28 +1299,55 @@ export class PhysicsColliderSystem extends System {
       return;
     }
 
+    const worldSystem = findWorldSystem(this.worldSystems, entity);
+    if (!worldSystem) return;
+
+    const engine = worldSystem.getEngine();
+
     if (!engine) {
       PhysicsLogger.warn('Physics engine not available');
       return;
     }
 
+    const config = resolveValidatedConfig(
+      validateColliderConfig(colliderComp.config),
+      `collider config of entity ${entity.id}`
+    );
+    if (!config) return;
+
+    const created: ICollider[] = [];
     try {
-      // Create the collider
-      colliderComp.collider = engine.createCollider(
-        rigidBodyComp.body,
-        colliderComp.config,
-        colliderComp.material
-      );
+      // Engines without native capsules get a polygon plus end circles instead
+      // 不支持原生胶囊的引擎改用多边形加两端的圆
+      const body = rigidBodyComp.body;
+      const parts = adaptColliderConfig(config, worldSystem, `collider of entity ${entity.id}`);
 
-      // Set additional properties
-      if (colliderComp.collider) {
-        colliderComp.collider.setFilter(colliderComp.filter);
-        colliderComp.collider.setSensor(colliderComp.isSensor);
-        colliderComp.collider.setUserData(entity);
+      // Create every part before storing any, so a failure leaves no half collider behind
+      // 先创建所有部分再保存，失败时不会留下只创建了一部分的碰撞器
+      for (const part of parts) {
+        const collider = engine.createCollider(body, part, colliderComp.material);
+        created.push(collider);
+        collider.setFilter(colliderComp.filter);
+        collider.setSensor(colliderComp.isSensor);
+        collider.setUserData(entity);
+      }
+      const [primary, ...fallbacks] = created;
+      colliderComp.collider = primary!;
+      colliderComp.fallbackColliders = fallbacks;
+
+      if (colliderComp.oneWay && !worldSystem.getPhysicsWorld()?.onPreSolve) {
+        PhysicsLogger.warn(`Collider of entity ${entity.id} is one-way, but engine '${engine.name}' has no pre-solve hook; it blocks from every side`);
+      }
+      if (hasSurfaceSpeed(colliderComp.material) &&
+          !supportsFeature(worldSystem, SURFACE_SPEED_FEATURE, `collider of entity ${entity.id}`)) {
+        PhysicsLogger.warn(`Collider of entity ${entity.id} has a surface speed, but engine '${engine.name}' does not support it; the surface stays still`);
       }
 
       PhysicsLogger.log(`Created collider for entity ${entity.id}`);
     } catch (error) {
+      for (const collider of created) {
+        collider.destroy();
+      }
       PhysicsLogger.error(`Failed to create collider for entity ${entity.id}: ${String(error)}`);
     }
   }
@@ -433,9 +1359,16 @@ export class PhysicsColliderSystem extends System {
   onEntityRemoved(entity: Entity): void {
     const colliderComp = entity.getComponent(ColliderComponent);
     if (colliderComp?.collider) {
+      findWorldSystem(this.worldSystems, entity)?.forgetColliders([colliderComp.collider, ...colliderComp.fallbackColliders]);
       colliderComp.collider.destroy();
       colliderComp.collider = null;
     }
+    if (colliderComp) {
+      for (const collider of colliderComp.fallbackColliders) {
+        collider.destroy();
+      }
+      colliderComp.fallbackColliders = [];
+    }
   }
 
   update(entities: Entity[], _deltaTime: number): void {
@@ -444,22 +1377,25 @@ export class PhysicsColliderSystem extends System {
       const colliderComp = entity.getComponent(ColliderComponent);
       
       if (!colliderComp) continue;
+
+      if (colliderComp.dirtyHeights) {
+        this.syncHeights(entity, colliderComp);
+      }
       
       if (colliderComp.collider) {
         try {
-          // Update material if it has changed
-          // 如果材质发生变化，更新材质
-          const currentMaterial = colliderComp.collider.getMaterial();
-          if (!currentMaterial.friction.equals(colliderComp.material.friction) ||
-              !currentMaterial.restitution.equals(colliderComp.material.restitution) ||
-              !currentMaterial.density.equals(colliderComp.material.density)) {
-            colliderComp.collider.setMaterial(colliderComp.material);
-          }
+          for (const collider of [colliderComp.collider, ...colliderComp.fallbackColliders]) {
+            // Update material if it has changed
+            // 如果材质发生变化，更新材质
+            if (!sameMaterial(collider.getMaterial(), colliderComp.material)) {
+              collider.setMaterial(colliderComp.material);
+            }
 
-          // Update sensor state if it has changed
-          // 如果传感器状态发生变化，更新状态
-          if (colliderComp.collider.isSensor() !== colliderComp.isSensor) {
-            colliderComp.collider.setSensor(colliderComp.isSensor);
+            // Update sensor state if it has changed
+            // 如果传感器状态发生变化，更新状态
+            if (collider.isSensor() !== colliderComp.isSensor) {
+              collider.setSensor(colliderComp.isSensor);
+            }
           }
         } catch (error) {
           PhysicsLogger.warn(`Failed to update collider properties for entity ${entity.id}: ${String(error)}`);
@@ -467,6 +1403,201 @@ export class PhysicsColliderSystem extends System {
       }
     }
   }
+
+  /**
+   * Apply changed heightfield samples in place on a native heightfield, otherwise rebuild the colliders
+   * 在原生高度场上原地应用变化的采样，否则重建碰撞器
+   */
+  private syncHeights(entity: Entity, colliderComp: ColliderComponent): void {
+    const range = colliderComp.dirtyHeights;
+    colliderComp.dirtyHeights = null;
+    if (!range || !colliderComp.collider || colliderComp.config.type !== ColliderType.Heightfield) return;
+
+    const worldSystem = findWorldSystem(this.worldSystems, entity);
+    if (!worldSystem) return;
+
+    const collider = colliderComp.collider;
+    if (worldSystem.isFeatureSupported(HEIGHTFIELD_COLLIDER_FEATURE) && collider.setHeights) {
+      collider.setHeights(range.start, colliderComp.config.heights.slice(range.start, range.end));
+      return;
+    }
+
+    this.onEntityRemoved(entity);
+    this.onEntityAdded(entity);
+  }
+}
+
+/**
+ * Physics compound collider system that creates one engine collider per shape of a CompoundColliderComponent
+ * 为 CompoundColliderComponent 的每个形状创建一个引擎碰撞器的物理复合碰撞器系统
+ */
+export class PhysicsCompoundColliderSystem extends System {
+  /** World systems entities are routed to | 实体被路由到的世界系统 */
+  private worldSystems: PhysicsWorldSystem[];
+
+  constructor(worldSystems: PhysicsWorldSystem | PhysicsWorldSystem[]) {
+    super([CompoundColliderComponent, RigidBodyComponent]);
+    this.worldSystems = Array.isArray(worldSystems) ? worldSystems.slice() : [worldSystems];
+  }
+
+  /**
+   * Route entities with a matching PhysicsWorldIdComponent to another world system
+   * 将具有匹配 PhysicsWorldIdComponent 的实体路由到另一个世界系统
+   */
+  addWorldSystem(worldSystem: PhysicsWorldSystem): void {
+    if (!this.worldSystems.includes(worldSystem)) {
+      this.worldSystems.push(worldSystem);
+    }
+  }
+
+  /**
+   * Create a collider for every shape; a shape that fails is logged and skipped
+   * 为每个形状创建碰撞器；失败的形状会被记录并跳过
+   */
+  onEntityAdded(entity: Entity): void {
+    const compound = entity.getComponent(CompoundColliderComponent);
+    const rigidBodyComp = entity.getComponent(RigidBodyComponent);
+
+    if (!compound || !rigidBodyComp) {
+      PhysicsLogger.warn(`Entity ${entity.id} missing required components`);
+      return;
+    }
+    if (!rigidBodyComp.body) {
+      PhysicsLogger.warn(`Entity ${entity.id} has CompoundColliderComponent but no physics body`);
+      return;
+    }
+
+    const worldSystem = findWorldSystem(this.worldSystems, entity);
+    if (!worldSystem) return;
+
+    const engine = worldSystem.getEngine();
+
+    if (!engine) {
+      PhysicsLogger.warn('Physics engine not available');
+      return;
+    }
+
+    compound.colliders.clear();
+    compound.fallbackColliders.clear();
+    compound.pendingShapeIds.clear();
+    for (const shape of compound.shapes) {
+      this.createShapeCollider(entity, compound, rigidBodyComp.body, worldSystem, shape);
+    }
+
+    PhysicsLogger.log(`Created ${compound.colliders.size} compound colliders for entity ${entity.id}`);
+  }
+
+  /**
+   * Destroy every collider of the compound
+   * 销毁复合碰撞器的所有碰撞器
+   */
+  onEntityRemoved(entity: Entity): void {
+    const compound = entity.getComponent(CompoundColliderComponent);
+    if (!compound) return;
+
+    const worldSystem = findWorldSystem(this.worldSystems, entity);
+    worldSystem?.forgetColliders(compound.removedColliders.splice(0));
+    for (const shape of compound.shapes) {
+      const colliders = compound.getShapeColliders(shape.id);
+      worldSystem?.forgetColliders(colliders);
+      for (const collider of colliders) {
+        collider.destroy();
+      }
+    }
+    compound.colliders.clear();
+    compound.fallbackColliders.clear();
+  }
+
+  update(entities: Entity[], _deltaTime: number): void {
+    for (const entity of entities) {
+      const compound = entity.getComponent(CompoundColliderComponent);
+      if (!compound) continue;
+
+      if (compound.pendingShapeIds.size > 0) {
+        this.createPendingColliders(entity, compound);
+      }
+      if (compound.removedColliders.length > 0) {
+        findWorldSystem(this.worldSystems, entity)?.forgetColliders(compound.removedColliders.splice(0));
+      }
+
+      for (const shape of compound.shapes) {
+        try {
+          // Update material and sensor state if they have changed
+          // 如果材质或传感器状态发生变化，进行更新
+          const material = compound.getShapeMaterial(shape);
+          const isSensor = compound.isShapeSensor(shape);
+          for (const collider of compound.getShapeColliders(shape.id)) {
+            if (!sameMaterial(collider.getMaterial(), material)) {
+              collider.setMaterial(material);
+            }
+            if (collider.isSensor() !== isSensor) {
+              collider.setSensor(isSensor);
+            }
+          }
+        } catch (error) {
+          PhysicsLogger.warn(`Failed to update compound collider properties for entity ${entity.id}: ${String(error)}`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Create colliders for shapes added since the entity was set up; each is attempted once
+   * 为实体设置之后添加的形状创建碰撞器；每个形状只尝试一次
+   */
+  private createPendingColliders(entity: Entity, compound: CompoundColliderComponent): void {
+    const body = entity.getComponent(RigidBodyComponent)?.body;
+    const worldSystem = body ? findWorldSystem(this.worldSystems, entity) : null;
+    if (!body || !worldSystem) return;
+
+    for (const shape of compound.shapes) {
+      if (compound.pendingShapeIds.has(shape.id)) {
+        this.createShapeCollider(entity, compound, body, worldSystem, shape);
+      }
+    }
+    compound.pendingShapeIds.clear();
+  }
+
+  /**
+   * Validate a shape and create its collider, plus fallback parts the engine needs, logging failures
+   * 校验形状并创建其碰撞器以及引擎所需的替代部分，失败时记录日志
+   */
+  private createShapeCollider(
+    entity: Entity,
+    compound: CompoundColliderComponent,
+    body: IRigidBody,
+    worldSystem: PhysicsWorldSystem,
+    shape: CompoundColliderShape
+  ): void {
+    const config = resolveValidatedConfig(
+      validateColliderConfig(shape.config),
+      `collider config '${shape.id}' of entity ${entity.id}`
+    );
+    if (!config) return;
+
+    const engine = worldSystem.getEngine();
+    const material = compound.getShapeMaterial(shape);
+    const created: ICollider[] = [];
+    try {
+      const parts = adaptColliderConfig(config, worldSystem, `collider '${shape.id}' of entity ${entity.id}`);
+      for (const part of parts) {
+        const collider = engine.createCollider(body, part, material);
+        created.push(collider);
+        collider.setFilter(compound.getShapeFilter(shape));
+        collider.setSensor(compound.isShapeSensor(shape));
+        collider.setUserData(entity);
+      }
+      const [primary, ...fallbacks] = created;
+      compound.colliders.set(shape.id, primary!);
+      if (fallbacks.length > 0) compound.fallbackColliders.set(shape.id, fallbacks);
+    } catch (error) {
+      // Don't leave half a shape behind | 不留下只创建了一部分的形状
+      for (const collider of created) {
+        collider.destroy();
+      }
+      PhysicsLogger.error(`Failed to create collider '${shape.id}' for entity ${entity.id}: ${String(error)}`);
+    }
+  }
 }
 
 /**
@@ -474,12 +1605,22 @@ export class PhysicsColliderSystem extends System {
  * 管理关节创建和更新的物理关节系统
  */
 export class PhysicsJointSystem extends System {
-  /** Physics world system reference | 物理世界系统引用 */
-  private worldSystem: PhysicsWorldSystem;
+  /** World systems entities are routed to | 实体被路由到的世界系统 */
+  private worldSystems: PhysicsWorldSystem[];
 
-  constructor(worldSystem: PhysicsWorldSystem) {
+  constructor(worldSystems: PhysicsWorldSystem | PhysicsWorldSystem[]) {
     super([JointComponent]);
-    this.worldSystem = worldSystem;
+    this.worldSystems = Array.isArray(worldSystems) ? worldSystems.slice() : [worldSystems];
+  }
+
+  /**
+   * Route entities with a matching PhysicsWorldIdComponent to another world system
+   * 将具有匹配 PhysicsWorldIdComponent 的实体路由到另一个世界系统
+   */
+  addWorldSystem(worldSystem: PhysicsWorldSystem): void {
+    if (!this.worldSystems.includes(worldSystem)) {
+      this.worldSystems.push(worldSystem);
+    }
   }
 
   /**
@@ -494,8 +1635,11 @@ export class PhysicsJointSystem extends System {
       return;
     }
     
-    const physicsWorld = this.worldSystem.getPhysicsWorld();
-    const engine = this.worldSystem.getEngine();
+    const worldSystem = findWorldSystem(this.worldSystems, entity);
+    if (!worldSystem) return;
+
+    const physicsWorld = worldSystem.getPhysicsWorld();
+    const engine = worldSystem.getEngine();
 
     if (!physicsWorld || !engine) {
       PhysicsLogger.warn('Physics world or engine not available');
@@ -506,9 +1650,15 @@ export class PhysicsJointSystem extends System {
       return; // Skip inactive joints
     }
 
+    const config = resolveValidatedConfig(
+      validateJointConfig(jointComp.config as JointConfig),
+      `joint config of entity ${entity.id}`
+    );
+    if (!config) return;
+
     try {
       // Create the joint
-      jointComp.joint = engine.createJoint(physicsWorld, jointComp.config as BaseJointConfig);
+      jointComp.joint = engine.createJoint(physicsWorld, config);
       
       if (jointComp.joint) {
         jointComp.joint.setUserData(entity);
@@ -0,0 +1,1112 @@
+import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
+import {
+  IPhysicsEngine,
+  IPhysicsWorld,
+  IRigidBody,
+  ICollider,
+  IJoint,
+  IPhysicsEngineFactory,
+  OverlapHit,
+  PhysicsContact
+} from '../interfaces/IPhysicsEngine';
+import {
+  PhysicsWorldConfig,
+  RigidBodyConfig,
+  ColliderConfig,
+  PhysicsMaterial,
+  CollisionFilter,
+  CollisionEventData,
+  ContactPoint,
+  RaycastInput,
+  RaycastResult,
+  ShapeCastInput,
+  ShapeCastResult,
+  OverlapQueryOptions,
+  BaseJointConfig,
+  MassData
+} from '../types/PhysicsTypes';
+import { resolveRaycastHits } from '../utils/RaycastUtils';
+import { PreSolveEvent } from '../events/PhysicsEvents';
+import { computeColliderMassProperties, combineMassProperties } from '../geometry/MassProperties';
+import { SnapshotReader, SnapshotWriter } from '../engine/DeterministicSnapshot';
+
+/**
+ * A recorded call on the mock engine, world or one of its objects
+ * 在模拟引擎、世界或其对象上记录的调用
+ */
+export interface MockPhysicsCall {
+  /** Method name, e.g. `createRigidBody` or `applyForce` | 方法名，例如 `createRigidBody` 或 `applyForce` */
+  method: string;
+  /** Call arguments | 调用参数 */
+  args: unknown[];
+  /** Object the call was made on | 调用所在的对象 */
+  target: unknown;
+}
+
+/**
+ * Expected properties of a created body; `entityId` matches the entity stored in userData
+ * 已创建物体的预期属性；`entityId` 匹配存储在userData中的实体
+ */
+export type MockBodyMatcher = Partial<RigidBodyConfig> & { entityId?: number };
+
+/**
+ * Expected properties of a created collider
+ * 已创建碰撞器的预期属性
+ */
+export interface MockColliderMatcher {
+  /** Entity stored in the owning body's userData | 所属物体userData中存储的实体 */
+  entityId?: number;
+  /** Partial collider configuration | 部分碰撞器配置 */
+  config?: Partial<ColliderConfig>;
+  /** Partial material | 部分材质 */
+  material?: Partial<PhysicsMaterial>;
+  /** Sensor flag | 传感器标志 */
+  isSensor?: boolean;
+}
+
+/**
+ * Expected properties of a created joint
+ * 已创建关节的预期属性
+ */
+export type MockJointMatcher = Partial<BaseJointConfig> & Record<string, unknown>;
+
+/**
+ * Overlap query received by the mock world
+ * 模拟世界收到的重叠查询
+ */
+export type MockOverlapQuery =
+  | { kind: 'point'; point: FixedVector2; options: OverlapQueryOptions }
+  | { kind: 'circle'; center: FixedVector2; radius: Fixed; options: OverlapQueryOptions }
+  | { kind: 'shape'; shape: ColliderConfig; position: FixedVector2; rotation: Fixed; options: OverlapQueryOptions };
+
+/**
+ * Body state stored in mock world snapshots
+ * 模拟世界快照中存储的物体状态
+ */
+export interface MockBodyState {
+  position: FixedVector2;
+  rotation: Fixed;
+  linearVelocity: FixedVector2;
+  angularVelocity: Fixed;
+  awake: boolean;
+  active: boolean;
+}
+
+/**
+ * Call recorder shared by the engine and everything it creates
+ * 引擎及其创建的所有对象共享的调用记录器
+ */
+type MockRecorder = (target: unknown, method: string, args: unknown[]) => void;
+
+/**
+ * Get the entity id stored in an object's user data
+ * 获取对象用户数据中存储的实体ID
+ */
+function entityIdOf(userData: unknown): number | undefined {
+  if (userData && typeof userData === 'object' && 'id' in userData) {
+    const id = (userData as { id: unknown }).id;
+    return typeof id === 'number' ? id : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Compare an actual value against an expected one; Fixed and FixedVector2 compare by value,
+ * plain objects compare their expected keys only
+ * 比较实际值与期望值；Fixed和FixedVector2按值比较，普通对象只比较期望的键
+ */
+function matchesValue(actual: unknown, expected: unknown): boolean {
+  if (expected instanceof Fixed) {
+    return actual instanceof Fixed && actual.equals(expected);
+  }
+  if (expected instanceof FixedVector2) {
+    return actual instanceof FixedVector2 && actual.x.equals(expected.x) && actual.y.equals(expected.y);
+  }
+  if (Array.isArray(expected)) {
+    return (
+      Array.isArray(actual) &&
+      actual.length === expected.length &&
+      expected.every((value, index) => matchesValue(actual[index], value))
+    );
+  }
+  if (expected && typeof expected === 'object') {
+    if (!actual || typeof actual !== 'object') return false;
+    return Object.entries(expected).every(([key, value]) =>
+      matchesValue((actual as Record<string, unknown>)[key], value)
+    );
+  }
+  return actual === expected;
+}
+
+/**
+ * Describe a value for assertion messages
+ * 为断言消息描述值
+ */
+function describe(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) => (v instanceof Fixed ? v.toNumber() : v));
+}
+
+/**
+ * Rigid body that stores its state and records every call
+ * 存储自身状态并记录每次调用的刚体
+ */
+export class MockRigidBody implements IRigidBody {
+  /** Configuration the body was created with | 创建物体时的配置 */
+  public readonly config: RigidBodyConfig;
+
+  /** World the body belongs to | 物体所属的世界 */
+  public readonly world: MockPhysicsWorld;
+
+  /** Colliders attached to this body | 附加到此物体的碰撞器 */
+  public readonly colliders: MockCollider[] = [];
+
+  /** Whether destroy() was called | 是否调用了destroy() */
+  public destroyed: boolean = false;
+
+  private position: FixedVector2;
+  private rotation: Fixed;
+  private linearVelocity: FixedVector2;
+  private angularVelocity: Fixed;
+  private mass: Fixed = Fixed.ONE;
+  private localCenter: FixedVector2 = new FixedVector2();
+  private inertia: Fixed = Fixed.ZERO;
+  private awake: boolean;
+  private active: boolean = true;
+  private userData: unknown;
+  private readonly record: MockRecorder;
+
+  constructor(world: MockPhysicsWorld, config: RigidBodyConfig, record: MockRecorder) {
+    this.world = world;
+    this.config = config;
+    this.record = record;
+    this.position = config.position;
+    this.rotation = config.rotation ?? Fixed.ZERO;
+    this.linearVelocity = config.linearVelocity ?? new FixedVector2();
+    this.angularVelocity = config.angularVelocity ?? Fixed.ZERO;
+    this.awake = config.awake ?? true;
+    this.userData = config.userData;
+  }
+
+  /**
+   * Capture position, rotation, velocities and flags without recording a call
+   * 捕获位置、旋转、速度和标志，不记录调用
+   */
+  captureState(): MockBodyState {
+    return {
+      position: this.position,
+      rotation: this.rotation,
+      linearVelocity: this.linearVelocity,
+      angularVelocity: this.angularVelocity,
+      awake: this.awake,
+      active: this.active
+    };
+  }
+
+  /**
+   * Apply a captured state without recording a call
+   * 应用捕获的状态，不记录调用
+   */
+  applyState(state: MockBodyState): void {
+    this.position = state.position;
+    this.rotation = state.rotation;
+    this.linearVelocity = state.linearVelocity;
+    this.angularVelocity = state.angularVelocity;
+    this.awake = state.awake;
+    this.active = state.active;
+  }
+
+  /**
+   * Entity id stored in user data, if any
+   * 用户数据中存储的实体ID（如果有）
+   */
+  getEntityId(): number | undefined {
+    return entityIdOf(this.userData);
+  }
+
+  getPosition(): FixedVector2 {
+    return this.position;
+  }
+
+  setPosition(position: FixedVector2): void {
+    this.record(this, 'setPosition', [position]);
+    this.position = position;
+  }
+
+  getRotation(): Fixed {
+    return this.rotation;
+  }
+
+  setRotation(rotation: Fixed): void {
+    this.record(this, 'setRotation', [rotation]);
+    this.rotation = rotation;
+  }
+
+  getLinearVelocity(): FixedVector2 {
+    return this.linearVelocity;
+  }
+
+  setLinearVelocity(velocity: FixedVector2): void {
+    this.record(this, 'setLinearVelocity', [velocity]);
+    this.linearVelocity = velocity;
+  }
+
+  getAngularVelocity(): Fixed {
+    return this.angularVelocity;
+  }
+
+  setAngularVelocity(velocity: Fixed): void {
+    this.record(this, 'setAngularVelocity', [velocity]);
+    this.angularVelocity = velocity;
+  }
+
+  applyForce(force: FixedVector2): void {
+    this.record(this, 'applyForce', [force]);
+  }
+
+  applyForceAtPoint(force: FixedVector2, point: FixedVector2): void {
+    this.record(this, 'applyForceAtPoint', [force, point]);
+  }
+
+  applyImpulse(impulse: FixedVector2): void {
+    this.record(this, 'applyImpulse', [impulse]);
+  }
+
+  applyImpulseAtPoint(impulse: FixedVector2, point: FixedVector2): void {
+    this.record(this, 'applyImpulseAtPoint', [impulse, point]);
+  }
+
+  applyTorque(torque: Fixed): void {
+    this.record(this, 'applyTorque', [torque]);
+  }
+
+  getMass(): Fixed {
+    return this.mass;
+  }
+
+  setMass(mass: Fixed): void {
+    this.record(this, 'setMass', [mass]);
+    this.mass = mass;
+  }
+
+  getMassData(): MassData {
+    return { mass: this.mass, center: this.localCenter, inertia: this.inertia };
+  }
+
+  setMassData(massData: MassData): void {
+    this.record(this, 'setMassData', [massData]);
+    this.mass = massData.mass;
+    this.localCenter = massData.center;
+    this.inertia = massData.inertia;
+  }
+
+  /**
+   * Recompute mass data from the collider configs and material densities; a massless body gets mass 1
+   * 根据碰撞器配置和材质密度重新计算质量数据；无质量的物体质量为1
+   */
+  resetMassData(): void {
+    this.record(this, 'resetMassData', []);
+    const massData = combineMassProperties(
+      this.colliders
+        .filter(collider => !collider.destroyed)
+        .map(collider => computeColliderMassProperties(collider.config, collider.getMaterial().density))
+    );
+    this.mass = massData.mass.greaterThan(Fixed.ZERO) ? massData.mass : Fixed.ONE;
+    this.localCenter = massData.center;
+    this.inertia = massData.inertia;
+  }
+
+  isAwake(): boolean {
+    return this.awake;
+  }
+
+  setAwake(awake: boolean): void {
+    this.record(this, 'setAwake', [awake]);
+    this.awake = awake;
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  setActive(active: boolean): void {
+    this.record(this, 'setActive', [active]);
+    this.active = active;
+  }
+
+  getUserData(): unknown {
+    return this.userData;
+  }
+
+  setUserData(data: unknown): void {
+    this.record(this, 'setUserData', [data]);
+    this.userData = data;
+  }
+
+  getColliders(): MockCollider[] {
+    return this.colliders.filter(collider => !collider.destroyed);
+  }
+
+  getJoints(): MockJoint[] {
+    return Array.from(this.world.getJoints())
+      .filter(joint => joint.getBodyA() === this || joint.getBodyB() === this);
+  }
+
+  getContacts(): PhysicsContact[] {
+    return this.world.contacts.filter(contact => contact.bodyA === this || contact.bodyB === this);
+  }
+
+  destroy(): void {
+    this.record(this, 'destroy', []);
+    this.destroyed = true;
+  }
+}
+
+/**
+ * Collider that stores its state and records every call
+ * 存储自身状态并记录每次调用的碰撞器
+ */
+export class MockCollider implements ICollider {
+  /** Configuration the collider was created with | 创建碰撞器时的配置 */
+  public readonly config: ColliderConfig;
+
+  /** Whether destroy() was called | 是否调用了destroy() */
+  public destroyed: boolean = false;
+
+  private readonly body: MockRigidBody;
+  private material: PhysicsMaterial;
+  private filter: CollisionFilter = { categoryBits: 0x0001, maskBits: 0xFFFF, groupIndex: 0 };
+  private sensor: boolean = false;
+  private userData: unknown = null;
+  private readonly record: MockRecorder;
+
+  constructor(body: MockRigidBody, config: ColliderConfig, material: PhysicsMaterial, record: MockRecorder) {
+    this.body = body;
+    this.config = config;
+    this.material = material;
+    this.record = record;
+  }
+
+  getBody(): MockRigidBody {
+    return this.body;
+  }
+
+  setMaterial(material: PhysicsMaterial): void {
+    this.record(this, 'setMaterial', [material]);
+    this.material = material;
+  }
+
+  getMaterial(): PhysicsMaterial {
+    return this.material;
+  }
+
+  setFilter(filter: CollisionFilter): void {
+    this.record(this, 'setFilter', [filter]);
+    this.filter = filter;
+  }
+
+  getFilter(): CollisionFilter {
+    return this.filter;
+  }
+
+  setSensor(isSensor: boolean): void {
+    this.record(this, 'setSensor', [isSensor]);
+    this.sensor = isSensor;
+  }
+
+  isSensor(): boolean {
+    return this.sensor;
+  }
+
+  getUserData(): unknown {
+    return this.userData;
+  }
+
+  setUserData(data: unknown): void {
+    this.record(this, 'setUserData', [data]);
+    this.userData = data;
+  }
+
+  destroy(): void {
+    this.record(this, 'destroy', []);
+    this.destroyed = true;
+  }
+}
+
+/**
+ * Joint that stores its state and records every call
+ * 存储自身状态并记录每次调用的关节
+ */
+export class MockJoint implements IJoint {
+  /** Configuration the joint was created with | 创建关节时的配置 */
+  public readonly config: BaseJointConfig;
+
+  /** Whether destroy() was called | 是否调用了destroy() */
+  public destroyed: boolean = false;
+
+  /** Scripted reaction force | 预设的反作用力 */
+  public reactionForce: FixedVector2 = new FixedVector2();
+
+  /** Scripted reaction torque | 预设的反作用扭矩 */
+  public reactionTorque: Fixed = Fixed.ZERO;
+
+  /** Scripted active state | 预设的激活状态 */
+  public active: boolean = true;
+
+  private userData: unknown;
+  private readonly record: MockRecorder;
+
+  constructor(config: BaseJointConfig, record: MockRecorder) {
+    this.config = config;
+    this.userData = config.userData;
+    this.record = record;
+  }
+
+  getBodyA(): IRigidBody {
+    return this.config.bodyA as IRigidBody;
+  }
+
+  getBodyB(): IRigidBody {
+    return this.config.bodyB as IRigidBody;
+  }
+
+  getReactionForce(): FixedVector2 {
+    return this.reactionForce;
+  }
+
+  getReactionTorque(): Fixed {
+    return this.reactionTorque;
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  getUserData(): unknown {
+    return this.userData;
+  }
+
+  setUserData(data: unknown): void {
+    this.record(this, 'setUserData', [data]);
+    this.userData = data;
+  }
+
+  destroy(): void {
+    this.record(this, 'destroy', []);
+    this.destroyed = true;
+    this.active = false;
+  }
+}
+
+/**
+ * Physics world that performs no simulation; tests script its answers instead
+ * 不执行模拟的物理世界；由测试预设其返回结果
+ */
+export class MockPhysicsWorld implements IPhysicsWorld {
+  /** Configuration the world was created with | 创建世界时的配置 */
+  public readonly config: PhysicsWorldConfig;
+
+  /** Bodies created in this world | 在此世界中创建的物体 */
+  public readonly bodies: MockRigidBody[] = [];
+
+  /** Joints created in this world | 在此世界中创建的关节 */
+  public readonly joints: MockJoint[] = [];
+
+  /** Time steps passed to step() | 传递给step()的时间步长 */
+  public readonly steps: Fixed[] = [];
+
+  /** Scripted touching contacts | 预设的正在接触的接触 */
+  public contacts: PhysicsContact[] = [];
+
+  /** Whether destroy() was called | 是否调用了destroy() */
+  public destroyed: boolean = false;
+
+  private gravity: FixedVector2;
+  private readonly listeners: Array<(data: CollisionEventData) => void> = [];
+  private readonly preSolveListeners: Array<(event: PreSolveEvent) => void> = [];
+  private raycastHandler: (input: RaycastInput) => RaycastResult[] = () => [];
+  private shapeCastHandler: (input: ShapeCastInput) => ShapeCastResult = () => ({ hit: false });
+  private queryAABBHandler: (lowerBound: FixedVector2, upperBound: FixedVector2) => unknown[] = () => [];
+  private overlapHandler: (query: MockOverlapQuery) => OverlapHit[] = () => [];
+  private stepHandler: ((deltaTime: Fixed) => void) | null = null;
+  private readonly record: MockRecorder;
+
+  constructor(config: PhysicsWorldConfig, record: MockRecorder) {
+    this.config = config;
+    this.gravity = config.gravity;
+    this.record = record;
+  }
+
+  // Scripting | 预设
+
+  /**
+   * Answer every raycast with the given results; they are treated as ordered by distance
+   * and still go through the input's mode and predicate
+   * 对每次射线投射返回给定的结果；结果视为已按距离排序，并仍经过输入的模式和谓词处理
+   */
+  setRaycastResults(results: RaycastResult[]): void {
+    this.raycastHandler = () => results;
+  }
+
+  /**
+   * Answer raycasts with a custom handler
+   * 使用自定义处理器回答射线投射
+   */
+  setRaycastHandler(handler: (input: RaycastInput) => RaycastResult[]): void {
+    this.raycastHandler = handler;
+  }
+
+  /**
+   * Answer every shape cast with the given result
+   * 对每次形状投射返回给定的结果
+   */
+  setShapeCastResult(result: ShapeCastResult): void {
+    this.shapeCastHandler = () => result;
+  }
+
+  /**
+   * Answer shape casts with a custom handler
+   * 使用自定义处理器回答形状投射
+   */
+  setShapeCastHandler(handler: (input: ShapeCastInput) => ShapeCastResult): void {
+    this.shapeCastHandler = handler;
+  }
+
+  /**
+   * Answer every AABB query with the given bodies
+   * 对每次AABB查询返回给定的物体
+   */
+  setQueryAABBResults(results: unknown[]): void {
+    this.queryAABBHandler = () => results;
+  }
+
+  /**
+   * Answer AABB queries with a custom handler
+   * 使用自定义处理器回答AABB查询
+   */
+  setQueryAABBHandler(handler: (lowerBound: FixedVector2, upperBound: FixedVector2) => unknown[]): void {
+    this.queryAABBHandler = handler;
+  }
+
+  /**
+   * Answer every overlap query (point, circle and shape) with the given hits
+   * 对每次重叠查询（点、圆和形状）返回给定的命中
+   */
+  setOverlapResults(hits: OverlapHit[]): void {
+    this.overlapHandler = () => hits;
+  }
+
+  /**
+   * Answer overlap queries with a custom handler
+   * 使用自定义处理器回答重叠查询
+   */
+  setOverlapHandler(handler: (query: MockOverlapQuery) => OverlapHit[]): void {
+    this.overlapHandler = handler;
+  }
+
+  /**
+   * Run a callback on every step, e.g. to move bodies or emit collisions
+   * 在每个步骤运行回调，例如移动物体或发出碰撞
+   */
+  setStepHandler(handler: ((deltaTime: Fixed) => void) | null): void {
+    this.stepHandler = handler;
+  }
+
+  /**
+   * Report the given contacts from getContacts()
+   * 由getContacts()报告给定的接触
+   */
+  setContacts(contacts: PhysicsContact[]): void {
+    this.contacts = contacts;
+  }
+
+  /**
+   * Deliver a collision event to every registered listener
+   * 将碰撞事件传递给所有已注册的监听器
+   */
+  emitCollision(data: CollisionEventData): void {
+    for (const listener of this.listeners.slice()) {
+      listener(data);
+    }
+  }
+
+  /**
+   * Deliver a begin-contact event between two bodies, optionally naming the touching colliders
+   * 传递两个物体之间的接触开始事件，可选地指定接触的碰撞器
+   */
+  emitCollisionBegin(
+    bodyA: IRigidBody,
+    bodyB: IRigidBody,
+    contacts: ContactPoint[] = [],
+    colliderA?: ICollider,
+    colliderB?: ICollider
+  ): void {
+    this.emitCollision({ bodyA, bodyB, colliderA, colliderB, contacts, isBeginContact: true, isEndContact: false });
+  }
+
+  /**
+   * Deliver an end-contact event between two bodies, optionally naming the separated colliders
+   * 传递两个物体之间的接触结束事件，可选地指定分离的碰撞器
+   */
+  emitCollisionEnd(bodyA: IRigidBody, bodyB: IRigidBody, colliderA?: ICollider, colliderB?: ICollider): void {
+    this.emitCollision({ bodyA, bodyB, colliderA, colliderB, contacts: [], isBeginContact: false, isEndContact: true });
+  }
+
+  /**
+   * Run the pre-solve listeners for a contact and return the event, whose processingEnabled
+   * tells whether the contact would be solved
+   * 为一个接触运行预解决监听器并返回事件，其 processingEnabled 表示该接触是否会被求解
+   */
+  emitPreSolve(
+    bodyA: IRigidBody,
+    bodyB: IRigidBody,
+    colliderA: ICollider,
+    colliderB: ICollider,
+    contacts: ContactPoint[]
+  ): PreSolveEvent {
+    const event = new PreSolveEvent(bodyA, bodyB, colliderA, colliderB, contacts);
+    for (const listener of this.preSolveListeners.slice()) {
+      listener(event);
+    }
+    return event;
+  }
+
+  /**
+   * Number of registered collision listeners
+   * 已注册的碰撞监听器数量
+   */
+  getCollisionListenerCount(): number {
+    return this.listeners.length;
+  }
+
+  // IPhysicsWorld | 物理世界接口
+
+  step(deltaTime: Fixed): void {
+    this.record(this, 'step', [deltaTime]);
+    this.steps.push(deltaTime);
+    this.stepHandler?.(deltaTime);
+  }
+
+  setGravity(gravity: FixedVector2): void {
+    this.record(this, 'setGravity', [gravity]);
+    this.gravity = gravity;
+  }
+
+  getGravity(): FixedVector2 {
+    return this.gravity;
+  }
+
+  raycast(input: RaycastInput): RaycastResult[] {
+    this.record(this, 'raycast', [input]);
+    return resolveRaycastHits(input, this.raycastHandler(input));
+  }
+
+  shapeCast(input: ShapeCastInput): ShapeCastResult {
+    this.record(this, 'shapeCast', [input]);
+    return this.shapeCastHandler(input);
+  }
+
+  queryAABB(lowerBound: FixedVector2, upperBound: FixedVector2): unknown[] {
+    this.record(this, 'queryAABB', [lowerBound, upperBound]);
+    return this.queryAABBHandler(lowerBound, upperBound);
+  }
+
+  overlapPoint(point: FixedVector2, options: OverlapQueryOptions = {}): OverlapHit[] {
+    this.record(this, 'overlapPoint', [point, options]);
+    return this.overlapHandler({ kind: 'point', point, options });
+  }
+
+  overlapCircle(center: FixedVector2, radius: Fixed, options: OverlapQueryOptions = {}): OverlapHit[] {
+    this.record(this, 'overlapCircle', [center, radius, options]);
+    return this.overlapHandler({ kind: 'circle', center, radius, options });
+  }
+
+  overlapShape(
+    shape: ColliderConfig,
+    position: FixedVector2,
+    rotation: Fixed,
+    options: OverlapQueryOptions = {}
+  ): OverlapHit[] {
+    this.record(this, 'overlapShape', [shape, position, rotation, options]);
+    return this.overlapHandler({ kind: 'shape', shape, position, rotation, options });
+  }
+
+  /**
+   * The gravity and every body's state are encoded into the returned bytes, so the world keeps nothing per call
+   * 重力和每个物体的状态都编码在返回的字节中，因此世界不会为每次调用保留任何数据
+   */
+  saveState(): Uint8Array {
+    this.record(this, 'saveState', []);
+    const writer = new SnapshotWriter();
+    writer.writeVector(this.gravity);
+    writer.writeUint32(this.bodies.length);
+    for (const body of this.bodies) {
+      const state = body.captureState();
+      writer.writeVector(state.position);
+      writer.writeFixed(state.rotation);
+      writer.writeVector(state.linearVelocity);
+      writer.writeFixed(state.angularVelocity);
+      writer.writeUint8((state.awake ? 1 : 0) | (state.active ? 2 : 0));
+    }
+    return writer.toBytes();
+  }
+
+  restoreState(state: Uint8Array): void {
+    this.record(this, 'restoreState', [state]);
+    const reader = new SnapshotReader(state);
+    const gravity = reader.readVector();
+    if (reader.readUint32() !== this.bodies.length) {
+      throw new Error('Physics snapshot does not match the mock world');
+    }
+
+    const bodies: MockBodyState[] = [];
+    for (let i = 0; i < this.bodies.length; i++) {
+      const position = reader.readVector();
+      const rotation = reader.readFixed();
+      const linearVelocity = reader.readVector();
+      const angularVelocity = reader.readFixed();
+      const flags = reader.readUint8();
+      bodies.push({ position, rotation, linearVelocity, angularVelocity, awake: (flags & 1) !== 0, active: (flags & 2) !== 0 });
+    }
+    if (!reader.isAtEnd()) {
+      throw new Error('Physics snapshot does not match the mock world');
+    }
+
+    this.gravity = gravity;
+    bodies.forEach((body, i) => this.bodies[i]!.applyState(body));
+  }
+
+  *getBodies(): IterableIterator<MockRigidBody> {
+    yield* this.bodies.filter(body => !body.destroyed);
+  }
+
+  *getColliders(): IterableIterator<MockCollider> {
+    for (const body of this.getBodies()) {
+      yield* body.getColliders();
+    }
+  }
+
+  *getJoints(): IterableIterator<MockJoint> {
+    yield* this.joints.filter(joint => !joint.destroyed);
+  }
+
+  *getContacts(): IterableIterator<PhysicsContact> {
+    yield* this.contacts.slice();
+  }
+
+  onCollision(callback: (data: CollisionEventData) => void): void {
+    this.listeners.push(callback);
+  }
+
+  offCollision(callback: (data: CollisionEventData) => void): void {
+    const index = this.listeners.indexOf(callback);
+    if (index >= 0) {
+      this.listeners.splice(index, 1);
+    }
+  }
+
+  onPreSolve(callback: (event: PreSolveEvent) => void): void {
+    this.preSolveListeners.push(callback);
+  }
+
+  offPreSolve(callback: (event: PreSolveEvent) => void): void {
+    const index = this.preSolveListeners.indexOf(callback);
+    if (index >= 0) {
+      this.preSolveListeners.splice(index, 1);
+    }
+  }
+
+  destroy(): void {
+    this.record(this, 'destroy', []);
+    this.destroyed = true;
+    this.listeners.length = 0;
+    this.preSolveListeners.length = 0;
+  }
+}
+
+/**
+ * Recording physics engine for unit-testing gameplay systems
+ * 用于单元测试游戏玩法系统的记录型物理引擎
+ *
+ * @example
+ * ```typescript
+ * const engine = new MockPhysicsEngine();
+ * const worldSystem = new PhysicsWorldSystem(engine, { gravity: new FixedVector2(0, -10) });
+ * // ... add systems and entities, update the world ...
+ * engine.assertBodyCreated({ entityId: 5, bullet: true });
+ * engine.getWorld().emitCollisionBegin(bodyA, bodyB);
+ * ```
+ */
+export class MockPhysicsEngine implements IPhysicsEngine {
+  readonly name: string = 'mock';
+  readonly version: string = '1.0.0';
+
+  /** Worlds created by this engine | 此引擎创建的世界 */
+  public readonly worlds: MockPhysicsWorld[] = [];
+
+  /** Bodies created by this engine | 此引擎创建的物体 */
+  public readonly bodies: MockRigidBody[] = [];
+
+  /** Colliders created by this engine | 此引擎创建的碰撞器 */
+  public readonly colliders: MockCollider[] = [];
+
+  /** Joints created by this engine | 此引擎创建的关节 */
+  public readonly joints: MockJoint[] = [];
+
+  /** Every recorded call in order | 按顺序记录的所有调用 */
+  public readonly calls: MockPhysicsCall[] = [];
+
+  /** Whether initialize() was called | 是否调用了initialize() */
+  public initialized: boolean = false;
+
+  /** Whether destroy() was called | 是否调用了destroy() */
+  public destroyed: boolean = false;
+
+  private readonly record: MockRecorder = (target, method, args) => {
+    this.calls.push({ target, method, args });
+  };
+
+  createWorld(config: PhysicsWorldConfig): MockPhysicsWorld {
+    this.record(this, 'createWorld', [config]);
+    const world = new MockPhysicsWorld(config, this.record);
+    this.worlds.push(world);
+    return world;
+  }
+
+  createRigidBody(world: IPhysicsWorld, config: RigidBodyConfig): MockRigidBody {
+    this.record(this, 'createRigidBody', [world, config]);
+    if (!(world instanceof MockPhysicsWorld)) {
+      throw new Error('World was not created by the mock engine');
+    }
+    const body = new MockRigidBody(world, config, this.record);
+    world.bodies.push(body);
+    this.bodies.push(body);
+    return body;
+  }
+
+  createCollider(body: IRigidBody, config: ColliderConfig, material?: PhysicsMaterial): MockCollider {
+    this.record(this, 'createCollider', [body, config, material]);
+    if (!(body instanceof MockRigidBody)) {
+      throw new Error('Body was not created by the mock engine');
+    }
+    const collider = new MockCollider(
+      body,
+      config,
+      material ?? { friction: new Fixed(0.3), restitution: new Fixed(0.1), density: Fixed.ONE },
+      this.record
+    );
+    body.colliders.push(collider);
+    this.colliders.push(collider);
+    return collider;
+  }
+
+  createJoint(world: IPhysicsWorld, config: BaseJointConfig): MockJoint {
+    this.record(this, 'createJoint', [world, config]);
+    if (!(world instanceof MockPhysicsWorld)) {
+      throw new Error('World was not created by the mock engine');
+    }
+    const joint = new MockJoint(config, this.record);
+    world.joints.push(joint);
+    this.joints.push(joint);
+    return joint;
+  }
+
+  initialize(): Promise<void> {
+    this.record(this, 'initialize', []);
+    this.initialized = true;
+    return Promise.resolve();
+  }
+
+  destroy(): void {
+    this.record(this, 'destroy', []);
+    this.destroyed = true;
+  }
+
+  // Inspection helpers | 检查辅助方法
+
+  /**
+   * Get the most recently created world
+   * 获取最近创建的世界
+   */
+  getWorld(): MockPhysicsWorld {
+    const world = this.worlds[this.worlds.length - 1];
+    if (!world) {
+      throw new Error('No physics world has been created');
+    }
+    return world;
+  }
+
+  /**
+   * Get recorded calls, optionally filtered by method name
+   * 获取记录的调用，可按方法名过滤
+   */
+  getCalls(method?: string): MockPhysicsCall[] {
+    return method ? this.calls.filter(call => call.method === method) : this.calls.slice();
+  }
+
+  /**
+   * Forget all recorded calls (created objects are kept)
+   * 清除所有记录的调用（保留已创建的对象）
+   */
+  clearCalls(): void {
+    this.calls.length = 0;
+  }
+
+  /**
+   * Find the body whose user data is the given entity
+   * 查找用户数据为给定实体的物体
+   */
+  findBodyForEntity(entityId: number): MockRigidBody | undefined {
+    return this.bodies.find(body => body.getEntityId() === entityId);
+  }
+
+  /**
+   * Find created bodies matching the expected properties
+   * 查找与预期属性匹配的已创建物体
+   */
+  findBodies(match: MockBodyMatcher = {}): MockRigidBody[] {
+    const { entityId, ...config } = match;
+    return this.bodies.filter(body =>
+      (entityId === undefined || entityIdOf(body.config.userData) === entityId) &&
+      matchesValue(body.config, config)
+    );
+  }
+
+  /**
+   * Find created colliders matching the expected properties
+   * 查找与预期属性匹配的已创建碰撞器
+   */
+  findColliders(match: MockColliderMatcher = {}): MockCollider[] {
+    return this.colliders.filter(collider =>
+      (match.entityId === undefined || collider.getBody().getEntityId() === match.entityId) &&
+      (match.config === undefined || matchesValue(collider.config, match.config)) &&
+      (match.material === undefined || matchesValue(collider.getMaterial(), match.material)) &&
+      (match.isSensor === undefined || collider.isSensor() === match.isSensor)
+    );
+  }
+
+  /**
+   * Find created joints matching the expected properties
+   * 查找与预期属性匹配的已创建关节
+   */
+  findJoints(match: MockJointMatcher = {}): MockJoint[] {
+    return this.joints.filter(joint => matchesValue(joint.config, match));
+  }
+
+  // Assertion helpers | 断言辅助方法
+
+  /**
+   * Assert that a body matching the expectation was created and return it
+   * 断言已创建与预期匹配的物体并返回它
+   *
+   * @example engine.assertBodyCreated({ entityId: 5, bullet: true });
+   */
+  assertBodyCreated(match: MockBodyMatcher = {}): MockRigidBody {
+    const body = this.findBodies(match)[0];
+    if (!body) {
+      throw new Error(
+        `Expected a body matching ${describe(match)}, created bodies: ` +
+        describe(this.bodies.map(b => ({ entityId: b.getEntityId(), ...b.config, userData: undefined })))
+      );
+    }
+    return body;
+  }
+
+  /**
+   * Assert that no body matching the expectation was created
+   * 断言未创建与预期匹配的物体
+   */
+  assertNoBodyCreated(match: MockBodyMatcher = {}): void {
+    const count = this.findBodies(match).length;
+    if (count > 0) {
+      throw new Error(`Expected no body matching ${describe(match)}, found ${count}`);
+    }
+  }
+
+  /**
+   * Assert that a collider matching the expectation was created and return it
+   * 断言已创建与预期匹配的碰撞器并返回它
+   */
+  assertColliderCreated(match: MockColliderMatcher = {}): MockCollider {
+    const collider = this.findColliders(match)[0];
+    if (!collider) {
+      throw new Error(
+        `Expected a collider matching ${describe(match)}, created colliders: ` +
+        describe(this.colliders.map(c => ({ entityId: c.getBody().getEntityId(), ...c.config })))
+      );
+    }
+    return collider;
+  }
+
+  /**
+   * Assert that a joint matching the expectation was created and return it
+   * 断言已创建与预期匹配的关节并返回它
+   */
+  assertJointCreated(match: MockJointMatcher = {}): MockJoint {
+    const joint = this.findJoints(match)[0];
+    if (!joint) {
+      throw new Error(
+        `Expected a joint matching ${describe(match)}, created joint types: ` +
+        describe(this.joints.map(j => j.config.type))
+      );
+    }
+    return joint;
+  }
+
+  /**
+   * Assert how many times the world was stepped (at least once when omitted)
+   * 断言世界步进的次数（省略时至少一次）
+   */
+  assertStepped(times?: number): void {
+    const count = this.getCalls('step').length;
+    if (times === undefined ? count === 0 : count !== times) {
+      throw new Error(`Expected ${times ?? 'at least 1'} step(s), got ${count}`);
+    }
+  }
+
+  /**
+   * Assert that a force was applied, optionally to a given entity's body and with a given value
+   * 断言施加了力，可指定实体的物体以及力的值
+   */
+  assertForceApplied(entityId?: number, force?: FixedVector2): MockPhysicsCall {
+    const call = this.getCalls('applyForce').find(c =>
+      (entityId === undefined || (c.target as MockRigidBody).getEntityId() === entityId) &&
+      (force === undefined || matchesValue(c.args[0], force))
+    );
+    if (!call) {
+      throw new Error(
+        `Expected applyForce${entityId !== undefined ? ` on entity ${entityId}` : ''}` +
+        `${force ? ` with ${describe(force)}` : ''}, recorded ${this.getCalls('applyForce').length} call(s)`
+      );
+    }
+    return call;
+  }
+}
+
+/**
+ * Factory producing mock engines
+ * 生成模拟引擎的工厂
+ */
+export class MockPhysicsEngineFactory implements IPhysicsEngineFactory {
+  /** Engines created by this factory | 此工厂创建的引擎 */
+  public readonly engines: MockPhysicsEngine[] = [];
+
+  private readonly features: string[];
+
+  constructor(features: string[] = []) {
+    this.features = features;
+  }
+
+  createEngine(): MockPhysicsEngine {
+    const engine = new MockPhysicsEngine();
+    this.engines.push(engine);
+    return engine;
+  }
+
+  getSupportedFeatures(): string[] {
+    return this.features.slice();
+  }
+
+  isFeatureSupported(feature: string): boolean {
+    return this.features.includes(feature);
+  }
+}
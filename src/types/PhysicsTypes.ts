@@ -30,6 +30,54 @@ export enum RigidBodyType {
   Dynamic = 'dynamic'
 }
 
+/**
+ * What drives the fixed steps of a physics world
+ * 驱动物理世界固定步进的方式
+ */
+export enum PhysicsSteppingMode {
+  /** Frame time is accumulated and converted into steps | 累积帧时间并转换为步数 */
+  Accumulated = 'accumulated',
+  /** The host advances whole ticks with advanceTicks() | 由宿主通过 advanceTicks() 推进整数帧 */
+  Ticks = 'ticks'
+}
+
+/**
+ * What happens to leftover time when a frame hits the sub-step limit
+ * 当某帧达到子步上限时如何处理剩余时间
+ */
+export enum PhysicsOverflowPolicy {
+  /** Keep at most one step of backlog | 最多保留一步的积压 */
+  Clamp = 'clamp',
+  /** Discard the whole backlog | 丢弃全部积压 */
+  Drop = 'drop',
+  /** Keep the whole backlog and catch up in later frames | 保留全部积压并在后续帧中追赶 */
+  Carry = 'carry'
+}
+
+/**
+ * Stepping report of one frame
+ * 单帧的步进报告
+ */
+export interface PhysicsFrameStats {
+  /** Fixed steps run this frame | 本帧执行的固定步数 */
+  subSteps: number;
+  /** Simulation time discarded by the overflow policy | 被溢出策略丢弃的模拟时间 */
+  droppedTime: Fixed;
+}
+
+/**
+ * How render transforms follow the fixed-step physics state
+ * 渲染变换如何跟随固定步长的物理状态
+ */
+export enum PhysicsInterpolationMode {
+  /** Blend the last two steps; smooth but one step behind | 在最近两步之间混合；平滑但落后一步 */
+  Interpolate = 'interpolate',
+  /** Project the last step forward; no lag but may overshoot | 将最近一步向前推算；无延迟但可能过冲 */
+  Extrapolate = 'extrapolate',
+  /** Use the latest physics state as is | 直接使用最新的物理状态 */
+  None = 'none'
+}
+
 /**
  * Rigid body configuration
  * 刚体配置
@@ -77,7 +125,11 @@ export enum ColliderType {
   /** Edge/Line shape | 边缘/线条形状 */
   Edge = 'edge',
   /** Chain shape | 链条形状 */
-  Chain = 'chain'
+  Chain = 'chain',
+  /** Capsule shape (segment with rounded ends) | 胶囊形状（两端为半圆的线段） */
+  Capsule = 'capsule',
+  /** Heightfield terrain surface | 高度场地形表面 */
+  Heightfield = 'heightfield'
 }
 
 /**
@@ -94,6 +146,11 @@ export interface BoxColliderConfig {
   offset?: FixedVector2;
   /** Local rotation offset | 本地旋转偏移 */
   rotation?: Fixed;
+  /**
+   * Rounding radius added around the outline, zero or omitted for sharp corners
+   * 在轮廓外添加的圆角半径，为零或省略时为尖角
+   */
+  radius?: Fixed;
 }
 
 /**
@@ -120,6 +177,11 @@ export interface PolygonColliderConfig {
   offset?: FixedVector2;
   /** Local rotation offset | 本地旋转偏移 */
   rotation?: Fixed;
+  /**
+   * Rounding radius added around the outline, zero or omitted for sharp corners
+   * 在轮廓外添加的圆角半径，为零或省略时为尖角
+   */
+  radius?: Fixed;
 }
 
 /**
@@ -146,6 +208,47 @@ export interface ChainColliderConfig {
   loop?: boolean;
 }
 
+/**
+ * Capsule collider configuration. The capsule is the set of points within `radius` of the segment
+ * between two circle centers, given either directly or as a vertical `height`.
+ * 胶囊碰撞器配置。胶囊是到两个圆心之间线段的距离不超过 `radius` 的点集，圆心可直接给出，也可通过竖直的 `height` 给出。
+ */
+export interface CapsuleColliderConfig {
+  type: ColliderType.Capsule;
+  /** Radius of the rounded ends | 两端圆角的半径 */
+  radius: Fixed;
+  /**
+   * Distance between the circle centers along the local Y axis, used when the centers are omitted
+   * 沿本地Y轴的两圆心距离，未提供圆心时使用
+   */
+  height?: Fixed;
+  /** First circle center, overrides height | 第一个圆心，优先于高度 */
+  center1?: FixedVector2;
+  /** Second circle center, overrides height | 第二个圆心，优先于高度 */
+  center2?: FixedVector2;
+  /** Local position offset | 本地位置偏移 */
+  offset?: FixedVector2;
+  /** Local rotation offset | 本地旋转偏移 */
+  rotation?: Fixed;
+}
+
+/**
+ * Heightfield collider configuration: a terrain surface through evenly spaced samples along the local
+ * X axis. Like a chain it is a surface without area; sample i lies at (i * spacing, heights[i]).
+ * 高度场碰撞器配置：沿本地X轴等间距采样点连成的地形表面。与链条一样它是没有面积的表面；第i个采样点位于 (i * spacing, heights[i])。
+ */
+export interface HeightfieldColliderConfig {
+  type: ColliderType.Heightfield;
+  /** Sample heights, at least 2 | 采样高度，至少2个 */
+  heights: Fixed[];
+  /** Horizontal distance between samples | 采样点之间的水平距离 */
+  spacing: Fixed;
+  /** Local position offset of the first sample's base | 第一个采样点基准的本地位置偏移 */
+  offset?: FixedVector2;
+  /** Local rotation offset | 本地旋转偏移 */
+  rotation?: Fixed;
+}
+
 /**
  * Union type for all collider configurations
  * 所有碰撞器配置的联合类型
@@ -155,7 +258,9 @@ export type ColliderConfig =
   | CircleColliderConfig 
   | PolygonColliderConfig 
   | EdgeColliderConfig 
-  | ChainColliderConfig;
+  | ChainColliderConfig
+  | CapsuleColliderConfig
+  | HeightfieldColliderConfig;
 
 /**
  * Physics material properties
@@ -168,6 +273,40 @@ export interface PhysicsMaterial {
   restitution: Fixed;
   /** Density | 密度 */
   density: Fixed;
+  /**
+   * Surface speed along the collider outline, carried to touching bodies through friction (conveyor belts).
+   * Positive runs the surface clockwise, so bodies resting on top move right
+   * 沿碰撞器轮廓的表面速度，通过摩擦带动接触的物体（传送带）。正值表示表面顺时针运动，停在顶部的物体向右移动
+   */
+  tangentSpeed?: Fixed;
+}
+
+/**
+ * One-way platform setting of a collider: bodies pass through moving along `direction` and are
+ * blocked coming back the other way
+ * 碰撞器的单向平台设置：沿 `direction` 运动的物体可以穿过，反方向而来的物体会被阻挡
+ */
+export interface OneWayPlatformConfig {
+  /** Pass-through direction in the body's local space, e.g. (0, 1) to jump up through | 物体本地空间中的穿越方向，例如 (0, 1) 表示可以向上跳穿 */
+  direction: FixedVector2;
+  /**
+   * Penetration a contact may begin with and still be blocked, beyond what one step of approach explains (default 0.05)
+   * 接触开始时除一步接近量之外仍会被阻挡的穿透深度（默认0.05）
+   */
+  tolerance?: Fixed;
+}
+
+/**
+ * Mass properties of a rigid body
+ * 刚体的质量属性
+ */
+export interface MassData {
+  /** Mass | 质量 */
+  mass: Fixed;
+  /** Center of mass in body-local space | 本地空间中的质心 */
+  center: FixedVector2;
+  /** Rotational inertia about the center of mass | 关于质心的转动惯量 */
+  inertia: Fixed;
 }
 
 /**
@@ -209,6 +348,10 @@ export interface CollisionEventData {
   bodyA: unknown; // Will be typed as specific engine's body type
   /** Second body involved in collision | 碰撞中涉及的第二个物体 */
   bodyB: unknown; // Will be typed as specific engine's body type
+  /** Collider of body A, if the engine reports it | 物体A的碰撞器（如果引擎提供） */
+  colliderA?: unknown;
+  /** Collider of body B, if the engine reports it | 物体B的碰撞器（如果引擎提供） */
+  colliderB?: unknown;
   /** Contact points | 接触点 */
   contacts: ContactPoint[];
   /** Whether this is the beginning of contact | 是否为接触开始 */
@@ -217,6 +360,34 @@ export interface CollisionEventData {
   isEndContact: boolean;
 }
 
+/**
+ * Which hits a raycast reports
+ * 射线投射报告哪些命中
+ */
+export enum RaycastMode {
+  /** Only the closest hit | 仅最近的命中 */
+  Closest = 'closest',
+  /** The first hit found, in no particular order (cheapest) | 找到的第一个命中，无特定顺序（开销最小） */
+  Any = 'any',
+  /** Every hit, sorted by distance | 所有命中，按距离排序 */
+  All = 'all'
+}
+
+/**
+ * What a raycast predicate does with a hit
+ * 射线投射谓词如何处理命中
+ */
+export enum RaycastHitAction {
+  /** Report the hit and keep going | 报告命中并继续 */
+  Accept = 'accept',
+  /** Skip the hit and keep going | 跳过命中并继续 */
+  Ignore = 'ignore',
+  /** Report the hit and shorten the ray to it | 报告命中并将射线缩短至此 */
+  Clip = 'clip',
+  /** Report the hit and stop the ray | 报告命中并停止射线 */
+  Terminate = 'terminate'
+}
+
 /**
  * Ray casting input
  * 射线投射输入
@@ -230,6 +401,14 @@ export interface RaycastInput {
   maxDistance: Fixed;
   /** Collision filter | 碰撞过滤器 */
   filter?: CollisionFilter;
+  /** Which hits to report (default All) | 报告哪些命中（默认All） */
+  mode?: RaycastMode;
+  /** Called for each candidate hit in report order | 按报告顺序对每个候选命中调用 */
+  predicate?: (hit: RaycastResult) => RaycastHitAction;
+  /** Skip sensor colliders | 跳过传感器碰撞器 */
+  ignoreSensors?: boolean;
+  /** Skip shapes containing the ray origin (otherwise reported at distance 0) | 跳过包含射线原点的形状（否则以距离0报告） */
+  ignoreStartInside?: boolean;
 }
 
 /**
@@ -247,6 +426,57 @@ export interface RaycastResult {
   distance?: Fixed;
   /** The body that was hit | 被击中的物体 */
   body?: unknown; // Will be typed as specific engine's body type
+  /** The collider that was hit | 被击中的碰撞器 */
+  collider?: unknown;
+}
+
+/**
+ * Shape cast input parameters
+ * 形状投射输入参数
+ */
+export interface ShapeCastInput {
+  /** Shape to sweep through the world | 在世界中扫掠的形状 */
+  shape: ColliderConfig;
+  /** Start position | 起始位置 */
+  position: FixedVector2;
+  /** Start rotation | 起始旋转 */
+  rotation?: Fixed;
+  /** Translation of the sweep | 扫掠的位移 */
+  translation: FixedVector2;
+  /** Collision filter | 碰撞过滤器 */
+  filter?: CollisionFilter;
+  /** Whether sensors can be hit (default false) | 是否可以击中传感器（默认false） */
+  includeSensors?: boolean;
+}
+
+/**
+ * Shape casting result
+ * 形状投射结果
+ */
+export interface ShapeCastResult {
+  /** Whether the shape hit something | 形状是否击中了什么 */
+  hit: boolean;
+  /** Time of impact as a fraction of the translation [0, 1] | 以位移比例表示的碰撞时间 [0, 1] */
+  fraction?: Fixed;
+  /** Contact point in world space | 世界空间中的接触点 */
+  point?: FixedVector2;
+  /** Surface normal of the hit shape (zero when overlapping at the start) | 被击中形状的表面法线（起始时重叠则为零） */
+  normal?: FixedVector2;
+  /** The body that was hit | 被击中的物体 */
+  body?: unknown;
+  /** The collider that was hit | 被击中的碰撞器 */
+  collider?: unknown;
+}
+
+/**
+ * Options for exact overlap queries
+ * 精确重叠查询的选项
+ */
+export interface OverlapQueryOptions {
+  /** Collision filter | 碰撞过滤器 */
+  filter?: CollisionFilter;
+  /** Whether sensors count as overlaps (default false) | 传感器是否计为重叠（默认false） */
+  includeSensors?: boolean;
 }
 
 /**
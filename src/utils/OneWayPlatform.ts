@@ -0,0 +1,40 @@
+import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
+import { IRigidBody } from '../interfaces/IPhysicsEngine';
+import { ContactPoint, OneWayPlatformConfig } from '../types/PhysicsTypes';
+import { dot, makeRotation, normalizeSafe, rotate } from '../engine/FixedMath';
+
+/**
+ * Default penetration tolerance of one-way platforms
+ * 单向平台的默认穿透容差
+ */
+export const DEFAULT_ONE_WAY_TOLERANCE = new Fixed(0.05);
+
+/**
+ * Decide, when a contact with a one-way platform begins, whether the other body passes through.
+ * It passes when it touches the side or underside, moves along the pass-through direction, or is
+ * deeper inside than one step of approach can explain, meaning the contact began with it inside.
+ * 在与单向平台的接触开始时判断另一个物体是否穿过。当它接触侧面或底面、沿穿越方向运动，
+ * 或者穿透深度超过一步接近所能解释的深度（即接触开始时它已位于平台内部）时允许穿过。
+ */
+export function shouldPassOneWayPlatform(
+  platform: OneWayPlatformConfig,
+  platformBody: IRigidBody,
+  otherBody: IRigidBody,
+  normal: FixedVector2,
+  contacts: ContactPoint[],
+  timeStep: Fixed
+): boolean {
+  const direction = normalizeSafe(rotate(makeRotation(platformBody.getRotation()), platform.direction));
+  if (!dot(normal, direction).greaterThan(Fixed.ZERO)) return true;
+
+  const approach = dot(otherBody.getLinearVelocity().subtract(platformBody.getLinearVelocity()), direction);
+  if (approach.greaterThan(Fixed.ZERO)) return true;
+
+  let penetration = Fixed.ZERO;
+  for (const contact of contacts) {
+    const depth = contact.separation.negate();
+    if (depth.greaterThan(penetration)) penetration = depth;
+  }
+  const reach = (platform.tolerance ?? DEFAULT_ONE_WAY_TOLERANCE).add(approach.negate().multiply(timeStep));
+  return penetration.greaterThan(reach);
+}
@@ -0,0 +1,151 @@
+import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
+import { IRigidBody } from '../interfaces/IPhysicsEngine';
+import { PhysicsLogger } from './Logger';
+
+/** FNV-1a offset basis | FNV-1a 偏移基数 */
+const FNV_OFFSET = 0x811C9DC5;
+
+/** FNV-1a prime | FNV-1a 质数 */
+const FNV_PRIME = 0x01000193;
+
+/** 2^32 */
+const UINT32_RANGE = 0x100000000;
+
+/**
+ * Incremental 32-bit FNV-1a hash over integer values
+ * 基于整数值的增量32位FNV-1a哈希
+ */
+export class PhysicsChecksum {
+  private hash: number = FNV_OFFSET;
+
+  /**
+   * Mix an integer (up to 53 bits) into the hash
+   * 将整数（最多53位）混入哈希
+   */
+  addInteger(value: number): this {
+    const low = value >>> 0;
+    const high = Math.floor(value / UINT32_RANGE) >>> 0;
+    this.addWord(low);
+    this.addWord(high);
+    return this;
+  }
+
+  /**
+   * Mix the raw value of a Fixed number into the hash
+   * 将定点数的原始值混入哈希
+   */
+  addFixed(value: Fixed): this {
+    return this.addInteger(value.rawValue);
+  }
+
+  /**
+   * Mix the raw values of a vector into the hash
+   * 将向量的原始值混入哈希
+   */
+  addVector(value: FixedVector2): this {
+    return this.addFixed(value.x).addFixed(value.y);
+  }
+
+  /**
+   * Current hash as an unsigned 32-bit integer
+   * 当前哈希值（无符号32位整数）
+   */
+  get value(): number {
+    return this.hash >>> 0;
+  }
+
+  private addWord(word: number): void {
+    for (let shift = 0; shift < 32; shift += 8) {
+      this.hash ^= (word >>> shift) & 0xFF;
+      this.hash = Math.imul(this.hash, FNV_PRIME);
+    }
+  }
+}
+
+/**
+ * Hash the transforms and velocities of bodies, sorted by entity id
+ * 按实体ID排序，对物体的变换和速度进行哈希
+ */
+export function computeBodiesChecksum(bodies: Array<{ entityId: number; body: IRigidBody }>): number {
+  const sorted = bodies.slice().sort((a, b) => a.entityId - b.entityId);
+  const checksum = new PhysicsChecksum();
+
+  for (const { entityId, body } of sorted) {
+    checksum
+      .addInteger(entityId)
+      .addVector(body.getPosition())
+      .addFixed(body.getRotation())
+      .addVector(body.getLinearVelocity())
+      .addFixed(body.getAngularVelocity());
+  }
+  return checksum.value;
+}
+
+/**
+ * Per-step checksum history for comparing peers and finding the first desync
+ * 逐步校验和历史，用于比较对等端并找出第一次不同步
+ */
+export class PhysicsChecksumHistory {
+  private readonly checksums = new Map<number, number>();
+  private readonly capacity: number;
+  private firstDivergentStep: number | null = null;
+
+  constructor(capacity: number = 600) {
+    this.capacity = Math.max(1, capacity);
+  }
+
+  /**
+   * Record the local checksum of a step, discarding the oldest beyond capacity
+   * 记录某一步的本地校验和，超出容量时丢弃最旧的
+   */
+  record(step: number, checksum: number): void {
+    this.checksums.set(step, checksum);
+    while (this.checksums.size > this.capacity) {
+      const oldest = this.checksums.keys().next().value as number;
+      this.checksums.delete(oldest);
+    }
+  }
+
+  /**
+   * Get the local checksum of a step
+   * 获取某一步的本地校验和
+   */
+  get(step: number): number | undefined {
+    return this.checksums.get(step);
+  }
+
+  /**
+   * Compare a remote checksum; returns false on mismatch and logs the first divergent step.
+   * Steps no longer (or not yet) recorded compare as matching.
+   * 比较远端校验和；不匹配时返回false并记录第一个分歧步骤。未记录的步骤视为匹配。
+   */
+  compare(step: number, remoteChecksum: number): boolean {
+    const local = this.checksums.get(step);
+    if (local === undefined || local === remoteChecksum) return true;
+
+    if (this.firstDivergentStep === null || step < this.firstDivergentStep) {
+      this.firstDivergentStep = step;
+      PhysicsLogger.warn(
+        `Physics desync at step ${step}: local checksum ${local.toString(16)}, remote ${remoteChecksum.toString(16)}`
+      );
+    }
+    return false;
+  }
+
+  /**
+   * First step found to diverge, or null
+   * 发现的第一个分歧步骤，没有则为null
+   */
+  getFirstDivergentStep(): number | null {
+    return this.firstDivergentStep;
+  }
+
+  /**
+   * Forget all checksums and the divergence
+   * 清除所有校验和及分歧记录
+   */
+  clear(): void {
+    this.checksums.clear();
+    this.firstDivergentStep = null;
+  }
+}
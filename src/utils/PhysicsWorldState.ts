@@ -0,0 +1,119 @@
+import { SnapshotReader, SnapshotWriter } from '../engine/DeterministicSnapshot';
+
+/** World system state magic number ("NPWS") | 世界系统状态魔数（"NPWS"） */
+const WORLD_STATE_MAGIC = 0x4E505753;
+
+/** World system state format version | 世界系统状态格式版本 */
+const WORLD_STATE_VERSION = 1;
+
+/**
+ * Collider referenced by its entity id and its index among the entity's colliders
+ * 通过实体ID及其在实体碰撞器中的索引引用的碰撞器
+ */
+export interface ColliderReference {
+  entityId: number;
+  index: number;
+}
+
+/**
+ * Pass-through decision of one contact with a one-way platform
+ * 与单向平台的一个接触的穿越判定
+ */
+export interface OneWayDecisionState {
+  platform: ColliderReference;
+  other: ColliderReference;
+  passing: boolean;
+}
+
+/**
+ * Step until which an entity drops through one-way platforms
+ * 实体穿过单向平台持续到的步数
+ */
+export interface DropThroughState {
+  entityId: number;
+  untilStep: number;
+}
+
+/**
+ * State saved by a PhysicsWorldSystem: the engine's world state plus what the system decides itself
+ * PhysicsWorldSystem 保存的状态：引擎的世界状态加上系统自身做出的判定
+ */
+export interface PhysicsWorldState {
+  /** Engine world state | 引擎世界状态 */
+  world: Uint8Array;
+  /** One-way platform decisions | 单向平台判定 */
+  oneWayDecisions: OneWayDecisionState[];
+  /** Active drop-throughs | 进行中的穿透下落 */
+  dropThroughs: DropThroughState[];
+}
+
+/**
+ * Encode a world system state into its binary form
+ * 将世界系统状态编码为二进制形式
+ */
+export function encodePhysicsWorldState(state: PhysicsWorldState): Uint8Array {
+  const writer = new SnapshotWriter();
+  writer.writeUint32(WORLD_STATE_MAGIC);
+  writer.writeUint8(WORLD_STATE_VERSION);
+  writer.writeBytes(state.world);
+
+  writer.writeUint32(state.oneWayDecisions.length);
+  for (const decision of state.oneWayDecisions) {
+    writeColliderReference(writer, decision.platform);
+    writeColliderReference(writer, decision.other);
+    writer.writeUint8(decision.passing ? 1 : 0);
+  }
+
+  writer.writeUint32(state.dropThroughs.length);
+  for (const dropThrough of state.dropThroughs) {
+    writer.writeUint32(dropThrough.entityId);
+    writer.writeUint32(dropThrough.untilStep);
+  }
+  return writer.toBytes();
+}
+
+/**
+ * Decode a binary world system state, throwing on malformed data
+ * 解码二进制世界系统状态，数据格式错误时抛出异常
+ */
+export function decodePhysicsWorldState(bytes: Uint8Array): PhysicsWorldState {
+  const reader = new SnapshotReader(bytes);
+  if (reader.readUint32() !== WORLD_STATE_MAGIC) {
+    throw new Error('Data is not a physics world system state');
+  }
+  const version = reader.readUint8();
+  if (version !== WORLD_STATE_VERSION) {
+    throw new Error(`Unsupported physics world system state version ${version}`);
+  }
+  const world = reader.readBytes();
+
+  const oneWayDecisions: OneWayDecisionState[] = [];
+  const decisionCount = reader.readUint32();
+  for (let i = 0; i < decisionCount; i++) {
+    const platform = readColliderReference(reader);
+    const other = readColliderReference(reader);
+    oneWayDecisions.push({ platform, other, passing: reader.readUint8() !== 0 });
+  }
+
+  const dropThroughs: DropThroughState[] = [];
+  const dropThroughCount = reader.readUint32();
+  for (let i = 0; i < dropThroughCount; i++) {
+    const entityId = reader.readUint32();
+    dropThroughs.push({ entityId, untilStep: reader.readUint32() });
+  }
+
+  if (!reader.isAtEnd()) {
+    throw new Error('Physics world system state has trailing data');
+  }
+  return { world, oneWayDecisions, dropThroughs };
+}
+
+function writeColliderReference(writer: SnapshotWriter, reference: ColliderReference): void {
+  writer.writeUint32(reference.entityId);
+  writer.writeUint32(reference.index);
+}
+
+function readColliderReference(reader: SnapshotReader): ColliderReference {
+  const entityId = reader.readUint32();
+  return { entityId, index: reader.readUint32() };
+}
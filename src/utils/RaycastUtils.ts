@@ -0,0 +1,36 @@
+import { Fixed } from '@esengine/nova-ecs-math';
+import {
+  RaycastInput,
+  RaycastResult,
+  RaycastMode,
+  RaycastHitAction
+} from '../types/PhysicsTypes';
+
+/**
+ * Apply the mode and predicate of a raycast to its candidate hits
+ * 将射线投射的模式和谓词应用于候选命中
+ *
+ * Engines gather every candidate and pass them sorted by distance (any order for RaycastMode.Any);
+ * the predicate sees them in that order.
+ * 引擎收集所有候选命中并按距离排序后传入（RaycastMode.Any可为任意顺序）；谓词按该顺序接收命中。
+ */
+export function resolveRaycastHits(input: RaycastInput, candidates: RaycastResult[]): RaycastResult[] {
+  const mode = input.mode ?? RaycastMode.All;
+  const results: RaycastResult[] = [];
+  let clipDistance: Fixed | null = null;
+
+  for (const hit of candidates) {
+    if (clipDistance && hit.distance && hit.distance.greaterThan(clipDistance)) break;
+
+    const action = input.predicate ? input.predicate(hit) : RaycastHitAction.Accept;
+    if (action === RaycastHitAction.Ignore) continue;
+
+    results.push(hit);
+    if (action === RaycastHitAction.Terminate || mode !== RaycastMode.All) break;
+    if (action === RaycastHitAction.Clip && hit.distance) {
+      clipDistance = hit.distance;
+    }
+  }
+
+  return results;
+}
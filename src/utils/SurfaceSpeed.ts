@@ -0,0 +1,16 @@
+import { Fixed } from '@esengine/nova-ecs-math';
+import { PhysicsMaterial } from '../types/PhysicsTypes';
+
+/**
+ * Engine feature flag for material surface speed (conveyor belts)
+ * 材质表面速度（传送带）的引擎功能标识
+ */
+export const SURFACE_SPEED_FEATURE = 'material:tangent-speed';
+
+/**
+ * Whether a material moves its surface
+ * 材质的表面是否在运动
+ */
+export function hasSurfaceSpeed(material: PhysicsMaterial): boolean {
+  return material.tangentSpeed !== undefined && !material.tangentSpeed.equals(Fixed.ZERO);
+}
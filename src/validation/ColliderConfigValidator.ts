@@ -0,0 +1,256 @@
+import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
+import {
+  ColliderConfig,
+  ColliderType,
+  BoxColliderConfig,
+  CircleColliderConfig,
+  PolygonColliderConfig,
+  EdgeColliderConfig,
+  ChainColliderConfig,
+  CapsuleColliderConfig,
+  HeightfieldColliderConfig
+} from '../types/PhysicsTypes';
+import { cross } from '../engine/FixedMath';
+import { ValidationIssueCode, ValidationIssueCollector, ValidationResult } from './ValidationTypes';
+
+/**
+ * Engine limits checked by the collider validator
+ * 碰撞器校验器检查的引擎限制
+ */
+export interface ColliderValidationOptions {
+  /** Maximum polygon vertex count, unchecked when omitted | 多边形最大顶点数，省略时不检查 */
+  maxPolygonVertices?: number;
+}
+
+/**
+ * Validate a collider config. Duplicate and collinear vertices and clockwise winding are fixed
+ * automatically; non-convex polygons must be split with decomposePolygon.
+ * 校验碰撞器配置。重复顶点、共线顶点和顺时针顺序会被自动修正；凹多边形需要使用 decomposePolygon 拆分。
+ */
+export function validateColliderConfig(
+  config: ColliderConfig,
+  options: ColliderValidationOptions = {}
+): ValidationResult<ColliderConfig> {
+  const collector = new ValidationIssueCollector();
+
+  switch (config.type) {
+    case ColliderType.Box:
+      return collector.result(validateBox(config, collector));
+    case ColliderType.Circle:
+      return collector.result(validateCircle(config, collector));
+    case ColliderType.Polygon:
+      return collector.result(validatePolygon(config, options, collector));
+    case ColliderType.Edge:
+      return collector.result(validateEdge(config, collector));
+    case ColliderType.Chain:
+      return collector.result(validateChain(config, collector));
+    case ColliderType.Capsule:
+      return collector.result(validateCapsule(config, collector));
+    case ColliderType.Heightfield:
+      return collector.result(validateHeightfield(config, collector));
+    default:
+      collector.error('type', ValidationIssueCode.InvalidType, `Unknown collider type '${String((config as { type: unknown }).type)}'`);
+      return collector.result<ColliderConfig>(config);
+  }
+}
+
+function validateBox(config: BoxColliderConfig, collector: ValidationIssueCollector): BoxColliderConfig {
+  requirePositive(config.halfWidth, 'halfWidth', collector);
+  requirePositive(config.halfHeight, 'halfHeight', collector);
+  requireNonNegative(config.radius, 'radius', collector);
+  return config;
+}
+
+function validateCircle(config: CircleColliderConfig, collector: ValidationIssueCollector): CircleColliderConfig {
+  requirePositive(config.radius, 'radius', collector);
+  return config;
+}
+
+function validatePolygon(
+  config: PolygonColliderConfig,
+  options: ColliderValidationOptions,
+  collector: ValidationIssueCollector
+): PolygonColliderConfig {
+  requireNonNegative(config.radius, 'radius', collector);
+
+  let vertices: FixedVector2[] = [];
+  config.vertices.forEach((v, i) => {
+    if (vertices.some(existing => samePoint(existing, v))) {
+      collector.error(`vertices[${i}]`, ValidationIssueCode.DuplicateVertex, 'Duplicate vertex', true);
+    } else {
+      vertices.push(v);
+    }
+  });
+
+  const collinear = findCollinear(vertices);
+  for (const index of collinear) {
+    collector.warning(
+      `vertices[${config.vertices.indexOf(vertices[index]!)}]`,
+      ValidationIssueCode.CollinearVertex,
+      'Vertex is collinear with its neighbours',
+      true
+    );
+  }
+  vertices = vertices.filter((_, i) => !collinear.includes(i));
+
+  if (vertices.length < 3) {
+    collector.error('vertices', ValidationIssueCode.TooFewVertices, `Polygon needs at least 3 distinct, non-collinear vertices, got ${vertices.length}`);
+    return config;
+  }
+
+  if (signedArea(vertices).lessThan(Fixed.ZERO)) {
+    collector.error('vertices', ValidationIssueCode.ClockwiseWinding, 'Polygon is wound clockwise', true);
+    vertices = vertices.slice().reverse();
+  }
+
+  if (!isConvex(vertices)) {
+    collector.error('vertices', ValidationIssueCode.NonConvex, 'Polygon is not convex; split it with decomposePolygon');
+  }
+
+  if (options.maxPolygonVertices !== undefined && vertices.length > options.maxPolygonVertices) {
+    collector.error(
+      'vertices',
+      ValidationIssueCode.TooManyVertices,
+      `Polygon has ${vertices.length} vertices, the limit is ${options.maxPolygonVertices}; split it with decomposePolygon`
+    );
+  }
+
+  return vertices.length === config.vertices.length && vertices.every((v, i) => v === config.vertices[i])
+    ? config
+    : { ...config, vertices };
+}
+
+function validateEdge(config: EdgeColliderConfig, collector: ValidationIssueCollector): EdgeColliderConfig {
+  if (samePoint(config.start, config.end)) {
+    collector.error('end', ValidationIssueCode.ZeroLength, 'Edge start and end are the same point');
+  }
+  return config;
+}
+
+function validateChain(config: ChainColliderConfig, collector: ValidationIssueCollector): ChainColliderConfig {
+  const vertices: FixedVector2[] = [];
+  config.vertices.forEach((v, i) => {
+    const last = vertices[vertices.length - 1];
+    if (last && samePoint(last, v)) {
+      collector.error(`vertices[${i}]`, ValidationIssueCode.DuplicateVertex, 'Vertex repeats the previous one', true);
+    } else {
+      vertices.push(v);
+    }
+  });
+  if (config.loop && vertices.length > 1 && samePoint(vertices[0]!, vertices[vertices.length - 1]!)) {
+    collector.error(
+      `vertices[${config.vertices.length - 1}]`,
+      ValidationIssueCode.DuplicateVertex,
+      'Looped chain repeats its first vertex; the loop closes itself',
+      true
+    );
+    vertices.pop();
+  }
+
+  const required = config.loop ? 3 : 2;
+  if (vertices.length < required) {
+    collector.error(
+      'vertices',
+      ValidationIssueCode.TooFewVertices,
+      `${config.loop ? 'Looped chain' : 'Chain'} needs at least ${required} distinct vertices, got ${vertices.length}`
+    );
+    return config;
+  }
+
+  return vertices.length === config.vertices.length ? config : { ...config, vertices };
+}
+
+function validateCapsule(config: CapsuleColliderConfig, collector: ValidationIssueCollector): CapsuleColliderConfig {
+  requirePositive(config.radius, 'radius', collector);
+
+  if (config.center1 && config.center2) {
+    if (config.height) {
+      collector.warning('height', ValidationIssueCode.IgnoredValue, 'height is ignored because center1 and center2 are given');
+    }
+    if (samePoint(config.center1, config.center2)) {
+      collector.warning('center2', ValidationIssueCode.ZeroLength, 'Capsule centers are the same point; it behaves as a circle');
+    }
+    return config;
+  }
+
+  if (config.center1 || config.center2) {
+    const missing = config.center1 ? 'center2' : 'center1';
+    collector.error(missing, ValidationIssueCode.MissingValue, 'Capsule has only one center; give both or use height');
+    return config;
+  }
+  if (!config.height) {
+    collector.error('height', ValidationIssueCode.MissingValue, 'Capsule needs either a height or both centers');
+    return config;
+  }
+
+  if (config.height.lessThan(Fixed.ZERO)) {
+    collector.error('height', ValidationIssueCode.Negative, `height must not be negative, got ${config.height.toNumber()}`, true);
+    return { ...config, height: config.height.abs() };
+  }
+  if (config.height.equals(Fixed.ZERO)) {
+    collector.warning('height', ValidationIssueCode.ZeroLength, 'Capsule has zero height; it behaves as a circle');
+  }
+  return config;
+}
+
+function validateHeightfield(config: HeightfieldColliderConfig, collector: ValidationIssueCollector): HeightfieldColliderConfig {
+  requirePositive(config.spacing, 'spacing', collector);
+  if (config.heights.length < 2) {
+    collector.error('heights', ValidationIssueCode.TooFewVertices, `Heightfield needs at least 2 samples, got ${config.heights.length}`);
+  }
+  return config;
+}
+
+function requirePositive(value: Fixed, path: string, collector: ValidationIssueCollector): void {
+  if (!value.greaterThan(Fixed.ZERO)) {
+    collector.error(path, ValidationIssueCode.NonPositive, `${path} must be greater than zero, got ${value.toNumber()}`);
+  }
+}
+
+function requireNonNegative(value: Fixed | undefined, path: string, collector: ValidationIssueCollector): void {
+  if (value && value.lessThan(Fixed.ZERO)) {
+    collector.error(path, ValidationIssueCode.Negative, `${path} must not be negative, got ${value.toNumber()}`);
+  }
+}
+
+/**
+ * Indices of polygon vertices that lie on the line through their neighbours
+ * 位于相邻顶点连线上的多边形顶点索引
+ */
+function findCollinear(vertices: FixedVector2[]): number[] {
+  if (vertices.length < 3) return [];
+
+  const result: number[] = [];
+  for (let i = 0; i < vertices.length; i++) {
+    const prev = vertices[(i + vertices.length - 1) % vertices.length]!;
+    const next = vertices[(i + 1) % vertices.length]!;
+    if (cross(vertices[i]!.subtract(prev), next.subtract(vertices[i]!)).equals(Fixed.ZERO)) {
+      result.push(i);
+    }
+  }
+  return result;
+}
+
+function isConvex(vertices: FixedVector2[]): boolean {
+  return vertices.every((v, i) => {
+    const next = vertices[(i + 1) % vertices.length]!;
+    const after = vertices[(i + 2) % vertices.length]!;
+    return cross(next.subtract(v), after.subtract(next)).greaterThanOrEqual(Fixed.ZERO);
+  });
+}
+
+/**
+ * Twice the signed area of a polygon (positive for counter-clockwise winding)
+ * 多边形有符号面积的两倍（逆时针为正）
+ */
+function signedArea(vertices: FixedVector2[]): Fixed {
+  let area = Fixed.ZERO;
+  for (let i = 0; i < vertices.length; i++) {
+    area = area.add(cross(vertices[i]!, vertices[(i + 1) % vertices.length]!));
+  }
+  return area;
+}
+
+function samePoint(a: FixedVector2, b: FixedVector2): boolean {
+  return a.x.equals(b.x) && a.y.equals(b.y);
+}
@@ -0,0 +1,120 @@
+import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
+import { JointType } from '../types/PhysicsTypes';
+import { JointConfig } from '../types/JointTypes';
+import { ValidationIssueCode, ValidationIssueCollector, ValidationResult } from './ValidationTypes';
+
+/**
+ * Validate a joint config. Missing or identical bodies are errors; inverted limit ranges are fixed
+ * by swapping their bounds.
+ * 校验关节配置。缺少物体或两个物体相同均为错误；颠倒的限制范围会通过交换上下限自动修正。
+ */
+export function validateJointConfig(config: JointConfig): ValidationResult<JointConfig> {
+  const collector = new ValidationIssueCollector();
+
+  if (config.bodyA === null || config.bodyA === undefined) {
+    collector.error('bodyA', ValidationIssueCode.MissingBody, 'Joint has no bodyA');
+  }
+  if (config.bodyB === null || config.bodyB === undefined) {
+    collector.error('bodyB', ValidationIssueCode.MissingBody, 'Joint has no bodyB');
+  }
+  if (config.bodyA !== null && config.bodyA !== undefined && config.bodyA === config.bodyB) {
+    collector.error('bodyB', ValidationIssueCode.SameBody, 'Joint connects a body to itself');
+  }
+
+  let fixed: JointConfig = config;
+  switch (config.type) {
+    case JointType.Distance: {
+      requireNonNegative(config.length, 'length', collector);
+      requireNonNegative(config.stiffness, 'stiffness', collector);
+      requireNonNegative(config.damping, 'damping', collector);
+      if (config.minLength && config.maxLength && config.minLength.greaterThan(config.maxLength)) {
+        collector.error('minLength', ValidationIssueCode.InvertedRange, 'minLength is greater than maxLength', true);
+        fixed = { ...config, minLength: config.maxLength, maxLength: config.minLength };
+      }
+      break;
+    }
+    case JointType.Revolute: {
+      requireNonNegative(config.maxMotorTorque, 'maxMotorTorque', collector);
+      if (config.lowerAngle && config.upperAngle && config.lowerAngle.greaterThan(config.upperAngle)) {
+        collector.error('lowerAngle', ValidationIssueCode.InvertedRange, 'lowerAngle is greater than upperAngle', true);
+        fixed = { ...config, lowerAngle: config.upperAngle, upperAngle: config.lowerAngle };
+      }
+      break;
+    }
+    case JointType.Prismatic: {
+      requireNonZeroVector(config.localAxisA, 'localAxisA', collector);
+      requireNonNegative(config.maxMotorForce, 'maxMotorForce', collector);
+      if (config.lowerTranslation && config.upperTranslation &&
+          config.lowerTranslation.greaterThan(config.upperTranslation)) {
+        collector.error('lowerTranslation', ValidationIssueCode.InvertedRange, 'lowerTranslation is greater than upperTranslation', true);
+        fixed = { ...config, lowerTranslation: config.upperTranslation, upperTranslation: config.lowerTranslation };
+      }
+      break;
+    }
+    case JointType.Weld:
+      requireNonNegative(config.stiffness, 'stiffness', collector);
+      requireNonNegative(config.damping, 'damping', collector);
+      break;
+    case JointType.Rope:
+      requirePositive(config.maxLength, 'maxLength', collector);
+      break;
+    case JointType.Mouse:
+      requireNonNegative(config.maxForce, 'maxForce', collector);
+      requireNonNegative(config.stiffness, 'stiffness', collector);
+      requireNonNegative(config.damping, 'damping', collector);
+      break;
+    case JointType.Pulley:
+      requireNonNegative(config.lengthA, 'lengthA', collector);
+      requireNonNegative(config.lengthB, 'lengthB', collector);
+      requirePositive(config.ratio, 'ratio', collector);
+      break;
+    case JointType.Gear:
+      if (config.joint1 === null || config.joint1 === undefined) {
+        collector.error('joint1', ValidationIssueCode.MissingJoint, 'Gear joint has no joint1');
+      }
+      if (config.joint2 === null || config.joint2 === undefined) {
+        collector.error('joint2', ValidationIssueCode.MissingJoint, 'Gear joint has no joint2');
+      }
+      if (config.ratio.equals(Fixed.ZERO)) {
+        collector.error('ratio', ValidationIssueCode.OutOfRange, 'Gear ratio must not be zero');
+      }
+      break;
+    case JointType.Motor:
+      requireNonNegative(config.maxForce, 'maxForce', collector);
+      requireNonNegative(config.maxTorque, 'maxTorque', collector);
+      if (config.correctionFactor &&
+          (config.correctionFactor.lessThan(Fixed.ZERO) || config.correctionFactor.greaterThan(Fixed.ONE))) {
+        collector.error('correctionFactor', ValidationIssueCode.OutOfRange, 'correctionFactor must be between 0 and 1');
+      }
+      break;
+    case JointType.Wheel:
+      requireNonZeroVector(config.localAxisA, 'localAxisA', collector);
+      requireNonNegative(config.maxMotorTorque, 'maxMotorTorque', collector);
+      requireNonNegative(config.stiffness, 'stiffness', collector);
+      requireNonNegative(config.damping, 'damping', collector);
+      break;
+    default:
+      collector.error('type', ValidationIssueCode.InvalidType, `Unknown joint type '${String((config as { type: unknown }).type)}'`);
+      break;
+  }
+
+  return collector.result(fixed);
+}
+
+function requirePositive(value: Fixed | undefined, path: string, collector: ValidationIssueCollector): void {
+  if (value && !value.greaterThan(Fixed.ZERO)) {
+    collector.error(path, ValidationIssueCode.NonPositive, `${path} must be greater than zero, got ${value.toNumber()}`);
+  }
+}
+
+function requireNonNegative(value: Fixed | undefined, path: string, collector: ValidationIssueCollector): void {
+  if (value && value.lessThan(Fixed.ZERO)) {
+    collector.error(path, ValidationIssueCode.Negative, `${path} must not be negative, got ${value.toNumber()}`);
+  }
+}
+
+function requireNonZeroVector(value: FixedVector2, path: string, collector: ValidationIssueCollector): void {
+  if (value.x.equals(Fixed.ZERO) && value.y.equals(Fixed.ZERO)) {
+    collector.error(path, ValidationIssueCode.ZeroLength, `${path} must not be a zero vector`);
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Severity of a validation issue
+ * 校验问题的严重程度
+ */
+export enum ValidationSeverity {
+  /** The config cannot be created as is | 配置无法按原样创建 */
+  Error = 'error',
+  /** The config works but is probably not what was intended | 配置可用，但可能并非预期 */
+  Warning = 'warning'
+}
+
+/**
+ * Machine-readable kind of a validation issue
+ * 机器可读的校验问题类型
+ */
+export enum ValidationIssueCode {
+  /** Unknown collider or joint type | 未知的碰撞器或关节类型 */
+  InvalidType = 'invalid_type',
+  /** Required value is missing | 缺少必需的值 */
+  MissingValue = 'missing_value',
+  /** Value is ignored because another field takes precedence | 值因其他字段优先而被忽略 */
+  IgnoredValue = 'ignored_value',
+  /** Value must be greater than zero | 值必须大于零 */
+  NonPositive = 'non_positive',
+  /** Value must not be negative | 值不能为负 */
+  Negative = 'negative',
+  /** Value is outside its allowed range | 值超出允许范围 */
+  OutOfRange = 'out_of_range',
+  /** Lower bound is greater than upper bound | 下限大于上限 */
+  InvertedRange = 'inverted_range',
+  /** Not enough vertices | 顶点数量不足 */
+  TooFewVertices = 'too_few_vertices',
+  /** More vertices than allowed | 顶点数量超过上限 */
+  TooManyVertices = 'too_many_vertices',
+  /** Vertex repeats a previous one | 顶点与之前的顶点重复 */
+  DuplicateVertex = 'duplicate_vertex',
+  /** Vertex lies on the line through its neighbours | 顶点位于相邻顶点的连线上 */
+  CollinearVertex = 'collinear_vertex',
+  /** Polygon is wound clockwise | 多边形为顺时针顺序 */
+  ClockwiseWinding = 'clockwise_winding',
+  /** Polygon is not convex | 多边形不是凸的 */
+  NonConvex = 'non_convex',
+  /** Segment or axis has zero length | 线段或轴的长度为零 */
+  ZeroLength = 'zero_length',
+  /** Required body is missing | 缺少必需的物体 */
+  MissingBody = 'missing_body',
+  /** Both bodies are the same | 两个物体相同 */
+  SameBody = 'same_body',
+  /** Required joint is missing | 缺少必需的关节 */
+  MissingJoint = 'missing_joint'
+}
+
+/**
+ * A single problem found in a config
+ * 在配置中发现的单个问题
+ */
+export interface ValidationIssue {
+  /** Path of the offending field, e.g. `vertices[2]` | 出错字段的路径，例如 `vertices[2]` */
+  path: string;
+  /** Kind of issue | 问题类型 */
+  code: ValidationIssueCode;
+  /** Severity | 严重程度 */
+  severity: ValidationSeverity;
+  /** Human-readable description | 人类可读的描述 */
+  message: string;
+  /** Whether the validator's fixed config resolves it | 校验器给出的修正配置是否解决了该问题 */
+  fixable: boolean;
+}
+
+/**
+ * Outcome of validating a config
+ * 配置校验结果
+ */
+export interface ValidationResult<T> {
+  /** Whether the config has no errors | 配置是否没有错误 */
+  valid: boolean;
+  /** Every issue found | 发现的所有问题 */
+  issues: ValidationIssue[];
+  /**
+   * Config with all auto-fixes applied (the input itself when nothing needed fixing),
+   * or null when an error cannot be fixed
+   * 应用了所有自动修正的配置（无需修正时为输入本身），存在无法修正的错误时为null
+   */
+  fixed: T | null;
+}
+
+/**
+ * Format an issue as `path: message`
+ * 将问题格式化为 `路径: 消息`
+ */
+export function formatValidationIssue(issue: ValidationIssue): string {
+  return `${issue.path}: ${issue.message}`;
+}
+
+/**
+ * Collects issues while a validator walks a config
+ * 在校验器遍历配置时收集问题
+ */
+export class ValidationIssueCollector {
+  /** Issues collected so far | 目前收集到的问题 */
+  public readonly issues: ValidationIssue[] = [];
+
+  /**
+   * Record an error
+   * 记录一个错误
+   */
+  error(path: string, code: ValidationIssueCode, message: string, fixable: boolean = false): void {
+    this.issues.push({ path, code, severity: ValidationSeverity.Error, message, fixable });
+  }
+
+  /**
+   * Record a warning
+   * 记录一个警告
+   */
+  warning(path: string, code: ValidationIssueCode, message: string, fixable: boolean = false): void {
+    this.issues.push({ path, code, severity: ValidationSeverity.Warning, message, fixable });
+  }
+
+  /**
+   * Build the result for the given fixed config
+   * 根据给定的修正配置构建结果
+   */
+  result<T>(fixed: T): ValidationResult<T> {
+    const errors = this.issues.filter(issue => issue.severity === ValidationSeverity.Error);
+    return {
+      valid: errors.length === 0,
+      issues: this.issues,
+      fixed: errors.some(issue => !issue.fixable) ? null : fixed
+    };
+  }
+}
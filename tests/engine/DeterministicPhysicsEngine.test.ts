@@ -0,0 +1,195 @@
+import { describe, it, expect } from 'vitest';
+import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
+import {
+  DeterministicPhysicsEngine,
+  DeterministicPhysicsEngineFactory,
+  IPhysicsWorld,
+  IRigidBody,
+  RigidBodyType,
+  ColliderType,
+  RaycastMode
+} from '../../src';
+
+const STEP = new Fixed(1 / 60);
+
+interface Scene {
+  world: IPhysicsWorld;
+  ground: IRigidBody;
+  boxes: IRigidBody[];
+  ball: IRigidBody;
+}
+
+/**
+ * Ground, a stack of boxes and a ball thrown at it
+ * 地面、一叠箱子和一个掷向它的球
+ */
+function createScene(): Scene {
+  const engine = new DeterministicPhysicsEngine();
+  const world = engine.createWorld({ gravity: new FixedVector2(0, -10) });
+
+  const ground = engine.createRigidBody(world, { type: RigidBodyType.Static, position: new FixedVector2(0, 0) });
+  engine.createCollider(ground, { type: ColliderType.Box, halfWidth: new Fixed(20), halfHeight: new Fixed(0.5) });
+
+  const boxes: IRigidBody[] = [];
+  for (let i = 0; i < 3; i++) {
+    const box = engine.createRigidBody(world, {
+      type: RigidBodyType.Dynamic,
+      position: new FixedVector2(0, 1 + i * 1.05)
+    });
+    engine.createCollider(box, { type: ColliderType.Box, halfWidth: new Fixed(0.5), halfHeight: new Fixed(0.5) });
+    boxes.push(box);
+  }
+
+  const ball = engine.createRigidBody(world, {
+    type: RigidBodyType.Dynamic,
+    position: new FixedVector2(-4, 2),
+    linearVelocity: new FixedVector2(8, 2)
+  });
+  engine.createCollider(ball, { type: ColliderType.Circle, radius: new Fixed(0.3) });
+
+  return { world, ground, boxes, ball };
+}
+
+function stepWorld(world: IPhysicsWorld, steps: number): void {
+  for (let i = 0; i < steps; i++) {
+    world.step(STEP);
+  }
+}
+
+function rawPositions(bodies: IRigidBody[]): number[] {
+  return bodies.flatMap(body => {
+    const position = body.getPosition();
+    return [position.x.rawValue, position.y.rawValue, body.getRotation().rawValue];
+  });
+}
+
+describe('DeterministicPhysicsEngine', () => {
+  describe('determinism', () => {
+    it('produces bit-identical results for identical runs', () => {
+      const a = createScene();
+      const b = createScene();
+
+      stepWorld(a.world, 120);
+      stepWorld(b.world, 120);
+
+      expect(rawPositions([...a.boxes, a.ball])).toEqual(rawPositions([...b.boxes, b.ball]));
+      expect(a.world.saveState()).toEqual(b.world.saveState());
+    });
+
+    it('actually moves the dynamic bodies', () => {
+      const scene = createScene();
+      const before = rawPositions([scene.ball]);
+
+      stepWorld(scene.world, 30);
+
+      expect(rawPositions([scene.ball])).not.toEqual(before);
+      expect(scene.ground.getPosition().y.rawValue).toBe(new Fixed(0).rawValue);
+    });
+  });
+
+  describe('snapshots', () => {
+    it('resumes bit-identically after a restore', () => {
+      const scene = createScene();
+      stepWorld(scene.world, 20);
+      const state = scene.world.saveState();
+
+      stepWorld(scene.world, 40);
+      const expected = scene.world.saveState();
+
+      scene.world.restoreState(state);
+      expect(scene.world.saveState()).toEqual(state);
+
+      stepWorld(scene.world, 40);
+      expect(scene.world.saveState()).toEqual(expected);
+    });
+
+    it('round-trips into a world with the same layout', () => {
+      const source = createScene();
+      stepWorld(source.world, 25);
+
+      const target = createScene();
+      target.world.restoreState(source.world.saveState());
+
+      stepWorld(source.world, 10);
+      stepWorld(target.world, 10);
+      expect(rawPositions([...target.boxes, target.ball])).toEqual(rawPositions([...source.boxes, source.ball]));
+    });
+
+    it('rejects snapshots of a different world', () => {
+      const scene = createScene();
+      const engine = new DeterministicPhysicsEngine();
+      const empty = engine.createWorld({ gravity: new FixedVector2(0, -10) });
+
+      expect(() => empty.restoreState(scene.world.saveState())).toThrow();
+      expect(() => scene.world.restoreState(new Uint8Array([1, 2, 3]))).toThrow();
+    });
+  });
+
+  describe('queries', () => {
+    it('reports raycast hits sorted by distance', () => {
+      const { world, boxes } = createScene();
+
+      const hits = world.raycast({
+        origin: new FixedVector2(0, 10),
+        direction: new FixedVector2(0, -1),
+        maxDistance: new Fixed(20),
+        mode: RaycastMode.All
+      });
+
+      expect(hits.map(hit => hit.body)).toEqual([boxes[2], boxes[1], boxes[0], expect.anything()]);
+      expect(hits[0]!.distance!.toNumber()).toBeCloseTo(10 - (3.1 + 0.5), 3);
+      expect(hits[0]!.normal!.y.toNumber()).toBeCloseTo(1, 3);
+    });
+
+    it('reports only the closest raycast hit and honours the max distance', () => {
+      const { world, boxes } = createScene();
+      const input = { origin: new FixedVector2(0, 10), direction: new FixedVector2(0, -1) };
+
+      const closest = world.raycast({ ...input, maxDistance: new Fixed(20), mode: RaycastMode.Closest });
+      expect(closest.map(hit => hit.body)).toEqual([boxes[2]]);
+
+      expect(world.raycast({ ...input, maxDistance: new Fixed(5) })).toEqual([]);
+    });
+
+    it('finds bodies by AABB and overlap shape', () => {
+      const { world, ground, boxes, ball } = createScene();
+
+      const inBox = world.queryAABB(new FixedVector2(-0.2, 0.4), new FixedVector2(0.2, 1.2));
+      expect(inBox).toEqual([ground, boxes[0]]);
+
+      const nearBall = world.overlapCircle(new FixedVector2(-4, 2), new Fixed(0.5));
+      expect(nearBall.map(hit => hit.body)).toEqual([ball]);
+
+      const capsule = world.overlapShape(
+        { type: ColliderType.Capsule, radius: new Fixed(0.2), height: new Fixed(3) },
+        new FixedVector2(0, 2.5),
+        Fixed.ZERO
+      );
+      expect(capsule.map(hit => hit.body)).toEqual(boxes);
+    });
+
+    it('sweeps a shape to the first impact', () => {
+      const { world, boxes } = createScene();
+
+      const result = world.shapeCast({
+        shape: { type: ColliderType.Circle, radius: new Fixed(0.25) },
+        position: new FixedVector2(-5, 1),
+        translation: new FixedVector2(10, 0)
+      });
+
+      expect(result.hit).toBe(true);
+      expect(result.body).toBe(boxes[0]);
+      expect(result.fraction!.toNumber()).toBeCloseTo((5 - 0.5 - 0.25) / 10, 3);
+    });
+  });
+
+  describe('factory', () => {
+    it('creates deterministic engines and lists their features', () => {
+      const factory = new DeterministicPhysicsEngineFactory();
+
+      expect(factory.createEngine()).toBeInstanceOf(DeterministicPhysicsEngine);
+      expect(factory.isFeatureSupported('collider:capsule')).toBe(factory.getSupportedFeatures().includes('collider:capsule'));
+      expect(factory.isFeatureSupported('no-such-feature')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, it, expect } from 'vitest';
+import { World, Entity } from '@esengine/nova-ecs';
+import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
+import {
+  MockPhysicsEngine,
+  MockRigidBody,
+  PhysicsWorldSystem,
+  PhysicsBodySystem,
+  PhysicsColliderSystem,
+  PhysicsRollbackSystem,
+  RigidBodyComponent,
+  ColliderComponent,
+  PhysicsTransformComponent,
+  CollisionEventComponent,
+  RigidBodyType,
+  ColliderType,
+  ColliderConfig
+} from '../../src';
+
+interface Harness {
+  world: World;
+  engine: MockPhysicsEngine;
+  worldSystem: PhysicsWorldSystem;
+  bodySystem: PhysicsBodySystem;
+  colliderSystem: PhysicsColliderSystem;
+  spawn(position: FixedVector2, collider: ColliderConfig): Entity;
+}
+
+/**
+ * World system on the mock engine, ready once its world has been created
+ * 基于模拟引擎的世界系统，在其物理世界创建后可用
+ */
+async function createHarness(features: string[] = []): Promise<Harness> {
+  const world = new World();
+  const engine = new MockPhysicsEngine();
+  const worldSystem = new PhysicsWorldSystem(engine, { gravity: new FixedVector2(0, -10) });
+  worldSystem.setSupportedFeatures(features);
+  world.addSystem(worldSystem);
+  await new Promise(resolve => setTimeout(resolve, 0));
+
+  const bodySystem = new PhysicsBodySystem(worldSystem);
+  const colliderSystem = new PhysicsColliderSystem(worldSystem);
+
+  const spawn = (position: FixedVector2, collider: ColliderConfig): Entity => {
+    const entity = world.createEntity();
+    entity.addComponent(new PhysicsTransformComponent(position));
+    entity.addComponent(new RigidBodyComponent(RigidBodyType.Dynamic));
+    entity.addComponent(new ColliderComponent(collider));
+    bodySystem.onEntityAdded(entity);
+    colliderSystem.onEntityAdded(entity);
+    return entity;
+  };
+
+  return { world, engine, worldSystem, bodySystem, colliderSystem, spawn };
+}
+
+function bodyOf(entity: Entity): MockRigidBody {
+  return entity.getComponent(RigidBodyComponent)!.body as MockRigidBody;
+}
+
+/**
+ * Moves every body by its linear velocity, so rollback has something to resimulate
+ * 按线速度移动每个物体，使回滚有内容可以重新模拟
+ */
+function integrate(engine: MockPhysicsEngine): void {
+  engine.getWorld().setStepHandler(deltaTime => {
+    for (const body of engine.getWorld().getBodies()) {
+      body.setPosition(body.getPosition().add(body.getLinearVelocity().multiply(deltaTime)));
+    }
+  });
+}
+
+describe('physics systems on the mock engine', () => {
+  describe('PhysicsColliderSystem', () => {
+    it('creates a body and collider for each entity', async () => {
+      const { engine, spawn } = await createHarness();
+
+      const entity = spawn(new FixedVector2(1, 2), { type: ColliderType.Circle, radius: new Fixed(0.5) });
+
+      engine.assertBodyCreated({ entityId: entity.id, type: RigidBodyType.Dynamic });
+      const collider = engine.assertColliderCreated({ entityId: entity.id, config: { type: ColliderType.Circle } });
+      expect(entity.getComponent(ColliderComponent)!.collider).toBe(collider);
+    });
+
+    it('keeps the capsule fallback parts in sync with filter and sensor changes', async () => {
+      const { spawn } = await createHarness();
+
+      const entity = spawn(new FixedVector2(), { type: ColliderType.Capsule, radius: new Fixed(0.3), height: new Fixed(1) });
+      const colliderComp = entity.getComponent(ColliderComponent)!;
+      expect(colliderComp.fallbackColliders).toHaveLength(2);
+
+      colliderComp.setFilter({ categoryBits: 0x0002, maskBits: 0x0004, groupIndex: 0 });
+      colliderComp.setSensor(true);
+
+      for (const part of [colliderComp.collider!, ...colliderComp.fallbackColliders]) {
+        expect(part.getFilter().maskBits).toBe(0x0004);
+        expect(part.isSensor()).toBe(true);
+      }
+    });
+
+    it('uses a native capsule when the engine supports it', async () => {
+      const { spawn } = await createHarness(['collider:capsule']);
+
+      const entity = spawn(new FixedVector2(), { type: ColliderType.Capsule, radius: new Fixed(0.3), height: new Fixed(1) });
+
+      expect(entity.getComponent(ColliderComponent)!.fallbackColliders).toHaveLength(0);
+    });
+
+    it('destroys the parts already created when a later part fails', async () => {
+      const { engine, spawn } = await createHarness();
+      const createCollider = engine.createCollider.bind(engine);
+      let calls = 0;
+      engine.createCollider = (...args) => {
+        if (++calls === 2) throw new Error('engine failure');
+        return createCollider(...args);
+      };
+
+      const entity = spawn(new FixedVector2(), { type: ColliderType.Capsule, radius: new Fixed(0.3), height: new Fixed(1) });
+
+      const colliderComp = entity.getComponent(ColliderComponent)!;
+      expect(colliderComp.collider).toBeNull();
+      expect(colliderComp.fallbackColliders).toHaveLength(0);
+      expect(bodyOf(entity).getColliders()).toHaveLength(0);
+    });
+  });
+
+  describe('PhysicsWorldSystem', () => {
+    it('restores body state from a snapshot', async () => {
+      const { worldSystem, spawn } = await createHarness();
+      const body = bodyOf(spawn(new FixedVector2(1, 2), { type: ColliderType.Circle, radius: new Fixed(0.5) }));
+
+      worldSystem.advanceTicks(3);
+      const state = worldSystem.saveState()!;
+
+      body.setPosition(new FixedVector2(5, 5));
+      body.setAwake(false);
+      worldSystem.restoreState(state);
+
+      expect(body.getPosition().x.toNumber()).toBe(1);
+      expect(body.getPosition().y.toNumber()).toBe(2);
+      expect(body.isAwake()).toBe(true);
+    });
+
+    it('rejects a snapshot taken with other bodies', async () => {
+      const { worldSystem, spawn } = await createHarness();
+      const state = worldSystem.saveState()!;
+
+      spawn(new FixedVector2(), { type: ColliderType.Circle, radius: new Fixed(0.5) });
+
+      expect(() => worldSystem.restoreState(state)).toThrow();
+    });
+  });
+
+  describe('PhysicsRollbackSystem', () => {
+    it('resimulates corrected inputs to the same result as a straight run', async () => {
+      const run = async (correct: boolean): Promise<{ body: MockRigidBody; transform: PhysicsTransformComponent }> => {
+        const { world, engine, worldSystem, spawn } = await createHarness();
+        integrate(engine);
+        const entity = spawn(new FixedVector2(), { type: ColliderType.Circle, radius: new Fixed(0.5) });
+        const rollback = new PhysicsRollbackSystem<number>(worldSystem, {
+          applyInput: speed => bodyOf(entity).setLinearVelocity(new FixedVector2(speed, 0))
+        });
+        world.addSystem(rollback);
+
+        rollback.setInput(2, 1);
+        rollback.setInput(5, correct ? 2 : 6);
+        worldSystem.advanceTicks(10);
+        if (correct) {
+          rollback.setInput(5, 6);
+          rollback.update([], 0);
+        }
+        return { body: bodyOf(entity), transform: entity.getComponent(PhysicsTransformComponent)! };
+      };
+
+      const straight = await run(false);
+      const corrected = await run(true);
+
+      expect(corrected.body.getPosition().x.rawValue).toBe(straight.body.getPosition().x.rawValue);
+      expect(corrected.transform.position.x.rawValue).toBe(straight.transform.position.x.rawValue);
+      expect(corrected.transform.previousPosition.x.rawValue).toBe(straight.transform.previousPosition.x.rawValue);
+    });
+
+    it('runs an existing collision callback filter first and restores it on removal', async () => {
+      const { world, engine, worldSystem, spawn } = await createHarness();
+      const a = spawn(new FixedVector2(), { type: ColliderType.Circle, radius: new Fixed(0.5) });
+      const b = spawn(new FixedVector2(1, 0), { type: ColliderType.Circle, radius: new Fixed(0.5) });
+      let begins = 0;
+      const events = new CollisionEventComponent();
+      events.addCollisionBeginCallback(() => begins++);
+      a.addComponent(events);
+
+      let blocked = true;
+      const filter = (): boolean => !blocked;
+      worldSystem.setCollisionCallbackFilter(filter);
+      const rollback = new PhysicsRollbackSystem(worldSystem);
+      world.addSystem(rollback);
+
+      worldSystem.advanceTicks(1);
+      engine.getWorld().emitCollisionBegin(bodyOf(a), bodyOf(b));
+      expect(begins).toBe(0);
+
+      blocked = false;
+      engine.getWorld().emitCollisionBegin(bodyOf(a), bodyOf(b));
+      expect(begins).toBe(1);
+
+      world.removeSystem(rollback);
+      expect(worldSystem.getCollisionCallbackFilter()).toBe(filter);
+    });
+  });
+});